@@ -0,0 +1,17 @@
+// Writes src/lib/fundraiserAbi.ts from contractABI.json so viem and wagmi can type every
+// FundraiserFactory call. Run with `npm run generate:abi` after the contract changes.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const abi = JSON.parse(readFileSync(join(root, 'contractABI.json'), 'utf8'));
+
+const source = `// Generated from contractABI.json by scripts/generate-fundraiser-abi.mjs; do not edit.
+// \`as const\` lets viem and wagmi infer argument and return types for every call.
+
+export const fundraiserFactoryAbi = ${JSON.stringify(abi, null, 2)} as const;
+`;
+
+writeFileSync(join(root, 'src/lib/fundraiserAbi.ts'), source);
+console.log(`Wrote ${abi.length} ABI entries to src/lib/fundraiserAbi.ts`);
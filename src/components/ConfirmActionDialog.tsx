@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogActions, DialogContent, DialogTitle } from '@mui/material';
+import { Button } from '@/components/ui/button';
+import type { AdminAction } from '@/lib/admin';
+
+const CONFIRM_WORD = 'CONFIRM';
+
+interface ConfirmActionDialogProps {
+  action: AdminAction | null;
+  onCancel: () => void;
+  onConfirm: (action: AdminAction) => void;
+}
+
+// Every owner transaction goes through this; dangerous ones need CONFIRM typed out
+export const ConfirmActionDialog = ({ action, onCancel, onConfirm }: ConfirmActionDialogProps) => {
+  const [confirmText, setConfirmText] = useState('');
+
+  useEffect(() => {
+    setConfirmText('');
+  }, [action]);
+
+  return (
+    <Dialog open={!!action} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>{action?.title}</DialogTitle>
+      <DialogContent>
+        <p className="mb-4">{action?.summary}</p>
+        {action?.danger && (
+          <>
+            <p className="mb-2 text-sm text-red-700">This cannot be undone. Type {CONFIRM_WORD} to continue.</p>
+            <input
+              value={confirmText}
+              onChange={e => setConfirmText(e.target.value)}
+              className="w-full p-2 border rounded-md"
+              autoFocus
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant={action?.danger ? 'destructive' : 'default'}
+          onClick={() => action && onConfirm(action)}
+          disabled={!!action?.danger && confirmText !== CONFIRM_WORD}
+        >
+          Confirm
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
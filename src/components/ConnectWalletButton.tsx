@@ -0,0 +1,20 @@
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+
+// RainbowKit's connect flow in the dark navbar's style, so any wallet it supports can
+// connect, not only an injected one
+const ConnectWalletButton = () => (
+  <ConnectButton.Custom>
+    {({ account, mounted, openAccountModal, openConnectModal }) => (
+      <button
+        onClick={account ? openAccountModal : openConnectModal}
+        className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-md transition"
+        // Account state is only known after hydration
+        style={mounted ? undefined : { visibility: 'hidden' }}
+      >
+        {account ? `Connected: ${account.displayName}` : 'Connect wallet'}
+      </button>
+    )}
+  </ConnectButton.Custom>
+);
+
+export default ConnectWalletButton;
@@ -0,0 +1,137 @@
+import { CheckCircle2, Circle, Loader2, MinusCircle, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  APPROVAL_MODE_LABELS,
+  ApprovalMode,
+  DonationState,
+  DonationStep,
+  canCancelDonation,
+} from '@/lib/donationPipeline';
+import { transactionUrl } from '@/lib/receipt';
+import { cn } from '@/lib/utils';
+import { formatUsdc } from '@/lib/usdc';
+
+// The order the pipeline runs in
+const STEP_ORDER: DonationStep[] = ['checkingBalance', 'checkingAllowance', 'approving', 'donating', 'confirming', 'done'];
+
+type RowStatus = 'pending' | 'active' | 'complete' | 'skipped' | 'failed';
+
+const stepIndex = (step: DonationStep) => STEP_ORDER.indexOf(step);
+
+const rowStatus = (row: DonationStep, state: DonationState): RowStatus => {
+  const stopped = state.step === 'failed' || state.step === 'cancelled';
+  const current = stepIndex(stopped ? state.failedStep || 'idle' : state.step);
+  const index = stepIndex(row);
+
+  if (row === 'approving' && state.approvalSkipped && current > index) return 'skipped';
+  if (index < current || state.step === 'done') return 'complete';
+  if (index === current) return stopped ? 'failed' : 'active';
+  return 'pending';
+};
+
+const rowLabel = (row: DonationStep, state: DonationState) => {
+  switch (row) {
+    case 'checkingBalance':
+      return 'Check USDC balance';
+    case 'checkingAllowance':
+      return 'Check allowance';
+    case 'approving':
+      return state.approvalSkipped ? 'Already approved' : 'Approve USDC';
+    case 'donating':
+      return `Donate ${formatUsdc(state.amount)}`;
+    case 'confirming':
+      return 'Wait for confirmation';
+    default:
+      return 'Done';
+  }
+};
+
+const ROW_ICONS: Record<RowStatus, JSX.Element> = {
+  pending: <Circle className="h-4 w-4 text-gray-400" />,
+  active: <Loader2 className="h-4 w-4 animate-spin text-green-600" />,
+  complete: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  skipped: <MinusCircle className="h-4 w-4 text-gray-400" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />,
+};
+
+// Donations are sent on the fundraiser's chain, so its explorer has the transaction
+const TxLink = ({ hash, chainId, label }: { hash: string; chainId: number; label: string }) => (
+  <a href={transactionUrl(hash, chainId)} target="_blank" rel="noopener noreferrer" className="underline">
+    {label}
+  </a>
+);
+
+interface ApprovalModePickerProps {
+  value: ApprovalMode;
+  onChange: (mode: ApprovalMode) => void;
+  disabled?: boolean;
+  // Defaults to every mode
+  modes?: ApprovalMode[];
+  className?: string;
+}
+
+export const ApprovalModePicker = ({
+  value,
+  onChange,
+  disabled,
+  modes = ['exact', 'unlimited'],
+  className,
+}: ApprovalModePickerProps) => (
+  <fieldset className={cn('space-y-1 text-sm', className)} disabled={disabled}>
+    <legend className="font-semibold mb-1">USDC approval</legend>
+    {modes.map(mode => (
+      <label key={mode} className="flex items-center gap-2 cursor-pointer">
+        <input type="radio" name="approval-mode" checked={value === mode} onChange={() => onChange(mode)} />
+        {APPROVAL_MODE_LABELS[mode]}
+      </label>
+    ))}
+  </fieldset>
+);
+
+interface DonationProgressProps {
+  state: DonationState;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+export const DonationProgress = ({ state, onCancel, onRetry, onDismiss, className }: DonationProgressProps) => (
+  <div className={cn('rounded-md border p-4 text-sm', className)}>
+    <ol className="space-y-2">
+      {STEP_ORDER.map(row => {
+        const status = rowStatus(row, state);
+        return (
+          <li key={row} className={cn('flex items-center gap-2', status === 'pending' && 'opacity-60')}>
+            {ROW_ICONS[status]}
+            <span>{rowLabel(row, state)}</span>
+            {row === 'approving' && state.approvalTxHash && <TxLink hash={state.approvalTxHash} chainId={state.chainId} label="view" />}
+            {row === 'donating' && state.txHash && <TxLink hash={state.txHash} chainId={state.chainId} label="view" />}
+          </li>
+        );
+      })}
+    </ol>
+
+    {state.step === 'failed' && state.error && <p className="mt-3 text-red-600">{state.error.message}</p>}
+    {state.step === 'cancelled' && <p className="mt-3">Donation cancelled. No USDC was donated.</p>}
+    {state.step === 'done' && <p className="mt-3 text-green-600">Thank you! Your donation is confirmed.</p>}
+
+    <div className="mt-4 flex gap-2">
+      {canCancelDonation(state) && (
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      )}
+      {(state.step === 'failed' || state.step === 'cancelled') && (
+        <Button size="sm" onClick={onRetry}>
+          {state.txHash ? 'Check again' : 'Retry'}
+        </Button>
+      )}
+      {onDismiss && (state.step === 'done' || state.step === 'failed' || state.step === 'cancelled') && (
+        <Button variant="outline" size="sm" onClick={onDismiss}>
+          Close
+        </Button>
+      )}
+    </div>
+  </div>
+);
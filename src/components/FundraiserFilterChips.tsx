@@ -0,0 +1,73 @@
+import { CATEGORY_KEYS, FundraiserCategory, categoryLabel } from '@/lib/categories';
+import { useFundraiserFacets } from '@/hooks/useFundraiserFacets';
+import { cn } from '@/lib/utils';
+
+interface FundraiserFilterChipsProps {
+  category: FundraiserCategory | null;
+  tag: string | null;
+  onChange: (filters: { category: FundraiserCategory | null; tag: string | null }) => void;
+  // browse.tsx is dark, the other listings are light
+  tone?: 'light' | 'dark';
+  className?: string;
+}
+
+const CHIP_CLASSES = {
+  light: {
+    idle: 'border-gray-300 bg-white text-gray-700 hover:bg-green-50',
+    selected: 'border-green-600 bg-green-600 text-white',
+  },
+  dark: {
+    idle: 'border-gray-600 bg-gray-800 text-gray-200 hover:bg-gray-700',
+    selected: 'border-green-500 bg-green-600 text-white',
+  },
+};
+
+// Category chips with their counts, then the most used tags; picking a selected chip
+// again clears it
+export const FundraiserFilterChips = ({
+  category,
+  tag,
+  onChange,
+  tone = 'light',
+  className,
+}: FundraiserFilterChipsProps) => {
+  const facets = useFundraiserFacets();
+  const classes = CHIP_CLASSES[tone];
+  // The selected tag stays visible even when it is not among the popular ones
+  const tags = facets?.tags.map(facet => facet.tag) ?? [];
+  if (tag && !tags.includes(tag)) tags.unshift(tag);
+
+  const chip = (label: string, selected: boolean, onClick: () => void, key: string) => (
+    <button
+      key={key}
+      type="button"
+      aria-pressed={selected}
+      onClick={onClick}
+      className={cn('px-3 py-1 rounded-full border text-sm transition-colors', selected ? classes.selected : classes.idle)}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className={cn('flex flex-col gap-2', className)}>
+      <div className="flex flex-wrap justify-center gap-2">
+        {chip('All categories', category === null, () => onChange({ category: null, tag }), 'all')}
+        {CATEGORY_KEYS.map(key => {
+          const count = facets?.categories[key];
+          return chip(
+            count === undefined ? categoryLabel(key) : `${categoryLabel(key)} (${count})`,
+            category === key,
+            () => onChange({ category: category === key ? null : key, tag }),
+            key
+          );
+        })}
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {tags.map(name => chip(`#${name}`, tag === name, () => onChange({ category, tag: tag === name ? null : name }), name))}
+        </div>
+      )}
+    </div>
+  );
+};
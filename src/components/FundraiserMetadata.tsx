@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import { categoryLabel } from '@/lib/categories';
+import { Fundraiser, fundraiserMetadata } from '@/lib/fundraiser';
+import { cn } from '@/lib/utils';
+
+interface FundraiserMetadataProps {
+  fundraiser: Pick<Fundraiser, 'content'>;
+  // Filters the current listing by the tag; without it tags are plain text
+  onTagClick?: (tag: string) => void;
+  tone?: 'light' | 'dark';
+  className?: string;
+}
+
+// Category (linking to its page), location and tags; nothing for fundraisers without them
+export const FundraiserMetadata = ({ fundraiser, onTagClick, tone = 'light', className }: FundraiserMetadataProps) => {
+  const { category, tags, location } = fundraiserMetadata(fundraiser);
+  if (!category && !location && tags.length === 0) return null;
+  const muted = tone === 'dark' ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-x-2 gap-y-1 text-xs', muted, className)}>
+      {category && (
+        <Link
+          href={`/categories/${category}`}
+          onClick={e => e.stopPropagation()}
+          className={cn('font-semibold hover:underline', tone === 'dark' ? 'text-green-400' : 'text-green-700')}
+        >
+          {categoryLabel(category)}
+        </Link>
+      )}
+      {location && <span>{location}</span>}
+      {tags.map(tag =>
+        onTagClick ? (
+          <button
+            key={tag}
+            type="button"
+            onClick={e => {
+              e.stopPropagation();
+              onTagClick(tag);
+            }}
+            className="hover:underline"
+          >
+            #{tag}
+          </button>
+        ) : (
+          <span key={tag}>#{tag}</span>
+        )
+      )}
+    </div>
+  );
+};
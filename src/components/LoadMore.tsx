@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+
+interface LoadMoreProps {
+  hasMore: boolean;
+  loading: boolean;
+  // The last attempt failed; scrolling no longer retries, the button does
+  failed?: boolean;
+  onLoadMore: () => void;
+  className?: string;
+}
+
+// Loads the next page when scrolled into view (infinite scroll), with a button for
+// browsers without IntersectionObserver and for keyboard users
+export const LoadMore = ({ hasMore, loading, failed = false, onLoadMore, className }: LoadMoreProps) => {
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!hasMore || loading || failed || !element || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+      },
+      // Start loading a little before the end of the list is reached
+      { rootMargin: '400px' },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, loading, failed, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinel} className={`flex justify-center py-8 ${className ?? ''}`}>
+      <Button variant="outline" className="text-foreground" disabled={loading} onClick={() => onLoadMore()}>
+        {loading ? 'Loading…' : failed ? 'Could not load more. Try again' : 'Load more'}
+      </Button>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import Link from 'next/link';
 import ConnectWalletButton from './ConnectWalletButton';
+import { UnsupportedNetworkNotice } from './UnsupportedNetworkNotice';
 
 export default function Navbar() {
   return (
@@ -19,15 +20,15 @@ export default function Navbar() {
 
         {/* MIDDLE: Nav Links */}
         <div className="flex-1 hidden md:flex justify-center items-center space-x-15 text-lg">
-          <a href="/browse" className="hover:text-green-400">
+          <Link href="/browse" className="hover:text-green-400">
             🔎 Browse
-          </a>
-          <a href="/lend" className="hover:text-green-400">
+          </Link>
+          <Link href="/lend" className="hover:text-green-400">
             🤝 Donate
-          </a>
-          <a href="/fundraise" className="hover:text-green-400">
+          </Link>
+          <Link href="/fundraise" className="hover:text-green-400">
             🫶 Fundraise
-          </a>
+          </Link>
         </div>
 
         {/* RIGHT: Connect Wallet */}
@@ -35,6 +36,7 @@ export default function Navbar() {
           <ConnectWalletButton />
         </div>
       </div>
+      <UnsupportedNetworkNotice />
     </nav>
   );
 }
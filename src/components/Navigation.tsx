@@ -2,13 +2,18 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import Link from 'next/link';
 import { Button } from "@/components/ui/button";
 import { CheckCircle } from 'lucide-react';
+import { useNavigation } from '@/hooks/useNavigation';
+import { UnsupportedNetworkNotice } from '@/components/UnsupportedNetworkNotice';
 
 interface NavigationProps {
   isVerified: boolean;
-  onAskForHelp: () => void;
+  // Defaults to routing on the wallet's eligibility
+  onAskForHelp?: () => void;
 }
 
 export const Navigation = ({ isVerified, onAskForHelp }: NavigationProps) => {
+  const { handleLendAHand, eligibility } = useNavigation();
+
   return (
     <nav className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-16 items-center justify-between">
@@ -22,19 +27,32 @@ export const Navigation = ({ isVerified, onAskForHelp }: NavigationProps) => {
         <div className="hidden md:flex items-center space-x-6">
           <Button 
             variant="ghost" 
-            onClick={onAskForHelp}
+            onClick={onAskForHelp ?? handleLendAHand}
           >
             Ask for Help
           </Button>
           <Button variant="ghost" asChild>
             <Link href="/lendahand">Lend a Hand</Link>
           </Button>
+          <Button variant="ghost" asChild>
+            <Link href="/categories">Categories</Link>
+          </Button>
+          <Button variant="ghost" asChild>
+            <Link href="/mydonations">My Donations</Link>
+          </Button>
+          <Button variant="ghost" asChild>
+            <Link href="/myfundraisers">My Fundraisers</Link>
+          </Button>
         </div>
         <CheckCircle 
             className={`w-6 h-6 ${isVerified ? 'text-green-500' : 'text-gray-300'}`} 
-          />
+            aria-label={eligibility.reason}
+          >
+            <title>{eligibility.reason}</title>
+          </CheckCircle>
         <ConnectButton />
       </div>
+      <UnsupportedNetworkNotice />
     </nav>
   );
 }; 
\ No newline at end of file
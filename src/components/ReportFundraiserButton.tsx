@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Dialog, DialogActions, DialogContent, DialogTitle } from '@mui/material';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { reportFundraiser } from '@/lib/fundraiserApi';
+import { MAX_REASON_LENGTH } from '@/lib/moderation';
+
+interface ReportFundraiserButtonProps {
+  fundraiserId: number;
+  className?: string;
+}
+
+// "Report this fundraiser": sends a reason to the moderators' queue. Reports come from a
+// signed-in wallet, so without a session the button starts RainbowKit's sign-in instead.
+export const ReportFundraiserButton = ({ fundraiserId, className }: ReportFundraiserButtonProps) => {
+  const { status } = useAuth();
+  const { openConnectModal } = useConnectModal();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const [reported, setReported] = useState(false);
+
+  const start = () => {
+    if (status !== 'authenticated') {
+      openConnectModal?.();
+      return;
+    }
+    setError('');
+    setOpen(true);
+  };
+
+  const submit = async () => {
+    setSending(true);
+    setError('');
+    try {
+      await reportFundraiser(fundraiserId, { reason });
+      setReported(true);
+      setOpen(false);
+      setReason('');
+    } catch (err: any) {
+      setError(err.message || 'The report could not be sent.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (reported) {
+    return <p className={`text-sm text-gray-500 ${className ?? ''}`}>Thanks, the moderators will take a look.</p>;
+  }
+
+  return (
+    <>
+      <Button variant="link" size="sm" className={`px-0 text-gray-500 ${className ?? ''}`} onClick={start}>
+        Report this fundraiser
+      </Button>
+
+      <Dialog open={open} onClose={() => !sending && setOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Report fundraiser #{fundraiserId}</DialogTitle>
+        <DialogContent>
+          <p className="mb-2 text-sm text-gray-600">
+            Tell the moderators what is wrong, e.g. a scam, impersonation or offensive content.
+          </p>
+          <textarea
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            maxLength={MAX_REASON_LENGTH}
+            rows={4}
+            className="w-full p-2 border rounded-md"
+            autoFocus
+          />
+          {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+        </DialogContent>
+        <DialogActions>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={submit} disabled={sending || !reason.trim()}>
+            {sending ? 'Sending…' : 'Report'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
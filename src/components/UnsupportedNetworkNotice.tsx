@@ -0,0 +1,33 @@
+import { useSwitchChain } from 'wagmi';
+import { Button } from '@/components/ui/button';
+import { DEPLOYMENTS } from '@/lib/deployments';
+import { useDeployment } from '@/hooks/useDeployment';
+
+// Shown under the navigation while the wallet is on a chain without a deployment
+export const UnsupportedNetworkNotice = () => {
+  const { isSupported } = useDeployment();
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (isSupported) return null;
+
+  return (
+    <div className="w-full bg-amber-50 border-b border-amber-200 text-amber-900">
+      <div className="container flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+        <span>Helping Hand is not available on this network. Fundraisers shown are read from the default network.</span>
+        <div className="flex gap-2">
+          {Object.values(DEPLOYMENTS).map(deployment => (
+            <Button
+              key={deployment.chainId}
+              size="sm"
+              variant="outline"
+              disabled={isPending}
+              onClick={() => switchChain({ chainId: deployment.chainId })}
+            >
+              Switch to {deployment.name}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import type { YieldSnapshot } from '@/lib/yield';
+import { USDC_UNIT, formatUsdc } from '@/lib/usdc';
+
+interface YieldChartProps {
+  snapshots: YieldSnapshot[];
+  // Seconds since epoch; drawn as vertical markers (e.g. yield distributions)
+  markers?: Array<{ timestamp: number; label: string }>;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 72 };
+
+// Plotting only needs cents, which keeps the numbers well inside float precision
+const toDollars = (baseUnits: bigint) => Number(baseUnits / (USDC_UNIT / BigInt(100))) / 100;
+
+const SERIES = [
+  { key: 'principal' as const, label: 'Principal', color: '#9ca3af' },
+  { key: 'aTokenBalance' as const, label: 'aUSDC balance', color: '#16a34a' },
+];
+
+// Principal vs aUSDC over time; the gap between the lines is the yield
+export const YieldChart = ({ snapshots, markers = [] }: YieldChartProps) => {
+  if (snapshots.length < 2) {
+    return <p className="text-sm text-gray-500">Not enough history yet. A snapshot is recorded every 15 minutes.</p>;
+  }
+
+  const start = snapshots[0].timestamp;
+  const end = snapshots[snapshots.length - 1].timestamp;
+  const amounts = snapshots.flatMap(snapshot => [snapshot.principal, snapshot.aTokenBalance]);
+  const minBase = amounts.reduce((lowest, amount) => (amount < lowest ? amount : lowest));
+  const maxBase = amounts.reduce((highest, amount) => (amount > highest ? amount : highest));
+  const min = toDollars(minBase);
+  const max = toDollars(maxBase);
+  // Flat history still gets a visible band
+  const span = max - min || Math.max(max, 1);
+
+  const x = (timestamp: number) =>
+    PADDING.left + ((timestamp - start) / (end - start || 1)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) =>
+    HEIGHT - PADDING.bottom - ((value - min) / span) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Principal and aUSDC balance over time">
+        <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#e5e7eb" />
+        <text x={PADDING.left - 8} y={y(max) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+          {formatUsdc(maxBase)}
+        </text>
+        <text x={PADDING.left - 8} y={y(min) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+          {formatUsdc(minBase)}
+        </text>
+        <text x={PADDING.left} y={HEIGHT - 8} fontSize="11" fill="#6b7280">
+          {formatDate(start)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="#6b7280">
+          {formatDate(end)}
+        </text>
+
+        {markers
+          .filter(marker => marker.timestamp >= start && marker.timestamp <= end)
+          .map(marker => (
+            <line
+              key={`${marker.timestamp}-${marker.label}`}
+              x1={x(marker.timestamp)}
+              x2={x(marker.timestamp)}
+              y1={PADDING.top}
+              y2={HEIGHT - PADDING.bottom}
+              stroke="#f59e0b"
+              strokeDasharray="4 3"
+            >
+              <title>{marker.label}</title>
+            </line>
+          ))}
+
+        {SERIES.map(series => (
+          <polyline
+            key={series.key}
+            fill="none"
+            stroke={series.color}
+            strokeWidth="2"
+            points={snapshots.map(snapshot => `${x(snapshot.timestamp)},${y(toDollars(snapshot[series.key]))}`).join(' ')}
+          />
+        ))}
+      </svg>
+
+      <div className="flex gap-4 text-sm mt-2">
+        {SERIES.map(series => (
+          <span key={series.key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: series.color }} />
+            {series.label}
+          </span>
+        ))}
+        {markers.length > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5 bg-amber-500" />
+            Yield distributed
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">The contract reports whole USDC, so values are rounded down.</p>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useRouter } from 'next/router';
+import { useAccount } from 'wagmi';
+import { createSiweMessage } from 'viem/siwe';
+import {
+  AuthenticationStatus,
+  RainbowKitAuthenticationProvider,
+  createAuthenticationAdapter,
+} from '@rainbow-me/rainbowkit';
+import { AuthSessionJson, fetchAuthNonce, fetchAuthSession, signIn, signOut } from '@/lib/fundraiserApi';
+import { sameAddress } from '@/lib/verification';
+
+interface AuthContextType {
+  status: AuthenticationStatus;
+  // Only set while it belongs to the connected wallet
+  session: AuthSessionJson | null;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+// Sign-In With Ethereum through RainbowKit: after connecting, the wallet is asked to sign
+// a message and the server answers with an HttpOnly session cookie
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { address, status: accountStatus } = useAccount();
+  const [session, setSession] = useState<AuthSessionJson | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAuthSession()
+      .then(({ session: current }) => {
+        if (!cancelled) setSession(current);
+      })
+      .catch(err => console.error('Error loading the sign-in session:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const adapter = useMemo(
+    () =>
+      createAuthenticationAdapter({
+        getNonce: async () => (await fetchAuthNonce()).nonce,
+        createMessage: ({ nonce, address: signer, chainId }) =>
+          createSiweMessage({
+            domain: window.location.host,
+            address: signer,
+            statement: 'Sign in to Helping Hand.',
+            uri: window.location.origin,
+            version: '1',
+            chainId,
+            nonce,
+          }),
+        verify: async ({ message, signature }) => {
+          try {
+            const { session: signedIn } = await signIn({ message, signature });
+            setSession(signedIn);
+            return !!signedIn;
+          } catch (err) {
+            console.error('Sign-in failed:', err);
+            return false;
+          }
+        },
+        signOut: async () => {
+          setSession(null);
+          await signOut().catch(err => console.error('Error signing out:', err));
+        },
+      }),
+    []
+  );
+
+  // A session for another wallet does not count; switching accounts asks for a new signature
+  const current = session && address && sameAddress(session.address, address) ? session : null;
+  // Wagmi restores the last connection after load; until then there is no address to compare
+  const settling = loading || accountStatus === 'connecting' || accountStatus === 'reconnecting';
+  const status: AuthenticationStatus = current ? 'authenticated' : settling ? 'loading' : 'unauthenticated';
+
+  return (
+    <AuthContext.Provider value={{ status, session: current }}>
+      <RainbowKitAuthenticationProvider adapter={adapter} status={status}>
+        {children}
+      </RainbowKitAuthenticationProvider>
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
+
+// For pages behind requireSignIn: back to /signin once the wallet signs out or switches
+export function useRequireSignIn() {
+  const router = useRouter();
+  const { status } = useAuth();
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.replace(`/signin?next=${encodeURIComponent(router.asPath)}`);
+    }
+  }, [status, router]);
+}
@@ -1,30 +1,114 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
+import { useAccount } from 'wagmi';
+import type { VerificationSessionJson, VerificationStatusResponse } from '@/lib/fundraiserApi';
+import { endVerificationSession, fetchVerificationSession } from '@/lib/fundraiserApi';
+import { EligibilityOutcome, UNVERIFIED } from '@/lib/eligibility';
+import { isSessionFor } from '@/lib/verification';
 
 interface VerificationContextType {
+  // The connected wallet holds an unexpired session the server has confirmed
   isVerified: boolean;
-  setVerified: (value: boolean) => void;
+  session: VerificationSessionJson | null;
+  // Whether the connected wallet may ask for help, per the server's eligibility rules
+  eligibility: EligibilityOutcome;
+  // True until the server has answered for the current account
+  isChecking: boolean;
+  // Called with the session and eligibility /api/verify returned
+  setVerification: (verification: VerificationStatusResponse) => void;
+  clearVerification: () => Promise<void>;
 }
 
 const VerificationContext = createContext<VerificationContextType | undefined>(undefined);
 
+// Cached only so the UI does not flicker on load; the server cookie is what counts
+const STORAGE_KEY = 'verificationSession';
+
+const UNVERIFIED_STATUS: VerificationStatusResponse = { session: null, eligibility: UNVERIFIED };
+
+// Entries cached before eligibility existed held the bare session and are ignored
+const readCached = (): VerificationStatusResponse | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const cached = stored ? (JSON.parse(stored) as VerificationStatusResponse) : null;
+    return cached?.session && cached.eligibility ? cached : null;
+  } catch {
+    return null;
+  }
+};
+
+const cache = (verification: VerificationStatusResponse) => {
+  if (verification.session) localStorage.setItem(STORAGE_KEY, JSON.stringify(verification));
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+// A session for another wallet does not carry over
+const forAddress = (verification: VerificationStatusResponse | null, address: string) =>
+  verification && isSessionFor(verification.session, address) ? verification : UNVERIFIED_STATUS;
+
 export function VerificationProvider({ children }: { children: ReactNode }) {
-  const [isVerified, setIsVerified] = useState<boolean>(false);
+  const { address } = useAccount();
+  const [verification, setVerificationState] = useState<VerificationStatusResponse>(UNVERIFIED_STATUS);
+  const [isChecking, setIsChecking] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  const setVerification = useCallback((next: VerificationStatusResponse) => {
+    setVerificationState(next);
+    cache(next);
+  }, []);
 
-  // Load verification status from localStorage on mount
+  // Re-validate with the server on load and whenever the account changes
   useEffect(() => {
-    const storedVerification = localStorage.getItem('isVerified');
-    if (storedVerification) {
-      setIsVerified(JSON.parse(storedVerification));
+    // The boolean from before sessions existed
+    localStorage.removeItem('isVerified');
+
+    if (!address) {
+      setVerificationState(UNVERIFIED_STATUS);
+      setIsChecking(false);
+      return;
     }
-  }, []);
 
-  const setVerified = (value: boolean) => {
-    setIsVerified(value);
-    localStorage.setItem('isVerified', JSON.stringify(value));
-  };
+    setVerificationState(forAddress(readCached(), address));
+    setIsChecking(true);
+
+    let cancelled = false;
+    fetchVerificationSession()
+      .then(current => {
+        if (!cancelled) setVerification(forAddress(current, address));
+      })
+      .catch(err => {
+        console.error('Error checking the verification session:', err);
+        if (!cancelled) setVerificationState(UNVERIFIED_STATUS);
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, setVerification]);
+
+  const { session } = verification;
+
+  // Re-render when the session expires
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(0, session.expiresAt - Date.now()) + 1000);
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const clearVerification = useCallback(async () => {
+    setVerification(UNVERIFIED_STATUS);
+    await endVerificationSession().catch(err => console.error('Error ending the verification session:', err));
+  }, [setVerification]);
+
+  const isVerified = isSessionFor(session, address, now);
+  const eligibility = isVerified ? verification.eligibility : UNVERIFIED;
 
   return (
-    <VerificationContext.Provider value={{ isVerified, setVerified }}>
+    <VerificationContext.Provider
+      value={{ isVerified, session, eligibility, isChecking, setVerification, clearVerification }}
+    >
       {children}
     </VerificationContext.Provider>
   );
@@ -36,4 +120,4 @@ export function useVerification() {
     throw new Error('useVerification must be used within a VerificationProvider');
   }
   return context;
-} 
\ No newline at end of file
+}
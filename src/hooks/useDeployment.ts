@@ -0,0 +1,12 @@
+import { useAccount } from 'wagmi';
+import { DEFAULT_CHAIN_ID, defaultDeployment, getDeployment } from '@/lib/deployments';
+
+// The deployment for the connected wallet's chain, or the default one while no wallet is
+// connected. `deployment` is null (and isSupported false) on a chain we are not deployed on;
+// pages keep showing `readDeployment` (the default) then, and writes ask for a switch.
+export const useDeployment = () => {
+  const { chainId: connectedChainId, isConnected } = useAccount();
+  const chainId = isConnected && connectedChainId !== undefined ? connectedChainId : DEFAULT_CHAIN_ID;
+  const deployment = getDeployment(chainId);
+  return { chainId, deployment, readDeployment: deployment ?? defaultDeployment, isSupported: deployment !== null };
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DonationRequest, DonationState, runDonation } from '@/lib/donationPipeline';
+import { useEnsureChain } from './useEnsureChain';
+import { useWalletSigner } from './useWalletSigner';
+
+interface UseDonationPipelineOptions {
+  // Called once the donation is confirmed on chain
+  onConfirmed?: (state: DonationState) => void;
+}
+
+export const useDonationPipeline = ({ onConfirmed }: UseDonationPipelineOptions = {}) => {
+  const [state, setState] = useState<DonationState | null>(null);
+  const controller = useRef<AbortController | null>(null);
+  const onConfirmedRef = useRef(onConfirmed);
+  onConfirmedRef.current = onConfirmed;
+  // Each request names its fundraiser's chain; the wallet is switched there first
+  const ensureChain = useEnsureChain();
+  const getSigner = useWalletSigner();
+
+  const run = useCallback(async (request: DonationRequest, resume?: DonationState) => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+
+    const final = await runDonation(request, {
+      getSigner,
+      signal: current.signal,
+      resume,
+      ensureChain,
+      onUpdate: next => {
+        // Ignore a superseded run that is still winding down
+        if (controller.current === current) setState(next);
+      },
+    });
+    if (final.step === 'done' && controller.current === current) onConfirmedRef.current?.(final);
+    return final;
+  }, [getSigner, ensureChain]);
+
+  const start = useCallback((request: DonationRequest) => run(request), [run]);
+
+  // Picks up from where the last attempt stopped
+  const retry = useCallback(() => {
+    if (!state) return;
+    return run(state, state);
+  }, [run, state]);
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    controller.current?.abort();
+    controller.current = null;
+    setState(null);
+  }, []);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  return { state, start, retry, cancel, reset };
+};
@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { useConfig } from 'wagmi';
+import { getAccount, switchChain } from 'wagmi/actions';
+import { requireDeployment } from '@/lib/deployments';
+
+// Returns a function that moves the connected wallet to chainId before a write and resolves
+// that chain's deployment. The wallet is asked to switch when it is elsewhere; wagmi adds
+// the chain to the wallet when it does not know it yet.
+export const useEnsureChain = () => {
+  const config = useConfig();
+  return useCallback(
+    async (chainId: number) => {
+      const deployment = requireDeployment(chainId);
+      const account = getAccount(config);
+      // Without a wallet the signer lookup reports the problem
+      if (!account.isConnected || account.chainId === chainId) return deployment;
+      try {
+        await switchChain(config, { chainId });
+      } catch (err) {
+        console.error(`Error switching to ${deployment.name}:`, err);
+        throw new Error(`Please switch your wallet to the ${deployment.name} network.`);
+      }
+      return deployment;
+    },
+    [config]
+  );
+};
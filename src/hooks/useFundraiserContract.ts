@@ -0,0 +1,192 @@
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { parseEventLogs, type Address } from 'viem';
+import { useConfig, useReadContract } from 'wagmi';
+import { waitForTransactionReceipt, writeContract } from 'wagmi/actions';
+import { fundraiserFactoryAbi } from '@/lib/fundraiserAbi';
+import type { ContractStatus } from '@/lib/fundraiserClient';
+import { decodeFundraiser, decodeFundraiserBatch } from '@/lib/fundraiser';
+import { Deployment, requireDeployment } from '@/lib/deployments';
+import { decodeContractError } from '@/lib/contractErrors';
+import type { DonationState } from '@/lib/donationPipeline';
+import { toContractUsdc } from '@/lib/usdc';
+import { useDeployment } from './useDeployment';
+import { useDonationPipeline } from './useDonationPipeline';
+
+// ============================
+//   FundraiserFactory hooks
+// ============================
+//
+// Typed reads and writes through wagmi, so they work with every connector RainbowKit
+// offers and share React Query's cache. Reads follow the connected chain's deployment
+// (the default one while disconnected or on an unsupported chain); writes need a
+// supported chain.
+
+const contractFor = (deployment: Deployment) => ({
+  abi: fundraiserFactoryAbi,
+  address: deployment.fundraiser as Address,
+  chainId: deployment.chainId,
+});
+
+// A revert (e.g. a fundraiser that was never created) will not change on retry
+const retryUnlessReverted = (failureCount: number, err: unknown) =>
+  failureCount < 3 && decodeContractError(err).kind !== 'revert';
+
+// Every cached read of the FundraiserFactory at `address`, after a write changed it
+const invalidateFundraiserReads = (queryClient: QueryClient, address: string) =>
+  queryClient.invalidateQueries({
+    predicate: ({ queryKey }) =>
+      queryKey[0] === 'readContract' &&
+      (queryKey[1] as { address?: string } | undefined)?.address?.toLowerCase() === address.toLowerCase(),
+  });
+
+// getFundraiser(id), decoded; disabled while id is null
+export const useFundraiser = (id: number | null) => {
+  const { readDeployment } = useDeployment();
+  return useReadContract({
+    ...contractFor(readDeployment),
+    functionName: 'getFundraiser',
+    args: [BigInt(id ?? 0)],
+    query: {
+      enabled: id !== null,
+      retry: retryUnlessReverted,
+      select: ([owner, startDate, endDate, subject, details, goal, amountRaised, isCompleted, goalReached]) =>
+        decodeFundraiser(
+          id ?? 0,
+          { owner, startDate, endDate, subject, details, goal, amountRaised, isCompleted, goalReached },
+          readDeployment.chainId
+        ),
+    },
+  });
+};
+
+// batchGetFundraisers(fromId, count), decoded; ids that were never created are left out
+export const useFundraiserList = (fromId: number, count: number) => {
+  const { readDeployment } = useDeployment();
+  return useReadContract({
+    ...contractFor(readDeployment),
+    functionName: 'batchGetFundraisers',
+    args: [BigInt(fromId), BigInt(count)],
+    query: {
+      enabled: count > 0,
+      retry: retryUnlessReverted,
+      select: batch =>
+        decodeFundraiserBatch(
+          fromId,
+          {
+            owners: Array.from(batch.owners),
+            startDates: Array.from(batch.startDates),
+            endDates: Array.from(batch.endDates),
+            subjectHashes: Array.from(batch.subjectHashes),
+            detailsHashes: Array.from(batch.detailsHashes),
+            fundraiserGoals: Array.from(batch.fundraiserGoals),
+            amountsRaised: Array.from(batch.amountsRaised),
+            areCompleted: Array.from(batch.areCompleted),
+            goalsReached: Array.from(batch.goalsReached),
+          },
+          readDeployment.chainId
+        ),
+    },
+  });
+};
+
+// getContractStatus(), with amounts as the contract reports them (see admin.toAdminStatus)
+export const useContractStatus = () => {
+  const { readDeployment } = useDeployment();
+  return useReadContract({
+    ...contractFor(readDeployment),
+    functionName: 'getContractStatus',
+    query: {
+      select: ([
+        isPaused,
+        isAaveEnabled,
+        isEmergencyWithdrawalEnabled,
+        reservePercentage,
+        totalDeposits,
+        contractUsdcBalance,
+        availableYield,
+        isAccountingSafe,
+      ]): ContractStatus => ({
+        isPaused,
+        isAaveEnabled,
+        isEmergencyWithdrawalEnabled,
+        reservePercentage,
+        totalDeposits,
+        contractUsdcBalance,
+        availableYield,
+        isAccountingSafe,
+      }),
+    },
+  });
+};
+
+// owner(), for pages that only offer owner actions to the owner
+export const useContractOwner = () => {
+  const { readDeployment } = useDeployment();
+  return useReadContract({ ...contractFor(readDeployment), functionName: 'owner' });
+};
+
+export interface NewFundraiser {
+  // Unix seconds
+  endDate: number;
+  subject: string;
+  details: string;
+  // USDC base units; the contract takes whole USDC, so fractions are rejected
+  goal: bigint;
+}
+
+export interface CreatedFundraiser {
+  hash: string;
+  // From the FundraiserCreated event; null if the receipt did not include it
+  fundraiserId: number | null;
+}
+
+// addFundraiser on the connected chain's deployment; resolves once the transaction is mined
+export const useCreateFundraiser = () => {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const { chainId } = useDeployment();
+
+  const mutation = useMutation({
+    mutationFn: async ({ endDate, subject, details, goal }: NewFundraiser): Promise<CreatedFundraiser> => {
+      const deployment = requireDeployment(chainId);
+      const hash = await writeContract(config, {
+        ...contractFor(deployment),
+        functionName: 'addFundraiser',
+        args: [BigInt(endDate), subject, details, toContractUsdc(goal)],
+      });
+      const receipt = await waitForTransactionReceipt(config, { hash, chainId: deployment.chainId });
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} was reverted.`);
+      }
+      const [created] = parseEventLogs({ abi: fundraiserFactoryAbi, eventName: 'FundraiserCreated', logs: receipt.logs });
+      await invalidateFundraiserReads(queryClient, deployment.fundraiser);
+      return { hash, fundraiserId: created ? Number(created.args.id) : null };
+    },
+  });
+
+  return {
+    createFundraiser: mutation.mutateAsync,
+    isPending: mutation.isPending,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+};
+
+interface UseDonateOptions {
+  // Called once the donation is confirmed on chain
+  onConfirmed?: (state: DonationState) => void;
+}
+
+// The donation pipeline (balance, allowance, approval, recordDonation) on the fundraiser's
+// own chain, signing through the connected connector; the cached reads of that deployment
+// refresh once it confirms
+export const useDonate = ({ onConfirmed }: UseDonateOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  return useDonationPipeline({
+    onConfirmed: state => {
+      invalidateFundraiserReads(queryClient, requireDeployment(state.chainId).fundraiser);
+      onConfirmed?.(state);
+    },
+  });
+};
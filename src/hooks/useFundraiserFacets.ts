@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchFundraiserFacets } from '@/lib/fundraiserApi';
+
+// Category counts and popular tags; chips render without counts until they load. Under
+// ['fundraisers'] so it refreshes whenever the listings are invalidated.
+export const useFundraiserFacets = () => {
+  const { data } = useQuery({
+    queryKey: ['fundraisers', 'facets'],
+    queryFn: fetchFundraiserFacets,
+    staleTime: 60_000,
+  });
+  return data ?? null;
+};
@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query';
+import { FundraiserListQuery, fetchFundraisers } from '@/lib/fundraiserApi';
+
+export type FundraiserListingQuery = Omit<FundraiserListQuery, 'page' | 'cursor'>;
+
+// /api/fundraisers one page at a time, following nextCursor. Loaded pages stay in React
+// Query's cache, so returning to a listing does not walk them again.
+export const useFundraiserListing = (query: FundraiserListingQuery = {}, { enabled = true } = {}) => {
+  const listing = useInfiniteQuery({
+    queryKey: ['fundraisers', query],
+    enabled,
+    queryFn: ({ pageParam }) => fetchFundraisers({ ...query, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.nextCursor ?? undefined,
+    // Matches the s-maxage /api/fundraisers responses are cached with
+    staleTime: 15_000,
+    // Keep showing the previous results while a changed search loads
+    placeholderData: keepPreviousData,
+  });
+
+  const fundraisers = useMemo(() => listing.data?.pages.flatMap(page => page.items) ?? [], [listing.data]);
+
+  return {
+    fundraisers,
+    // Matching fundraisers, loaded or not
+    total: listing.data?.pages[0].total ?? null,
+    isPending: listing.isPending,
+    error: listing.error,
+    hasNextPage: listing.hasNextPage,
+    isFetchingNextPage: listing.isFetchingNextPage,
+    fetchNextPage: listing.fetchNextPage,
+    refetch: listing.refetch,
+  };
+};
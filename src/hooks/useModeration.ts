@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Fundraiser } from '@/lib/fundraiser';
+import { ModerationEntryJson, fetchModerationList } from '@/lib/fundraiserApi';
+import { moderationVerdict } from '@/lib/moderation';
+
+const NO_ENTRIES: ModerationEntryJson[] = [];
+
+// The moderation denylist, for pages that read fundraisers straight from the chain or need
+// to show a flag. Listings from /api/fundraisers already leave hidden fundraisers out.
+// Until the list loads (or if it cannot be loaded) nothing counts as moderated.
+export const useModeration = () => {
+  const { data } = useQuery({
+    queryKey: ['moderation'],
+    queryFn: fetchModerationList,
+    staleTime: 60_000,
+  });
+  const entries = data?.entries ?? NO_ENTRIES;
+
+  const verdict = useCallback(
+    (fundraiser: Pick<Fundraiser, 'id' | 'owner'>) => moderationVerdict(entries, fundraiser),
+    [entries]
+  );
+
+  return { entries, verdict };
+};
@@ -1,15 +1,16 @@
 import { useRouter } from 'next/router';
+import { useVerification } from '@/contexts/VerificationContext';
+import { askForHelpPath } from '@/lib/eligibility';
 
-export const useNavigation = (isVerified: boolean) => {
+// "Ask for Help" goes to /verify without a verification session, to /eligibility when the
+// verified claims do not meet the rules, and to /helpme otherwise
+export const useNavigation = () => {
   const router = useRouter();
+  const { eligibility } = useVerification();
 
   const handleLendAHand = () => {
-    if (!isVerified) {
-      router.push('/verify');
-      return;
-    }
-    router.push('/helprequest');
+    router.push(askForHelpPath(eligibility.status));
   };
 
-  return { handleLendAHand };
-}; 
\ No newline at end of file
+  return { handleLendAHand, eligibility };
+};
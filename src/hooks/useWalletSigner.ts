@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { BrowserProvider, JsonRpcSigner } from 'ethers';
+import type { Account, Chain, Client, Transport } from 'viem';
+import { useConfig } from 'wagmi';
+import { getAccount, getConnectorClient } from 'wagmi/actions';
+
+// The ethers code (donation pipeline, admin actions, reclaims) signs through whichever
+// connector RainbowKit connected, instead of assuming an injected window.ethereum
+const clientToSigner = ({ account, chain, transport }: Client<Transport, Chain, Account>) => {
+  const provider = new BrowserProvider(transport, {
+    chainId: chain.id,
+    name: chain.name,
+    ensAddress: chain.contracts?.ensRegistry?.address,
+  });
+  return new JsonRpcSigner(provider, account.address);
+};
+
+// Returns a function resolving the connected wallet as an ethers signer
+export const useWalletSigner = () => {
+  const config = useConfig();
+  return useCallback(async () => {
+    if (!getAccount(config).isConnected) {
+      throw new Error('Connect a wallet to continue.');
+    }
+    return clientToSigner(await getConnectorClient(config));
+  }, [config]);
+};
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server boots
+export async function register() {
+  // The yield sampler needs fs and a timer, so only the Node.js runtime starts it
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getYieldHistory } = await import('./lib/yieldHistory');
+    getYieldHistory();
+  }
+}
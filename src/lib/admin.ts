@@ -0,0 +1,99 @@
+import type { ContractTransactionResponse, Signer } from 'ethers';
+import { createFundraiserWriter, type ContractStatus, type FundraiserWriter } from './fundraiserClient';
+import { describeContent } from './content';
+import type { AuditEntryJson, AuditedEventName } from './fundraiserApi';
+import { formatUsdc, fromContractUsdc } from './usdc';
+import { sameAddress } from './verification';
+
+// An owner-only transaction, confirmed in ConfirmActionDialog before it is sent
+export interface AdminAction {
+  title: string;
+  // What will happen, shown in the confirmation dialog and the session log
+  summary: string;
+  // Irreversible; the owner has to type CONFIRM first
+  danger?: boolean;
+  send: (writer: FundraiserWriter) => Promise<ContractTransactionResponse>;
+}
+
+// Gates the owner-only views (admin console, yield distribution): the connected wallet has
+// to be the contract owner and the one that signed in
+export const isSignedInOwner = (
+  owner: string | null | undefined,
+  connected: string | undefined,
+  signedIn: string | null | undefined
+) => !!owner && !!connected && !!signedIn && sameAddress(connected, owner) && sameAddress(signedIn, connected);
+
+// Signs with the connected wallet against the FundraiserFactory at contractAddress and waits
+// for the receipt; onSent gets the hash as soon as it exists
+export const sendAdminAction = async (
+  action: AdminAction,
+  signer: Signer,
+  contractAddress: string,
+  onSent?: (hash: string) => void
+) => {
+  const tx = await action.send(createFundraiserWriter(signer, contractAddress));
+  onSent?.(tx.hash);
+  await tx.wait();
+  return tx.hash;
+};
+
+// getContractStatus with the USDC figures converted to base units
+export interface AdminStatus {
+  isPaused: boolean;
+  isAaveEnabled: boolean;
+  isEmergencyWithdrawalEnabled: boolean;
+  reservePercentage: number;
+  totalDeposits: bigint;
+  contractUsdcBalance: bigint;
+  availableYield: bigint;
+  isAccountingSafe: boolean;
+}
+
+export const toAdminStatus = (status: ContractStatus): AdminStatus => ({
+  isPaused: status.isPaused,
+  isAaveEnabled: status.isAaveEnabled,
+  isEmergencyWithdrawalEnabled: status.isEmergencyWithdrawalEnabled,
+  reservePercentage: Number(status.reservePercentage),
+  totalDeposits: fromContractUsdc(status.totalDeposits),
+  contractUsdcBalance: fromContractUsdc(status.contractUsdcBalance),
+  availableYield: fromContractUsdc(status.availableYield),
+  isAccountingSafe: status.isAccountingSafe,
+});
+
+export const AUDIT_EVENT_LABELS: Record<AuditedEventName, string> = {
+  Paused: 'Paused',
+  Unpaused: 'Unpaused',
+  AaveEnabledStatusUpdated: 'Aave integration',
+  EmergencyReservePercentageUpdated: 'Reserve percentage',
+  EmergencyWithdrawalsStatusChanged: 'Emergency user withdrawals',
+  EmergencyWithdrawal: 'Emergency withdrawal',
+  EmergencyAaveWithdrawal: 'Emergency Aave withdrawal',
+  OwnershipTransferred: 'Ownership transferred',
+  YieldDistributed: 'Yield distributed',
+  ContentAdded: 'Content registered',
+};
+
+const amount = (value: string | number | boolean) => formatUsdc(BigInt(String(value)));
+
+// One line describing what the admin action did
+export const describeAuditEntry = ({ name, fields }: AuditEntryJson) => {
+  switch (name) {
+    case 'Paused':
+    case 'Unpaused':
+      return `by ${fields.account}`;
+    case 'AaveEnabledStatusUpdated':
+    case 'EmergencyWithdrawalsStatusChanged':
+      return fields.enabled ? 'Enabled' : 'Disabled';
+    case 'EmergencyReservePercentageUpdated':
+      return `Set to ${fields.percentage}%`;
+    case 'EmergencyWithdrawal':
+    case 'YieldDistributed':
+      return `${amount(fields.amount)} to ${fields.recipient}`;
+    case 'EmergencyAaveWithdrawal':
+      return `${amount(fields.amount)} recovered from Aave`;
+    case 'OwnershipTransferred':
+      return `${fields.previousOwner} → ${fields.newOwner}`;
+    case 'ContentAdded':
+      return describeContent(String(fields.description));
+  }
+};
@@ -0,0 +1,86 @@
+// Server-only: Sign-In With Ethereum (EIP-4361). The browser asks for a nonce, the wallet
+// signs a SIWE message containing it, and a valid signature turns into an HttpOnly session
+// cookie that API routes and getServerSideProps can trust.
+import type { IncomingMessage } from 'http';
+import type { GetServerSideProps } from 'next';
+import { getAddress, isAddress, verifyMessage } from 'ethers';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import type { AuthSessionJson } from './fundraiserApi';
+import { clearedCookie, readToken, signToken, tokenCookie } from './signedToken';
+
+export const AUTH_COOKIE = 'hh_session';
+const NONCE_COOKIE = 'hh_siwe_nonce';
+
+export const AUTH_TTL_MS = 7 * 24 * 60 * 60_000;
+// How long the wallet has to sign after asking for a nonce
+const NONCE_TTL_MS = 10 * 60_000;
+
+type Cookies = Partial<Record<string, string>>;
+
+export const issueNonce = (now = Date.now()) => {
+  const nonce = generateSiweNonce();
+  const expiresAt = now + NONCE_TTL_MS;
+  return { nonce, cookie: tokenCookie(NONCE_COOKIE, signToken('siwe-nonce', { nonce, expiresAt }), expiresAt) };
+};
+
+// The domain the SIWE message has to name; SIWE_DOMAIN overrides the Host header behind proxies
+export const expectedDomain = (req: IncomingMessage) => process.env.SIWE_DOMAIN || req.headers.host || '';
+
+// Checks the message against the nonce cookie and the signature against the message's
+// address. Throws with a message fit for the user when anything is off.
+export const signInWithEthereum = (
+  { message, signature }: { message: string; signature: string },
+  { cookies, domain }: { cookies: Cookies; domain: string },
+  now = Date.now()
+): AuthSessionJson => {
+  const issued = readToken<{ nonce: string; expiresAt: number }>('siwe-nonce', cookies[NONCE_COOKIE], now);
+  if (!issued || typeof issued.nonce !== 'string') throw new Error('The sign-in request expired. Please try again.');
+
+  const fields = parseSiweMessage(message);
+  if (!fields.address || !fields.chainId) throw new Error('The sign-in message is malformed.');
+  if (!validateSiweMessage({ message: fields, domain, nonce: issued.nonce, time: new Date(now) })) {
+    throw new Error('The sign-in message is not valid for this site or has expired.');
+  }
+
+  // Plain ECDSA recovery; contract wallets (EIP-1271) are not supported
+  let signer: string;
+  try {
+    signer = verifyMessage(message, signature);
+  } catch {
+    throw new Error('The signature could not be read.');
+  }
+  if (getAddress(signer) !== getAddress(fields.address)) {
+    throw new Error('The signature does not match the wallet in the message.');
+  }
+
+  return { address: getAddress(fields.address), chainId: fields.chainId, issuedAt: now, expiresAt: now + AUTH_TTL_MS };
+};
+
+export const authCookies = (session: AuthSessionJson) => [
+  tokenCookie(AUTH_COOKIE, signToken('siwe', session), session.expiresAt),
+  // Each nonce signs in once
+  clearedCookie(NONCE_COOKIE),
+];
+
+export const clearedAuthCookie = () => clearedCookie(AUTH_COOKIE);
+
+// The signed-in wallet for a request (API route or getServerSideProps), or null
+export const getAuthSession = (req: { cookies: Cookies }, now = Date.now()) => {
+  const session = readToken<AuthSessionJson>('siwe', req.cookies[AUTH_COOKIE], now);
+  if (!session || !isAddress(session.address)) return null;
+  if (typeof session.chainId !== 'number' || typeof session.issuedAt !== 'number') return null;
+  return session;
+};
+
+export interface SignedInProps {
+  session: AuthSessionJson;
+}
+
+// getServerSideProps for pages that need a signed-in wallet; everyone else is sent to /signin
+export const requireSignIn: GetServerSideProps<SignedInProps> = async ({ req, resolvedUrl }) => {
+  const session = getAuthSession(req);
+  if (!session) {
+    return { redirect: { destination: `/signin?next=${encodeURIComponent(resolvedUrl)}`, permanent: false } };
+  }
+  return { props: { session } };
+};
@@ -0,0 +1,59 @@
+// ============================
+//   Categories and tags
+// ============================
+//
+// Creators file a fundraiser under one category and a few free-form tags. Both travel in
+// the content JSON (see lib/content), so they are covered by the on-chain detailsHash.
+
+export type FundraiserCategory =
+  | 'medical'
+  | 'education'
+  | 'disaster-relief'
+  | 'community'
+  | 'housing'
+  | 'food'
+  | 'small-business'
+  | 'other';
+
+export interface CategoryInfo {
+  label: string;
+  // One line for the category page and the create form
+  description: string;
+}
+
+// In the order chips and menus show them; the keys are also the category page slugs
+export const FUNDRAISER_CATEGORIES: Record<FundraiserCategory, CategoryInfo> = {
+  medical: { label: 'Medical', description: 'Treatment, surgery, medicine and care.' },
+  education: { label: 'Education', description: 'School fees, books, supplies and training.' },
+  'disaster-relief': { label: 'Disaster relief', description: 'Recovering from floods, fires, storms and earthquakes.' },
+  community: { label: 'Community', description: 'Local projects, groups and shared spaces.' },
+  housing: { label: 'Housing', description: 'Rent, repairs and a safe place to live.' },
+  food: { label: 'Food', description: 'Groceries and meals for families in need.' },
+  'small-business': { label: 'Small business', description: 'Tools, stock and a fresh start for a livelihood.' },
+  other: { label: 'Other', description: 'Everything that does not fit the other categories.' },
+};
+
+export const CATEGORY_KEYS = Object.keys(FUNDRAISER_CATEGORIES) as FundraiserCategory[];
+
+export const isFundraiserCategory = (value: unknown): value is FundraiserCategory =>
+  typeof value === 'string' && CATEGORY_KEYS.includes(value as FundraiserCategory);
+
+export const categoryLabel = (category: FundraiserCategory) => FUNDRAISER_CATEGORIES[category].label;
+
+// ASCII punctuation except the hyphen, and whitespace; letters of any script are kept
+const TAG_SEPARATORS = /[\s!-,.\/:-@\[-`{-~]+/g;
+
+// "#Clean Water!" -> "clean-water"; empty when nothing is left
+export const normalizeTag = (tag: string) =>
+  tag
+    .toLowerCase()
+    .replace(TAG_SEPARATORS, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+// Comma-separated input from the create form, normalized and without duplicates
+export const parseTags = (input: string) =>
+  input
+    .split(',')
+    .map(normalizeTag)
+    .filter((tag, i, tags) => tag && tags.indexOf(tag) === i);
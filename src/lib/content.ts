@@ -0,0 +1,220 @@
+import { id } from 'ethers';
+import { FundraiserCategory, isFundraiserCategory, normalizeTag } from './categories';
+
+// ============================
+//   Fundraiser content
+// ============================
+//
+// The contract only stores strings keyed by keccak256(string) (FundraiserLogic.createHash).
+// Rich content travels as canonical JSON in the `details` string, so the on-chain
+// detailsHash commits to the title, story, images and links, and anyone can check that
+// the text served back actually matches it.
+//
+// The category, tags and location came later. They are left out of the JSON when unset,
+// so content written before them still canonicalizes, and hashes, the same.
+
+export const CONTENT_VERSION = 1;
+
+export const CONTENT_LIMITS = {
+  title: 120,
+  story: 5000,
+  images: 4,
+  links: 5,
+  label: 60,
+  url: 500,
+  tags: 5,
+  tag: 30,
+  location: 100,
+};
+
+export interface ContentLink {
+  label: string;
+  url: string;
+}
+
+export interface FundraiserContent {
+  version: typeof CONTENT_VERSION;
+  title: string;
+  story: string;
+  images: string[];
+  links: ContentLink[];
+  category: FundraiserCategory | null;
+  tags: string[];
+  // Free text, e.g. "Nairobi, Kenya"
+  location: string | null;
+}
+
+export interface ResolvedContent extends FundraiserContent {
+  // Plain-text details from before the content format, shown as the story
+  legacy: boolean;
+  // false when the text does not hash to the on-chain hash; null when there was no hash to check
+  verified: boolean | null;
+}
+
+// Same hash the contract uses for its content registry
+export const contentHash = (text: string) => id(text);
+
+// https URLs, or paths served by this app (e.g. /api/media uploads)
+const isSafeUrl = (value: string) => {
+  if (value.startsWith('/') && !value.startsWith('//')) return true;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const checkUrl = (value: string, what: string) => {
+  if (value.length > CONTENT_LIMITS.url) throw new Error(`${what} is longer than ${CONTENT_LIMITS.url} characters.`);
+  if (!isSafeUrl(value)) throw new Error(`${what} must be an https:// link.`);
+  return value;
+};
+
+const normalizeTags = (tags: string[]) =>
+  tags.map(normalizeTag).filter((tag, i, all) => tag && all.indexOf(tag) === i);
+
+// Trims and validates; throws with a message fit for the form
+export const normalizeContent = (
+  content: Pick<FundraiserContent, 'title' | 'story'> &
+    Partial<Pick<FundraiserContent, 'images' | 'links' | 'category' | 'tags' | 'location'>>
+): FundraiserContent => {
+  const title = content.title.trim();
+  const story = content.story.trim();
+  const images = (content.images || []).map(image => image.trim()).filter(Boolean);
+  const links = (content.links || [])
+    .map(link => ({ label: link.label.trim(), url: link.url.trim() }))
+    .filter(link => link.url);
+  const category = content.category ?? null;
+  const tags = normalizeTags(content.tags || []);
+  const location = content.location?.trim() || null;
+
+  if (!title) throw new Error('The title is required.');
+  if (title.length > CONTENT_LIMITS.title) throw new Error(`The title is longer than ${CONTENT_LIMITS.title} characters.`);
+  if (!story) throw new Error('The story is required.');
+  if (story.length > CONTENT_LIMITS.story) throw new Error(`The story is longer than ${CONTENT_LIMITS.story} characters.`);
+  if (images.length > CONTENT_LIMITS.images) throw new Error(`At most ${CONTENT_LIMITS.images} images are allowed.`);
+  if (links.length > CONTENT_LIMITS.links) throw new Error(`At most ${CONTENT_LIMITS.links} links are allowed.`);
+
+  images.forEach((image, i) => checkUrl(image, `Image ${i + 1}`));
+  links.forEach((link, i) => {
+    checkUrl(link.url, `Link ${i + 1}`);
+    if (link.label.length > CONTENT_LIMITS.label) {
+      throw new Error(`The label of link ${i + 1} is longer than ${CONTENT_LIMITS.label} characters.`);
+    }
+  });
+  if (category !== null && !isFundraiserCategory(category)) throw new Error(`"${category}" is not a category.`);
+  if (tags.length > CONTENT_LIMITS.tags) throw new Error(`At most ${CONTENT_LIMITS.tags} tags are allowed.`);
+  const longTag = tags.find(tag => tag.length > CONTENT_LIMITS.tag);
+  if (longTag) throw new Error(`The tag "${longTag}" is longer than ${CONTENT_LIMITS.tag} characters.`);
+  if (location && location.length > CONTENT_LIMITS.location) {
+    throw new Error(`The location is longer than ${CONTENT_LIMITS.location} characters.`);
+  }
+
+  return {
+    version: CONTENT_VERSION,
+    title,
+    story,
+    images,
+    links: links.map(link => ({ label: link.label || new URL(link.url, 'https://localhost').hostname, url: link.url })),
+    category,
+    tags,
+    location,
+  };
+};
+
+// Fixed key order and no whitespace, so the same content always hashes the same
+export const canonicalizeContent = (content: FundraiserContent) =>
+  JSON.stringify({
+    version: content.version,
+    title: content.title,
+    story: content.story,
+    images: content.images,
+    links: content.links.map(link => ({ label: link.label, url: link.url })),
+    ...(content.category !== null && { category: content.category }),
+    ...(content.tags.length > 0 && { tags: content.tags }),
+    ...(content.location !== null && { location: content.location }),
+  });
+
+// Canonical text ready for addFundraiser / registerContent, with its registry hash
+export const encodeContent = (content: FundraiserContent) => {
+  const text = canonicalizeContent(content);
+  return { text, hash: contentHash(text) };
+};
+
+// A registered link entry with a safe URL; the label is checked separately
+const isLinkLike = (value: unknown): value is { url: string; label?: unknown } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { url?: unknown }).url === 'string' &&
+  isSafeUrl((value as { url: string }).url);
+
+// The content in a registry string, or null if it is not (valid) content JSON
+export const parseContent = (text: string): FundraiserContent | null => {
+  if (!text.startsWith('{')) return null;
+  try {
+    const json = JSON.parse(text);
+    if (json?.version !== CONTENT_VERSION || typeof json.title !== 'string' || typeof json.story !== 'string') {
+      return null;
+    }
+    const images: unknown[] = Array.isArray(json.images) ? json.images : [];
+    const links: unknown[] = Array.isArray(json.links) ? json.links : [];
+    const tags: unknown[] = Array.isArray(json.tags) ? json.tags : [];
+    // Whatever was registered, never hand an unsafe URL to the page
+    return {
+      version: CONTENT_VERSION,
+      title: json.title,
+      story: json.story,
+      images: images.filter((image): image is string => typeof image === 'string' && isSafeUrl(image)),
+      links: links
+        .filter(isLinkLike)
+        .map(link => ({ label: typeof link.label === 'string' ? link.label : link.url, url: link.url })),
+      // Unknown categories and malformed tags are dropped rather than failing the whole content
+      category: isFundraiserCategory(json.category) ? json.category : null,
+      tags: normalizeTags(tags.filter((tag): tag is string => typeof tag === 'string')),
+      location: typeof json.location === 'string' && json.location.trim() ? json.location.trim() : null,
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Builds what the pages show from a fundraiser's subject and details. Pass the
+// on-chain hashes when they are known to get an integrity verdict.
+export const resolveContent = ({
+  subject,
+  details,
+  subjectHash,
+  detailsHash,
+}: {
+  subject: string;
+  details: string;
+  subjectHash?: string | null;
+  detailsHash?: string | null;
+}): ResolvedContent => {
+  const verified =
+    subjectHash && detailsHash
+      ? contentHash(subject) === subjectHash.toLowerCase() && contentHash(details) === detailsHash.toLowerCase()
+      : null;
+
+  const parsed = parseContent(details);
+  if (parsed) return { ...parsed, title: parsed.title || subject, legacy: false, verified };
+  return {
+    version: CONTENT_VERSION,
+    title: subject,
+    story: details,
+    images: [],
+    links: [],
+    category: null,
+    tags: [],
+    location: null,
+    legacy: true,
+    verified,
+  };
+};
+
+// One line for logs and the audit trail
+export const describeContent = (text: string) => {
+  const parsed = parseContent(text);
+  if (parsed) return `"${parsed.title}"`;
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
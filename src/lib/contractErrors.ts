@@ -0,0 +1,278 @@
+import { Interface, JsonFragment, isHexString } from 'ethers';
+import { fundraiserAbi } from './fundraiserClient';
+import { formatUsdc } from './usdc';
+
+// ============================
+//   Revert decoding
+// ============================
+//
+// Turns whatever ethers, viem or the wallet threw into a structured error and a message
+// a donor can act on. Covers the FundraiserFactory custom errors, the OpenZeppelin
+// ERC20 errors, require() strings and panics.
+
+// What the user was doing; some errors (InvalidInput in particular) mean different
+// things depending on the call that reverted
+export type ContractAction =
+  | 'donate'
+  | 'approve'
+  | 'createFundraiser'
+  | 'withdraw'
+  | 'emergencyUserWithdraw'
+  | 'admin';
+
+export type ContractErrorKind =
+  // The contract reverted; `name` and `args` say why
+  | 'revert'
+  // The user dismissed the wallet prompt
+  | 'rejected'
+  // Not enough ETH for gas
+  | 'insufficientFunds'
+  | 'network'
+  | 'unknown';
+
+export interface DecodedContractError {
+  kind: ContractErrorKind;
+  // Custom error name, or 'Error' / 'Panic' for require() strings and panics; null if nothing was decoded
+  name: string | null;
+  args: unknown[];
+  selector: string | null;
+  // Set for InvalidInput(uint8 code)
+  code: number | null;
+  message: string;
+  cause: unknown;
+}
+
+// OpenZeppelin v5 IERC20Errors, for tokens that revert with custom errors
+const ERC20_ERRORS = [
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)',
+];
+
+const isErrorFragment = (item: JsonFragment) => item.type === 'error';
+
+const errorInterface = new Interface([...fundraiserAbi.filter(isErrorFragment), ...ERC20_ERRORS]);
+
+// InvalidInput codes as FundraiserFactory uses them, with per-call wording where the
+// same code covers different checks
+const INVALID_INPUT_MESSAGES: Record<number, { default: string } & Partial<Record<ContractAction, string>>> = {
+  1: {
+    default: 'That fundraiser does not exist.',
+    admin: 'There is no balance to withdraw.',
+  },
+  2: {
+    default: 'The amount must be greater than zero.',
+    createFundraiser: 'The goal must be greater than zero and below the maximum the contract can hold.',
+    withdraw: 'Only the fundraiser owner can withdraw, and the amount must be greater than zero.',
+  },
+  4: { default: 'The reserve percentage must be between 0 and 100.' },
+  5: {
+    default: 'There are not enough funds for this operation.',
+    withdraw: 'That is more than the unclaimed balance of this fundraiser.',
+    emergencyUserWithdraw: 'You have nothing left to withdraw from this fundraiser.',
+    admin: 'Aave is disabled or holds no deposits.',
+  },
+  6: { default: 'The platform is paused and emergency withdrawals are not enabled.' },
+  7: { default: 'Not enough yield is available to distribute.' },
+};
+
+// Known require() strings from recordDonation and USDC itself
+const REASON_MESSAGES: Array<[RegExp, string]> = [
+  [/Invalid fundraiser ID/i, 'That fundraiser does not exist.'],
+  [/Amount must be greater than 0/i, 'The amount must be greater than zero.'],
+  [/Must set an end date in the future/i, 'This fundraiser has ended and no longer accepts donations.'],
+  [/already completed/i, 'This fundraiser is completed and no longer accepts donations.'],
+  [/would overflow/i, 'This donation is larger than the fundraiser can hold.'],
+  [/exceeds allowance/i, 'The contract is not approved to spend enough of your USDC. Approve the amount and try again.'],
+  [/exceeds balance/i, 'Your USDC balance is too low for this amount.'],
+];
+
+const PANIC_MESSAGES: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x32: 'array index out of bounds',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const messageForRevert = (name: string, args: unknown[], action?: ContractAction): string => {
+  switch (name) {
+    case 'EnforcedPause':
+      return 'The platform is paused right now. Please try again later.';
+    case 'ExpectedPause':
+      return 'This is only available while the platform is paused.';
+    case 'FundingPeriodEnded':
+      return action === 'createFundraiser'
+        ? 'The end date must be in the future.'
+        : 'The funding period for this fundraiser has ended.';
+    case 'InvalidAddress':
+      return 'A valid, non-zero address is required.';
+    case 'InvalidInput': {
+      const messages = INVALID_INPUT_MESSAGES[Number(args[0])];
+      if (!messages) return `The contract rejected the input (code ${Number(args[0])}).`;
+      return (action && messages[action]) || messages.default;
+    }
+    case 'PercentageOutOfRange':
+      return 'The reserve percentage must be between 0 and 100.';
+    case 'WithdrawalConditionsNotMet':
+      return 'Funds can be withdrawn once the goal is reached or the funding period has ended.';
+    case 'OwnableUnauthorizedAccount':
+      return `Only the platform administrator can do this (you are connected as ${shortAddress(String(args[0]))}).`;
+    case 'OwnableInvalidOwner':
+      return `${shortAddress(String(args[0]))} cannot become the contract owner.`;
+    case 'ReentrancyGuardReentrantCall':
+      return 'Another transaction is still being processed. Please try again.';
+    case 'SafeERC20FailedOperation':
+      return 'The USDC transfer failed. Check your balance and allowance and try again.';
+    case 'ERC20InsufficientBalance':
+      return `Your USDC balance is too low (you have ${formatUsdc(args[1] as bigint)}, this needs ${formatUsdc(
+        args[2] as bigint
+      )}).`;
+    case 'ERC20InsufficientAllowance':
+      return `The contract is approved to spend ${formatUsdc(args[1] as bigint)} of your USDC but needs ${formatUsdc(
+        args[2] as bigint
+      )}. Approve the amount and try again.`;
+    case 'ERC20InvalidSender':
+    case 'ERC20InvalidReceiver':
+    case 'ERC20InvalidApprover':
+    case 'ERC20InvalidSpender':
+      return 'The USDC transfer was rejected because of an invalid address.';
+    case 'Error': {
+      const reason = String(args[0]);
+      const known = REASON_MESSAGES.find(([pattern]) => pattern.test(reason));
+      return known ? known[1] : reason;
+    }
+    case 'Panic': {
+      const code = Number(args[0]);
+      return `The contract hit an internal error (${PANIC_MESSAGES[code] || `panic 0x${code.toString(16)}`}).`;
+    }
+    default:
+      return `The transaction was reverted (${name}).`;
+  }
+};
+
+// Thrown values are untyped; fields are read one at a time and checked where used
+const field = (err: unknown, key: string): unknown =>
+  err && typeof err === 'object' ? (err as Record<string, unknown>)[key] : undefined;
+
+const isRevertData = (value: unknown): value is string => isHexString(value) && value.length >= 10;
+
+// Wallets and RPC providers bury the revert data at different depths
+const findRevertData = (err: unknown, depth = 0): string | null => {
+  if (!err || typeof err !== 'object' || depth > 5) return null;
+  const data = field(err, 'data');
+  if (isRevertData(data)) return data;
+  // viem's ContractFunctionRevertedError keeps the undecoded data in `raw`
+  const raw = field(err, 'raw');
+  if (isRevertData(raw)) return raw;
+  for (const key of ['data', 'error', 'info', 'cause', 'originalError']) {
+    const found = findRevertData(field(err, key), depth + 1);
+    if (found) return found;
+  }
+  return null;
+};
+
+interface RevertInfo {
+  name: string;
+  args: unknown[];
+  selector: string | null;
+}
+
+const parseRevert = (err: unknown): RevertInfo | null => {
+  const data = findRevertData(err);
+  // ethers already decoded it with the contract's ABI
+  const decoded = field(err, 'revert');
+  const name = field(decoded, 'name');
+  if (typeof name === 'string' && name) {
+    const args = field(decoded, 'args');
+    return { name, args: Array.isArray(args) ? Array.from(args) : [], selector: data ? data.slice(0, 10) : null };
+  }
+  if (!data) return null;
+  try {
+    const parsed = errorInterface.parseError(data);
+    return parsed && { name: parsed.name, args: Array.from(parsed.args), selector: parsed.selector };
+  } catch {
+    return null;
+  }
+};
+
+const hasCode = (err: unknown, code: string | number, depth = 0): boolean => {
+  if (!err || typeof err !== 'object' || depth > 5) return false;
+  return (
+    field(err, 'code') === code ||
+    hasCode(field(err, 'error'), code, depth + 1) ||
+    hasCode(field(field(err, 'info'), 'error'), code, depth + 1) ||
+    hasCode(field(err, 'cause'), code, depth + 1)
+  );
+};
+
+// viem wraps the failure in a chain of named errors linked through `cause`
+const hasName = (err: unknown, name: string, depth = 0): boolean => {
+  if (!err || typeof err !== 'object' || depth > 5) return false;
+  return field(err, 'name') === name || hasName(field(err, 'cause'), name, depth + 1);
+};
+
+// viem's shortMessage leaves out the request details its message appends
+const errorText = (err: unknown) => {
+  for (const key of ['shortMessage', 'message']) {
+    const text = field(err, key);
+    if (typeof text === 'string' && text) return text;
+  }
+  return String(err);
+};
+
+export const decodeContractError = (err: unknown, action?: ContractAction): DecodedContractError => {
+  const base = { name: null, args: [], selector: null, code: null, cause: err };
+
+  // MetaMask reports rejections as code 4001 on the inner error
+  if (hasCode(err, 'ACTION_REJECTED') || hasCode(err, 4001)) {
+    return { ...base, kind: 'rejected', message: 'The transaction was rejected in your wallet.' };
+  }
+
+  const revert = parseRevert(err);
+  if (revert) {
+    return {
+      kind: 'revert',
+      ...revert,
+      code: revert.name === 'InvalidInput' ? Number(revert.args[0]) : null,
+      message: messageForRevert(revert.name, revert.args, action),
+      cause: err,
+    };
+  }
+
+  if (hasCode(err, 'INSUFFICIENT_FUNDS') || hasName(err, 'InsufficientFundsError')) {
+    return { ...base, kind: 'insufficientFunds', message: 'Your wallet does not have enough ETH to pay for gas.' };
+  }
+  if (
+    hasCode(err, 'NETWORK_ERROR') ||
+    hasCode(err, 'TIMEOUT') ||
+    hasCode(err, 'SERVER_ERROR') ||
+    hasName(err, 'HttpRequestError') ||
+    hasName(err, 'TimeoutError')
+  ) {
+    return {
+      ...base,
+      kind: 'network',
+      message: "We're having trouble reaching the blockchain. Please check your connection and try again.",
+    };
+  }
+  if (hasCode(err, 'CALL_EXCEPTION') || hasName(err, 'ContractFunctionRevertedError')) {
+    return {
+      ...base,
+      kind: 'revert',
+      message: 'The transaction would fail, but the contract did not say why. Check the network and amount, then try again.',
+    };
+  }
+
+  return {
+    ...base,
+    kind: 'unknown',
+    message: errorText(err),
+  };
+};
+
+export const contractErrorMessage = (err: unknown, action?: ContractAction) => decodeContractError(err, action).message;
@@ -0,0 +1,159 @@
+// Server-only: full credential verification for /api/verify. Runs the local checks from
+// credentials.ts against the configured policy, then hands the proof to the first
+// proof verifier that supports the credential.
+import { Signature, SigningKey, computeAddress, getBytes, hexlify, sha256, toUtf8Bytes } from 'ethers';
+import {
+  CredentialCheck,
+  CredentialPolicy,
+  CredentialReport,
+  DEFAULT_REQUIRED_CLAIMS,
+  ParsedCredential,
+  buildReport,
+  checkCredential,
+  checkSubject,
+  decodeBase64Url,
+  decodeJwt,
+  parseClaimRequirements,
+  parseCredential,
+} from './credentials';
+import { verifyWithHumanity } from './humanity';
+import { DID_ETHR, credentialSubjectAddress, sameAddress } from './verification';
+
+// CREDENTIAL_ISSUERS: comma-separated issuer DIDs; unset accepts any issuer Humanity vouches
+// for, but no JWT-VCs (anyone can sign one for themselves)
+// CREDENTIAL_REQUIRED_CLAIMS: e.g. "kyc=passed,age>=18"
+export const credentialPolicy = (): CredentialPolicy => ({
+  trustedIssuers: (process.env.CREDENTIAL_ISSUERS ?? '')
+    .split(',')
+    .map(issuer => issuer.trim())
+    .filter(Boolean),
+  requiredClaims: parseClaimRequirements(process.env.CREDENTIAL_REQUIRED_CLAIMS ?? DEFAULT_REQUIRED_CLAIMS),
+});
+
+// ============================
+//   Proof verifiers
+// ============================
+
+export interface ProofResult {
+  passed: boolean;
+  detail: string;
+  // The subject according to the verifier, when it reports one
+  subjectAddress?: string | null;
+}
+
+// Throws when the verifier is unreachable; a bad proof is a normal result with passed false
+export interface ProofVerifier {
+  name: string;
+  supports: (credential: ParsedCredential) => boolean;
+  verify: (credential: ParsedCredential, policy: CredentialPolicy) => Promise<ProofResult>;
+}
+
+// ES256K(-R) JWTs from a did:ethr issuer: the key recovered from the signature has to be
+// the issuer's address. Other DID methods need a resolver we do not have.
+// A valid signature only proves the issuer signed it, and any wallet can issue itself a
+// credential, so JWT-VCs also need the issuer on the CREDENTIAL_ISSUERS allowlist.
+const recoverJwtSigner = (jwt: string) => {
+  const [header, payload, signature] = jwt.split('.');
+  const digest = sha256(toUtf8Bytes(`${header}.${payload}`));
+  const bytes = getBytes(decodeBase64Url(signature));
+  if (bytes.length !== 64 && bytes.length !== 65) return [];
+  const r = hexlify(bytes.slice(0, 32));
+  const s = hexlify(bytes.slice(32, 64));
+  // ES256K has no recovery byte, so both candidates are tried
+  const yParities = bytes.length === 65 ? [bytes[64] % 2] : [0, 1];
+  return yParities.flatMap(yParity => {
+    try {
+      return [computeAddress(SigningKey.recoverPublicKey(digest, Signature.from({ r, s, v: 27 + yParity })))];
+    } catch {
+      return [];
+    }
+  });
+};
+
+const didEthrJwtVerifier: ProofVerifier = {
+  name: 'did:ethr JWT',
+  supports: credential => credential.format === 'jwt-vc',
+  verify: async (credential, policy) => {
+    if (!credential.issuer || !policy.trustedIssuers.includes(credential.issuer)) {
+      return {
+        passed: false,
+        detail:
+          policy.trustedIssuers.length === 0
+            ? 'JWT-VCs are only accepted from issuers on the CREDENTIAL_ISSUERS allowlist, and none is configured'
+            : `${credential.issuer} is not an accepted JWT-VC issuer`,
+      };
+    }
+    const { header } = decodeJwt(credential.jwt as string);
+    const issuer = DID_ETHR.exec(credential.issuer)?.[1];
+    if (header?.alg !== 'ES256K' && header?.alg !== 'ES256K-R') {
+      return { passed: false, detail: `JWTs signed with ${String(header?.alg)} are not supported` };
+    }
+    if (!issuer) {
+      return { passed: false, detail: 'JWT-VCs are only accepted from did:ethr issuers' };
+    }
+    const signedByIssuer = recoverJwtSigner(credential.jwt as string).some(signer => sameAddress(signer, issuer));
+    return {
+      passed: signedByIssuer,
+      detail: signedByIssuer ? 'JWT signature matches the issuer' : 'The JWT was not signed by its issuer',
+    };
+  },
+};
+
+// JSON-LD proofs (bbs-2023 and friends) are checked by Humanity, which also knows
+// whether the credential has been revoked
+const humanityVerifier: ProofVerifier = {
+  name: 'Humanity',
+  supports: credential => credential.format === 'vc-v1' || credential.format === 'vc-v2',
+  verify: async credential => {
+    const result = await verifyWithHumanity({ credential: credential.credential });
+    return { passed: result.isValid, detail: result.message, subjectAddress: result.subjectAddress };
+  },
+};
+
+export const PROOF_VERIFIERS: ProofVerifier[] = [didEthrJwtVerifier, humanityVerifier];
+
+const checkProof = async (
+  credential: ParsedCredential,
+  policy: CredentialPolicy
+): Promise<{ check: CredentialCheck; subjectAddress?: string | null }> => {
+  const verifier = PROOF_VERIFIERS.find(({ supports }) => supports(credential));
+  if (!verifier) {
+    return { check: { id: 'proof', label: 'Issuer signature', passed: false, detail: 'No verifier for this credential' } };
+  }
+  const { passed, detail, subjectAddress } = await verifier.verify(credential, policy);
+  const check: CredentialCheck = { id: 'proof', label: `Issuer signature (${verifier.name})`, passed, detail };
+  return { check, subjectAddress };
+};
+
+// A report for `input` (a credential object or a compact JWT), checked as issued to
+// `subject`. Throws only when a proof verifier is unavailable.
+export const verifyCredentialInput = async (
+  input: unknown,
+  { subject, policy = credentialPolicy(), now = Date.now() }: { subject?: string; policy?: CredentialPolicy; now?: number } = {}
+): Promise<CredentialReport> => {
+  let parsed: ParsedCredential;
+  try {
+    parsed = parseCredential(input);
+  } catch (err: any) {
+    return buildReport(null, [{ id: 'format', label: 'Format', passed: false, detail: err.message }]);
+  }
+
+  const checks = checkCredential(parsed, policy, { subject, now });
+  // The proof is only worth a remote call when everything else holds
+  if (!checks.every(check => check.passed)) {
+    return buildReport(parsed, checks);
+  }
+
+  const { check, subjectAddress } = await checkProof(parsed, policy);
+  checks.push(check);
+  // The verifier's view of the subject wins over what the file claims
+  const verifiedSubject = credentialSubjectAddress({ subject_address: subjectAddress });
+  if (!verifiedSubject) {
+    return buildReport(parsed, checks);
+  }
+  const subjectCheck = checkSubject(verifiedSubject, subject);
+  return buildReport(
+    { ...parsed, subjectAddress: verifiedSubject },
+    checks.map(existing => (existing.id === 'subject' ? subjectCheck : existing))
+  );
+};
@@ -0,0 +1,320 @@
+// Verifiable credentials: recognizes the formats we accept, pulls out issuer, subject,
+// validity window and claims, and runs the checks that do not need the issuer's keys.
+// Shared by the browser (early feedback) and /api/verify (the checks that count).
+import { decodeBase64, toUtf8String } from 'ethers';
+import { credentialSubjectAddress, sameAddress } from './verification';
+
+export type CredentialFormat = 'vc-v1' | 'vc-v2' | 'jwt-vc';
+
+export const CREDENTIAL_FORMAT_LABELS: Record<CredentialFormat, string> = {
+  'vc-v1': 'W3C VC 1.1 (JSON-LD)',
+  'vc-v2': 'W3C VC 2.0 (JSON-LD)',
+  'jwt-vc': 'JWT-VC',
+};
+
+const VC_V1_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+const VC_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+export interface ParsedCredential {
+  format: CredentialFormat;
+  issuer: string | null;
+  subjectAddress: string | null;
+  // Milliseconds since epoch; null when the credential does not say
+  validFrom: number | null;
+  validUntil: number | null;
+  // credentialSubject without its id
+  claims: Record<string, unknown>;
+  // The JSON-LD credential (for JWT-VC, the decoded `vc` claim)
+  credential: Record<string, unknown>;
+  // The compact JWT, for jwt-vc
+  jwt: string | null;
+}
+
+// ============================
+//   Formats
+// ============================
+
+// One entry per accepted format; the first whose detect() matches parses the input
+export interface CredentialFormatHandler {
+  format: CredentialFormat;
+  detect: (input: unknown) => boolean;
+  parse: (input: unknown) => ParsedCredential;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Empty strings count as "not set"; vc.json ships with validUntil: ""
+const toTime = (value: unknown) => {
+  if (typeof value !== 'string' || !value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const issuerId = (issuer: unknown) =>
+  typeof issuer === 'string' ? issuer : isObject(issuer) && typeof issuer.id === 'string' ? issuer.id : null;
+
+const subjectClaims = (subject: unknown) => {
+  if (!isObject(subject)) return {};
+  const { id: _id, ...claims } = subject;
+  return claims;
+};
+
+const contexts = (credential: Record<string, any>): unknown[] => {
+  const context = credential['@context'];
+  return Array.isArray(context) ? context : [context];
+};
+
+const isJsonLdCredential = (input: unknown, context: string) =>
+  isObject(input) &&
+  Array.isArray(input.type) &&
+  input.type.includes('VerifiableCredential') &&
+  contexts(input).includes(context);
+
+const parseJsonLd = (format: CredentialFormat, credential: Record<string, any>): ParsedCredential => ({
+  format,
+  issuer: issuerId(credential.issuer),
+  subjectAddress: credentialSubjectAddress(credential),
+  validFrom: toTime(format === 'vc-v1' ? credential.issuanceDate : credential.validFrom),
+  validUntil: toTime(format === 'vc-v1' ? credential.expirationDate : credential.validUntil),
+  claims: subjectClaims(credential.credentialSubject),
+  credential,
+  jwt: null,
+});
+
+const JWT = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+
+export const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return decodeBase64(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+};
+
+const decodeJwtPart = (part: string) => {
+  try {
+    return JSON.parse(toUtf8String(decodeBase64Url(part)));
+  } catch {
+    throw new Error('The JWT could not be decoded');
+  }
+};
+
+export const decodeJwt = (jwt: string) => {
+  const [header, payload, signature] = jwt.split('.');
+  return { header: decodeJwtPart(header), payload: decodeJwtPart(payload), signature };
+};
+
+// JWT claims (iss, sub, nbf, exp) take precedence over the embedded vc, as the
+// VC-JWT encoding rules say
+const parseJwt = (input: unknown): ParsedCredential => {
+  const jwt = (input as string).trim();
+  const { payload } = decodeJwt(jwt);
+  if (!isObject(payload) || !isObject(payload.vc)) {
+    throw new Error('The JWT does not contain a verifiable credential');
+  }
+  const credential = payload.vc;
+  const subjectId = typeof payload.sub === 'string' ? payload.sub : credential.credentialSubject?.id;
+  const seconds = (value: unknown) => (typeof value === 'number' ? value * 1000 : null);
+  return {
+    format: 'jwt-vc',
+    issuer: typeof payload.iss === 'string' ? payload.iss : issuerId(credential.issuer),
+    subjectAddress: credentialSubjectAddress({ credentialSubject: { id: subjectId } }),
+    validFrom: seconds(payload.nbf) ?? toTime(credential.issuanceDate ?? credential.validFrom),
+    validUntil: seconds(payload.exp) ?? toTime(credential.expirationDate ?? credential.validUntil),
+    claims: subjectClaims(credential.credentialSubject),
+    credential,
+    jwt,
+  };
+};
+
+export const CREDENTIAL_FORMATS: CredentialFormatHandler[] = [
+  {
+    format: 'jwt-vc',
+    detect: input => typeof input === 'string' && JWT.test(input.trim()),
+    parse: parseJwt,
+  },
+  {
+    format: 'vc-v2',
+    detect: input => isJsonLdCredential(input, VC_V2_CONTEXT),
+    parse: input => parseJsonLd('vc-v2', input as Record<string, any>),
+  },
+  {
+    format: 'vc-v1',
+    detect: input => isJsonLdCredential(input, VC_V1_CONTEXT),
+    parse: input => parseJsonLd('vc-v1', input as Record<string, any>),
+  },
+];
+
+// Humanity issues credentials wrapped as { credential: {...} }
+const unwrap = (input: unknown) => (isObject(input) && isObject(input.credential) ? input.credential : input);
+
+// Throws when the input is not a credential in any accepted format
+export const parseCredential = (input: unknown): ParsedCredential => {
+  const candidate = unwrap(input);
+  const handler = CREDENTIAL_FORMATS.find(({ detect }) => detect(candidate));
+  if (!handler) {
+    throw new Error('Not a recognized credential. Expected a W3C verifiable credential (JSON) or a JWT-VC.');
+  }
+  return handler.parse(candidate);
+};
+
+// The contents of an uploaded .json or .jwt file
+export const readCredentialFile = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (JWT.test(trimmed)) return trimmed;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error('The file is neither JSON nor a JWT');
+  }
+};
+
+// ============================
+//   Policy and checks
+// ============================
+
+export interface ClaimRequirement {
+  claim: string;
+  // The claim has to equal this (compared as strings, so "18" matches 18)
+  equals?: string;
+  // The claim has to be a number at least this large
+  min?: number;
+}
+
+export interface CredentialPolicy {
+  // Issuer DIDs we accept; empty accepts any issuer
+  trustedIssuers: string[];
+  requiredClaims: ClaimRequirement[];
+}
+
+export const DEFAULT_REQUIRED_CLAIMS = 'kyc=passed,age>=18';
+
+// "kyc=passed,age>=18" -> [{ claim: 'kyc', equals: 'passed' }, { claim: 'age', min: 18 }]
+export const parseClaimRequirements = (spec: string): ClaimRequirement[] =>
+  spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const min = /^([\w.-]+)\s*>=\s*(-?\d+(?:\.\d+)?)$/.exec(part);
+      if (min) return { claim: min[1], min: Number(min[2]) };
+      const equals = /^([\w.-]+)\s*=\s*(.+)$/.exec(part);
+      if (equals) return { claim: equals[1], equals: equals[2].trim() };
+      if (/^[\w.-]+$/.test(part)) return { claim: part };
+      throw new Error(`Cannot read the claim requirement "${part}"`);
+    });
+
+export const describeRequirement = ({ claim, equals, min }: ClaimRequirement) =>
+  equals !== undefined ? `${claim} is "${equals}"` : min !== undefined ? `${claim} is at least ${min}` : `${claim} is present`;
+
+export type CredentialCheckId = 'format' | 'issuer' | 'validity' | 'subject' | 'claim' | 'proof';
+
+export interface CredentialCheck {
+  id: CredentialCheckId;
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface CredentialReport {
+  format: CredentialFormat | null;
+  issuer: string | null;
+  subjectAddress: string | null;
+  claims: Record<string, unknown>;
+  checks: CredentialCheck[];
+  // Every check passed
+  isValid: boolean;
+}
+
+const checkClaim = (claims: Record<string, unknown>, requirement: ClaimRequirement): CredentialCheck => {
+  const value = claims[requirement.claim];
+  const label = `Claim: ${describeRequirement(requirement)}`;
+  if (value === undefined || value === null || value === '') {
+    return { id: 'claim', label, passed: false, detail: `The credential has no "${requirement.claim}" claim` };
+  }
+  if (requirement.equals !== undefined && String(value) !== requirement.equals) {
+    return { id: 'claim', label, passed: false, detail: `"${requirement.claim}" is "${String(value)}"` };
+  }
+  if (requirement.min !== undefined && !(Number(value) >= requirement.min)) {
+    return { id: 'claim', label, passed: false, detail: `"${requirement.claim}" is ${String(value)}` };
+  }
+  return { id: 'claim', label, passed: true, detail: `"${requirement.claim}" is ${JSON.stringify(value)}` };
+};
+
+export const checkSubject = (subjectAddress: string | null, expected?: string): CredentialCheck => {
+  const label = 'Issued to this wallet';
+  if (!subjectAddress) {
+    return { id: 'subject', label, passed: false, detail: 'The credential does not name the wallet it was issued to' };
+  }
+  if (expected && !sameAddress(subjectAddress, expected)) {
+    return { id: 'subject', label, passed: false, detail: `Issued to ${subjectAddress}, not to ${expected}` };
+  }
+  return { id: 'subject', label, passed: true, detail: subjectAddress };
+};
+
+// Everything except the proof, which needs the issuer's keys (see credentialVerifier.ts)
+// `subject` is the wallet the credential has to be issued to.
+export const checkCredential = (
+  parsed: ParsedCredential,
+  policy: CredentialPolicy,
+  { subject, now = Date.now() }: { subject?: string; now?: number } = {}
+): CredentialCheck[] => {
+  const checks: CredentialCheck[] = [
+    { id: 'format', label: 'Format', passed: true, detail: CREDENTIAL_FORMAT_LABELS[parsed.format] },
+  ];
+
+  if (!parsed.issuer) {
+    checks.push({ id: 'issuer', label: 'Trusted issuer', passed: false, detail: 'The credential does not name its issuer' });
+  } else if (policy.trustedIssuers.length === 0) {
+    checks.push({ id: 'issuer', label: 'Trusted issuer', passed: true, detail: 'No issuer allowlist is configured' });
+  } else {
+    const trusted = policy.trustedIssuers.includes(parsed.issuer);
+    checks.push({
+      id: 'issuer',
+      label: 'Trusted issuer',
+      passed: trusted,
+      detail: trusted ? parsed.issuer : `${parsed.issuer} is not an accepted issuer`,
+    });
+  }
+
+  if (parsed.validFrom !== null && parsed.validFrom > now) {
+    checks.push({
+      id: 'validity',
+      label: 'Valid now',
+      passed: false,
+      detail: `Not valid until ${new Date(parsed.validFrom).toISOString()}`,
+    });
+  } else if (parsed.validUntil !== null && parsed.validUntil <= now) {
+    checks.push({
+      id: 'validity',
+      label: 'Valid now',
+      passed: false,
+      detail: `Expired on ${new Date(parsed.validUntil).toISOString()}`,
+    });
+  } else {
+    checks.push({
+      id: 'validity',
+      label: 'Valid now',
+      passed: true,
+      detail: parsed.validUntil !== null ? `Valid until ${new Date(parsed.validUntil).toISOString()}` : 'Does not expire',
+    });
+  }
+
+  checks.push(checkSubject(parsed.subjectAddress, subject));
+
+  policy.requiredClaims.forEach(requirement => checks.push(checkClaim(parsed.claims, requirement)));
+  return checks;
+};
+
+export const buildReport = (parsed: ParsedCredential | null, checks: CredentialCheck[]): CredentialReport => ({
+  format: parsed?.format ?? null,
+  issuer: parsed?.issuer ?? null,
+  subjectAddress: parsed?.subjectAddress ?? null,
+  claims: parsed?.claims ?? {},
+  checks,
+  isValid: checks.length > 0 && checks.every(check => check.passed),
+});
+
+// The first failed check, for a one-line summary
+export const describeReport = (report: CredentialReport) => {
+  const failed = report.checks.find(check => !check.passed);
+  return failed ? `${failed.label}: ${failed.detail}` : 'Credential verified';
+};
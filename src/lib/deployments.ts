@@ -0,0 +1,138 @@
+import type { Chain } from 'viem';
+import { arbitrum, base, baseSepolia, mainnet, optimism, polygon, sepolia } from 'viem/chains';
+
+// ============================
+//   Deployment registry
+// ============================
+//
+// Where FundraiserFactory lives on each chain, with the USDC it pulls donations from and
+// the Aave pool it deposits into. Pages resolve addresses from the connected chain; a
+// chain without an entry here is "unsupported". The server-side API and indexer follow
+// the default deployment (NEXT_PUBLIC_DEFAULT_CHAIN_ID).
+
+export interface Deployment {
+  chainId: number;
+  name: string;
+  chain: Chain;
+  // FundraiserFactory
+  fundraiser: string;
+  usdc: string;
+  aavePool: string | null;
+  explorerUrl: string;
+  // Read-only endpoints for the RPC pool, tried in this order until health data says otherwise
+  rpcUrls: string[];
+  // Block the FundraiserFactory was deployed at (or any block before it); the event indexer
+  // starts scanning here instead of at genesis
+  deployBlock: number;
+}
+
+// Chains a deployment can be registered on through NEXT_PUBLIC_DEPLOYMENTS
+const KNOWN_CHAINS: Chain[] = [mainnet, polygon, optimism, arbitrum, base, sepolia, baseSepolia];
+
+const splitUrls = (value: string | undefined) =>
+  value ? value.split(',').map(url => url.trim()).filter(Boolean) : null;
+
+const SEPOLIA_DEPLOYMENT: Deployment = {
+  chainId: sepolia.id,
+  name: 'Sepolia',
+  chain: sepolia,
+  fundraiser: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '0x308A7629a5C39f9073D4617A4e95A205d4474E07',
+  // Circle's Sepolia USDC
+  usdc: process.env.NEXT_PUBLIC_USDC_ADDRESS || '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+  aavePool: '0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951',
+  explorerUrl: 'https://sepolia.etherscan.io',
+  // The deploy run is from 2025-02-28 (cache/DeployFundraiser.s.sol); this block is a few
+  // weeks earlier, so nothing is missed. NEXT_PUBLIC_SEPOLIA_DEPLOY_BLOCK replaces it.
+  deployBlock: Number(process.env.NEXT_PUBLIC_SEPOLIA_DEPLOY_BLOCK) || 7_500_000,
+  // NEXT_PUBLIC_SEPOLIA_RPC_URLS (comma separated) replaces the list entirely
+  rpcUrls: splitUrls(process.env.NEXT_PUBLIC_SEPOLIA_RPC_URLS) ?? [
+    'https://ethereum-sepolia-rpc.publicnode.com',
+    'https://gateway.tenderly.co/public/sepolia',
+    'https://rpc.sepolia.ethpandaops.io',
+    'https://sepolia.gateway.tenderly.co',
+    'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
+  ],
+};
+
+// NEXT_PUBLIC_DEPLOYMENTS: a JSON array of
+// { chainId, fundraiser, usdc, deployBlock, aavePool?, explorerUrl?, rpcUrls? } for further chains
+const configuredDeployments = (): Deployment[] => {
+  const raw = process.env.NEXT_PUBLIC_DEPLOYMENTS;
+  if (!raw) return [];
+  try {
+    const entries = JSON.parse(raw) as Array<Partial<Deployment> & { chainId: number }>;
+    return entries.flatMap(entry => {
+      const chain = KNOWN_CHAINS.find(known => known.id === Number(entry.chainId));
+      if (!chain || !entry.fundraiser || !entry.usdc) {
+        console.warn(`Ignoring the deployment for chain ${entry.chainId}: unknown chain or missing addresses`);
+        return [];
+      }
+      if (!entry.deployBlock) {
+        console.warn(`The deployment for chain ${entry.chainId} has no deployBlock; its event index starts at genesis`);
+      }
+      return [
+        {
+          chainId: chain.id,
+          name: entry.name || chain.name,
+          chain,
+          fundraiser: entry.fundraiser,
+          usdc: entry.usdc,
+          aavePool: entry.aavePool ?? null,
+          explorerUrl: entry.explorerUrl || chain.blockExplorers?.default.url || '',
+          rpcUrls: entry.rpcUrls?.length ? entry.rpcUrls : Array.from(chain.rpcUrls.default.http),
+          deployBlock: Number(entry.deployBlock) || 0,
+        },
+      ];
+    });
+  } catch (err) {
+    console.warn('NEXT_PUBLIC_DEPLOYMENTS is not valid JSON; ignoring it', err);
+    return [];
+  }
+};
+
+// Configured entries replace the built-in one for the same chain
+export const DEPLOYMENTS: Record<number, Deployment> = Object.fromEntries(
+  [SEPOLIA_DEPLOYMENT, ...configuredDeployments()].map(deployment => [deployment.chainId, deployment])
+);
+
+const configuredDefault = Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID);
+
+if (configuredDefault && !DEPLOYMENTS[configuredDefault]) {
+  console.warn(`NEXT_PUBLIC_DEFAULT_CHAIN_ID ${configuredDefault} has no deployment; using Sepolia`);
+}
+
+export const DEFAULT_CHAIN_ID = DEPLOYMENTS[configuredDefault] ? configuredDefault : sepolia.id;
+
+export const defaultDeployment = DEPLOYMENTS[DEFAULT_CHAIN_ID];
+
+// Default first, so wallets that connect without a chain preference land on it
+export const SUPPORTED_CHAINS = [
+  defaultDeployment.chain,
+  ...Object.values(DEPLOYMENTS)
+    .filter(deployment => deployment.chainId !== DEFAULT_CHAIN_ID)
+    .map(deployment => deployment.chain),
+] as [Chain, ...Chain[]];
+
+export const getDeployment = (chainId: number | undefined): Deployment | null =>
+  (chainId !== undefined && DEPLOYMENTS[chainId]) || null;
+
+export const isSupportedChain = (chainId: number | undefined) => getDeployment(chainId) !== null;
+
+// For code that cannot continue on an unsupported chain
+export const requireDeployment = (chainId: number | undefined) => {
+  const deployment = getDeployment(chainId);
+  if (!deployment) {
+    throw new Error(`Helping Hand is not available on this network. Switch to ${supportedNetworkNames()}.`);
+  }
+  return deployment;
+};
+
+export const supportedNetworkNames = () =>
+  Object.values(DEPLOYMENTS)
+    .map(deployment => deployment.name)
+    .join(' or ');
+
+export const explorerTxUrl = (deployment: Deployment, hash: string) => `${deployment.explorerUrl}/tx/${hash}`;
+
+export const explorerAddressUrl = (deployment: Deployment, address: string) =>
+  `${deployment.explorerUrl}/address/${address}`;
@@ -0,0 +1,197 @@
+import { MaxUint256, type Signer } from 'ethers';
+import { FUNDRAISER_CONTRACT_ADDRESS, createFundraiserWriter } from './fundraiserClient';
+import { DecodedContractError, decodeContractError } from './contractErrors';
+import { Deployment, requireDeployment } from './deployments';
+import { USDC_ADDRESS, USDC_UNIT, formatUsdc, getUsdcContract, toContractUsdc } from './usdc';
+
+// ============================
+//   Donation pipeline
+// ============================
+//
+// Every USDC donation goes through the same steps:
+//
+//   checkingBalance -> checkingAllowance -> approving -> donating -> confirming -> done
+//
+// The approval step is skipped when the existing allowance already covers the
+// donation. Any step can end in 'failed'; steps before the donation is broadcast
+// can end in 'cancelled'. Callers get a fresh DonationState on every transition.
+
+export type DonationStep =
+  | 'idle'
+  | 'checkingBalance'
+  | 'checkingAllowance'
+  | 'approving'
+  | 'donating'
+  | 'confirming'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+// exact: approve just this donation. unlimited: approve MaxUint256 once.
+// There is no permit mode: FundraiserFactory has no permit entry point, so a permit would
+// still be a separate transaction from the donor's wallet, the same cost as approve.
+export type ApprovalMode = 'exact' | 'unlimited';
+
+export const APPROVAL_MODE_LABELS: Record<ApprovalMode, string> = {
+  exact: 'Approve this amount only',
+  unlimited: 'Approve unlimited (no approval next time)',
+};
+
+export interface DonationRequest {
+  fundraiserId: number;
+  // The chain of the deployment the fundraiser lives on (Fundraiser.chainId)
+  chainId: number;
+  // USDC base units; must be whole USDC
+  amount: bigint;
+  approvalMode: ApprovalMode;
+}
+
+export interface DonationState extends DonationRequest {
+  step: DonationStep;
+  approvalTxHash: string | null;
+  // Set once the recordDonation transaction is broadcast
+  txHash: string | null;
+  // True when the existing allowance already covered the donation
+  approvalSkipped: boolean;
+  error: DecodedContractError | null;
+  // The step that was running when the pipeline failed or was cancelled
+  failedStep: DonationStep | null;
+}
+
+export interface RunDonationOptions {
+  getSigner: () => Promise<Signer>;
+  onUpdate?: (state: DonationState) => void;
+  // Honoured between steps until the donation is broadcast; after that it can no longer be stopped
+  signal?: AbortSignal;
+  // A previous attempt. A donation that was already broadcast is awaited instead of sent again.
+  resume?: DonationState;
+  // Moves the wallet to the request's chain (see useEnsureChain); without it the wallet has
+  // to be there already
+  ensureChain?: (chainId: number) => Promise<Deployment>;
+}
+
+const TERMINAL_STEPS: DonationStep[] = ['idle', 'done', 'failed', 'cancelled'];
+
+export const isDonationActive = (state: DonationState | null) => !!state && TERMINAL_STEPS.indexOf(state.step) === -1;
+
+// Cancelling is only offered while nothing irreversible is in flight
+export const canCancelDonation = (state: DonationState | null) => isDonationActive(state) && !state!.txHash;
+
+export const initialDonationState = (request: DonationRequest): DonationState => ({
+  ...request,
+  step: 'idle',
+  approvalTxHash: null,
+  txHash: null,
+  approvalSkipped: false,
+  error: null,
+  failedStep: null,
+});
+
+export const approvalAmount = (mode: ApprovalMode, amount: bigint) => (mode === 'unlimited' ? MaxUint256 : amount);
+
+// Plain approve(); used by the pipeline and by pages that manage allowance directly
+export const approveUsdc = async (
+  signer: Signer,
+  value: bigint,
+  { spender = FUNDRAISER_CONTRACT_ADDRESS, usdcAddress = USDC_ADDRESS } = {}
+) => {
+  const tx = await getUsdcContract(signer, usdcAddress).approve(spender, value);
+  await tx.wait();
+  return tx.hash as string;
+};
+
+// Runs (or resumes) one donation. Never throws: failures end in a 'failed' state
+// carrying the decoded error, so callers only have to render the returned state.
+export const runDonation = async (
+  request: DonationRequest,
+  {
+    getSigner,
+    onUpdate,
+    signal,
+    resume,
+    ensureChain,
+  }: RunDonationOptions
+): Promise<DonationState> => {
+  let state: DonationState = resume
+    ? { ...resume, error: null, failedStep: null }
+    : initialDonationState(request);
+
+  const update = (changes: Partial<DonationState>) => {
+    state = { ...state, ...changes };
+    onUpdate?.(state);
+  };
+
+  const checkpoint = () => {
+    if (signal?.aborted && !state.txHash) throw new Error('Donation cancelled');
+  };
+
+  try {
+    // Always the fundraiser's own deployment, whatever chain the wallet started on
+    const deployment = ensureChain ? await ensureChain(request.chainId) : requireDeployment(request.chainId);
+    const { usdc: usdcAddress, fundraiser: contractAddress } = deployment;
+    const signer = await getSigner();
+    const provider = signer.provider;
+    if (!provider) throw new Error('The connected wallet has no provider.');
+
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== BigInt(deployment.chainId)) {
+      throw new Error(`Please switch your wallet to the ${deployment.name} network.`);
+    }
+
+    // A broadcast donation must never be sent twice; just wait for it again
+    if (!state.txHash) {
+      const wholeUsdc = toContractUsdc(request.amount);
+      if (request.amount < USDC_UNIT) throw new Error('Please enter at least 1 USDC.');
+
+      const owner = await signer.getAddress();
+      const token = getUsdcContract(signer, usdcAddress);
+
+      checkpoint();
+      update({ step: 'checkingBalance' });
+      const balance: bigint = await token.balanceOf(owner);
+      if (balance < request.amount) {
+        throw new Error(
+          `Your USDC balance is too low (you have ${formatUsdc(balance)}, this needs ${formatUsdc(request.amount)}).`
+        );
+      }
+
+      checkpoint();
+      update({ step: 'checkingAllowance' });
+      const allowance: bigint = await token.allowance(owner, contractAddress);
+
+      if (allowance >= request.amount) {
+        update({ approvalSkipped: true });
+      } else {
+        checkpoint();
+        update({ step: 'approving', approvalSkipped: false });
+        const approvalTxHash = await approveUsdc(signer, approvalAmount(state.approvalMode, request.amount), {
+          spender: contractAddress,
+          usdcAddress,
+        });
+        update({ approvalTxHash });
+      }
+
+      checkpoint();
+      update({ step: 'donating' });
+      const tx = await createFundraiserWriter(signer, contractAddress).recordDonation(request.fundraiserId, wholeUsdc);
+      update({ txHash: tx.hash });
+    }
+
+    update({ step: 'confirming' });
+    const receipt = await provider.waitForTransaction(state.txHash!);
+    if (!receipt || receipt.status !== 1) {
+      throw new Error('The donation transaction was reverted. No USDC left your wallet.');
+    }
+
+    update({ step: 'done' });
+  } catch (err) {
+    if (signal?.aborted && !state.txHash) {
+      update({ step: 'cancelled', failedStep: state.step });
+    } else {
+      const action = state.step === 'approving' ? 'approve' : 'donate';
+      update({ step: 'failed', failedStep: state.step, error: decodeContractError(err, action) });
+    }
+  }
+
+  return state;
+};
@@ -0,0 +1,143 @@
+// Who may ask for help: rules evaluated against the claims of the credential a wallet
+// verified with. The server evaluates them (rules come from ELIGIBILITY_RULES); the
+// browser only renders the outcome and routes on it.
+
+export type EligibilityRule =
+  | { type: 'kyc' }
+  | { type: 'minAge'; minAge: number }
+  // Two-letter codes or names, compared case-insensitively
+  | { type: 'region'; regions: string[] }
+  | { type: 'claim'; claim: string; equals: string };
+
+export interface EligibilityResult {
+  label: string;
+  passed: boolean;
+  // Why it passed or failed, for the user
+  reason: string;
+}
+
+export type EligibilityStatus = 'unverified' | 'eligible' | 'ineligible';
+
+export interface EligibilityOutcome {
+  status: EligibilityStatus;
+  results: EligibilityResult[];
+  // One line for the whole outcome
+  reason: string;
+}
+
+export const DEFAULT_ELIGIBILITY_RULES = 'kyc,minAge=18';
+
+export const UNVERIFIED: EligibilityOutcome = {
+  status: 'unverified',
+  results: [],
+  reason: 'Verify a credential to ask for help.',
+};
+
+// When ELIGIBILITY_RULES cannot be read nobody is eligible, rather than everybody
+export const MISCONFIGURED: EligibilityOutcome = {
+  status: 'ineligible',
+  results: [
+    {
+      label: 'Eligibility rules configured',
+      passed: false,
+      reason: 'The platform cannot read its eligibility rules.',
+    },
+  ],
+  reason: 'Asking for help is unavailable until the platform fixes its eligibility rules. Please try again later.',
+};
+
+// "kyc,minAge=18,region=US|CA,claim:employment=verified"
+export const parseEligibilityRules = (spec: string): EligibilityRule[] =>
+  spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map((part): EligibilityRule => {
+      if (part === 'kyc') return { type: 'kyc' };
+      const minAge = /^minAge\s*=\s*(\d+)$/.exec(part);
+      if (minAge) return { type: 'minAge', minAge: Number(minAge[1]) };
+      const region = /^region\s*=\s*(.+)$/.exec(part);
+      if (region) return { type: 'region', regions: region[1].split('|').map(r => r.trim()).filter(Boolean) };
+      const claim = /^claim:([\w.-]+)\s*=\s*(.+)$/.exec(part);
+      if (claim) return { type: 'claim', claim: claim[1], equals: claim[2].trim() };
+      throw new Error(`Cannot read the eligibility rule "${part}"`);
+    });
+
+const present = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+const evaluateRule = (claims: Record<string, unknown>, rule: EligibilityRule): EligibilityResult => {
+  switch (rule.type) {
+    case 'kyc': {
+      const passed = claims.kyc === 'passed';
+      return {
+        label: 'Identity check (KYC) passed',
+        passed,
+        reason: passed
+          ? 'Your credential shows a passed identity check.'
+          : present(claims.kyc)
+            ? `Your credential shows the identity check as "${String(claims.kyc)}".`
+            : 'Your credential does not include an identity check.',
+      };
+    }
+    case 'minAge': {
+      const age = Number(claims.age);
+      const known = present(claims.age) && !Number.isNaN(age);
+      const passed = known && age >= rule.minAge;
+      return {
+        label: `At least ${rule.minAge} years old`,
+        passed,
+        reason: !known
+          ? 'Your credential does not include your age.'
+          : passed
+            ? `Your credential shows you are ${age}.`
+            : `Your credential shows you are ${age}; you need to be at least ${rule.minAge}.`,
+      };
+    }
+    case 'region': {
+      // Issuers differ on the claim name
+      const value = claims.region ?? claims.country;
+      const passed = present(value) && rule.regions.some(r => r.toLowerCase() === String(value).toLowerCase());
+      return {
+        label: `Located in ${rule.regions.join(', ')}`,
+        passed,
+        reason: !present(value)
+          ? 'Your credential does not include your region.'
+          : passed
+            ? `Your credential shows ${String(value)}.`
+            : `Your credential shows ${String(value)}, where fundraisers are not available yet.`,
+      };
+    }
+    case 'claim': {
+      const value = claims[rule.claim];
+      const passed = present(value) && String(value) === rule.equals;
+      return {
+        label: `${rule.claim} is "${rule.equals}"`,
+        passed,
+        reason: !present(value)
+          ? `Your credential does not include "${rule.claim}".`
+          : passed
+            ? `Your credential shows "${rule.claim}" as "${String(value)}".`
+            : `Your credential shows "${rule.claim}" as "${String(value)}", not "${rule.equals}".`,
+      };
+    }
+  }
+};
+
+// null claims mean the wallet has no verification session
+export const evaluateEligibility = (
+  claims: Record<string, unknown> | null,
+  rules: EligibilityRule[]
+): EligibilityOutcome => {
+  if (!claims) return UNVERIFIED;
+  const results = rules.map(rule => evaluateRule(claims, rule));
+  const failed = results.find(result => !result.passed);
+  return {
+    status: failed ? 'ineligible' : 'eligible',
+    results,
+    reason: failed ? failed.reason : 'You can ask for help.',
+  };
+};
+
+// Where "Ask for Help" leads for each outcome
+export const askForHelpPath = (status: EligibilityStatus) =>
+  status === 'eligible' ? '/helpme' : status === 'ineligible' ? '/eligibility' : '/verify';
@@ -0,0 +1,75 @@
+import { Interface, type Signer, type TransactionReceipt } from 'ethers';
+import { FUNDRAISER_CONTRACT_ADDRESS, createFundraiserWriter, fundraiserAbi, type FundraiserReader } from './fundraiserClient';
+import { fromContractUsdc } from './usdc';
+
+// ============================
+//   Emergency user withdrawals
+// ============================
+//
+// While the owner has emergency withdrawals enabled, a donor can take back whatever
+// of their contribution the fundraiser owner has not claimed yet.
+
+export interface ReclaimableContribution {
+  possible: boolean;
+  // USDC base units. canPerformEmergencyWithdrawal rounds down to whole USDC, so the
+  // withdrawal itself can return a few cents more than this
+  amount: bigint;
+}
+
+export const getReclaimable = async (
+  reader: FundraiserReader,
+  fundraiserId: number,
+  donor: string
+): Promise<ReclaimableContribution> => {
+  const { possible, maxAmount } = await reader.canPerformEmergencyWithdrawal(fundraiserId, donor);
+  return { possible, amount: fromContractUsdc(maxAmount) };
+};
+
+export interface EmergencyWithdrawalResult {
+  transactionHash: string;
+  // USDC base units, from the EmergencyUserWithdrawal event
+  amount: bigint;
+}
+
+const fundraiserInterface = new Interface(fundraiserAbi);
+
+// The EmergencyUserWithdrawal event for this donor and fundraiser, if the receipt has one
+export const findEmergencyWithdrawal = (
+  receipt: TransactionReceipt,
+  donor: string,
+  fundraiserId: number,
+  contractAddress: string = FUNDRAISER_CONTRACT_ADDRESS
+) => {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== contractAddress.toLowerCase()) continue;
+    const parsed = fundraiserInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (
+      parsed?.name === 'EmergencyUserWithdrawal' &&
+      String(parsed.args.user).toLowerCase() === donor.toLowerCase() &&
+      Number(parsed.args.fundraiserId) === fundraiserId
+    ) {
+      return BigInt(parsed.args.amount) as bigint;
+    }
+  }
+  return null;
+};
+
+// Signs with the connected wallet against the FundraiserFactory at contractAddress and only
+// resolves once the event confirms the refund; onSent gets the hash as soon as it exists
+export const emergencyUserWithdraw = async (
+  fundraiserId: number,
+  signer: Signer,
+  contractAddress: string,
+  onSent?: (hash: string) => void
+): Promise<EmergencyWithdrawalResult> => {
+  const tx = await createFundraiserWriter(signer, contractAddress).emergencyUserWithdraw(fundraiserId);
+  onSent?.(tx.hash);
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error('The withdrawal transaction was dropped.');
+
+  const amount = findEmergencyWithdrawal(receipt, await signer.getAddress(), fundraiserId, contractAddress);
+  if (amount === null) {
+    throw new Error(`Transaction ${tx.hash} confirmed without an EmergencyUserWithdrawal event.`);
+  }
+  return { transactionHash: tx.hash, amount };
+};
@@ -0,0 +1,408 @@
+import { Interface, type Log } from 'ethers';
+import { FUNDRAISER_CONTRACT_ADDRESS, fundraiserAbi } from './fundraiserClient';
+import type { RpcPool } from './rpcPool';
+import { fromContractUsdc } from './usdc';
+import {
+  emptySnapshot,
+  type AdminEventName,
+  type EventStore,
+  type EventStoreSnapshot,
+  type IndexedEvent,
+  type IndexedEventName,
+  type IndexedEventOf,
+  type IndexerCheckpoint,
+} from './eventStore';
+
+export const ADMIN_EVENTS: AdminEventName[] = [
+  'Paused',
+  'Unpaused',
+  'AaveEnabledStatusUpdated',
+  'EmergencyReservePercentageUpdated',
+  'EmergencyWithdrawalsStatusChanged',
+  'EmergencyWithdrawal',
+  'EmergencyAaveWithdrawal',
+  'OwnershipTransferred',
+];
+
+export const INDEXED_EVENTS: IndexedEventName[] = [
+  'FundraiserCreated',
+  'Deposit',
+  'Withdrawal',
+  'EmergencyUserWithdrawal',
+  'YieldDistributed',
+  'ContentAdded',
+  'AaveWithdrawal',
+  'AaveWithdrawalFailed',
+  ...ADMIN_EVENTS,
+];
+
+export interface EventIndexerOptions {
+  address?: string;
+  // First block to scan; point it at the deployment block to skip empty history
+  startBlock?: number;
+  // Stay this many blocks behind the head
+  confirmations?: number;
+  // Most blocks per eth_getLogs request; halved when endpoints refuse the range, and grown
+  // back after requests succeed
+  chunkSize?: number;
+  // How far back (in blocks) hashes are kept to find the fork point after a reorg
+  reorgDepth?: number;
+  pollIntervalMs?: number;
+}
+
+export interface EventFilter {
+  names?: IndexedEventName[];
+  fundraiserId?: number;
+  // Matches owner, donor or recipient
+  address?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface IndexerStatus {
+  checkpoint: IndexerCheckpoint | null;
+  headBlock: number | null;
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+  reorgs: number;
+}
+
+export interface EventIndexer {
+  // Backfill (or catch up) to the confirmed head; concurrent calls share one run
+  sync: () => Promise<IndexerCheckpoint | null>;
+  // Keep syncing every pollIntervalMs until stop()
+  start: () => void;
+  stop: () => void;
+  getStatus: () => IndexerStatus;
+
+  getEvents: (filter?: EventFilter) => Promise<IndexedEvent[]>;
+  getFundraiserIds: () => Promise<number[]>;
+  getFundraisersByOwner: (owner: string) => Promise<IndexedEventOf<'FundraiserCreated'>[]>;
+  getDonations: (filter?: { fundraiserId?: number; donor?: string }) => Promise<IndexedEventOf<'Deposit'>[]>;
+  getWithdrawals: (fundraiserId: number) => Promise<IndexedEventOf<'Withdrawal'>[]>;
+}
+
+const fundraiserInterface = new Interface(fundraiserAbi);
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const describeError = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const eventAddresses = (event: IndexedEvent): string[] => {
+  switch (event.name) {
+    case 'FundraiserCreated':
+    case 'Withdrawal':
+      return [event.owner];
+    case 'Deposit':
+    case 'EmergencyUserWithdrawal':
+      return [event.donor];
+    case 'YieldDistributed':
+    case 'EmergencyWithdrawal':
+      return [event.recipient];
+    case 'Paused':
+    case 'Unpaused':
+      return [event.account];
+    case 'OwnershipTransferred':
+      return [event.previousOwner, event.newOwner];
+    default:
+      return [];
+  }
+};
+
+const decodeLog = (log: Log, timestamp: number): IndexedEvent | null => {
+  const parsed = fundraiserInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const base = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+  const { args } = parsed;
+
+  switch (parsed.name) {
+    case 'FundraiserCreated':
+      return { ...base, name: 'FundraiserCreated', fundraiserId: Number(args.id), owner: args.owner, goal: args.goal };
+    case 'Deposit':
+      return { ...base, name: 'Deposit', donor: args.user, fundraiserId: Number(args.id), amount: args.amt };
+    case 'Withdrawal':
+      return { ...base, name: 'Withdrawal', owner: args.user, fundraiserId: Number(args.fundraiserId), amount: args.amount };
+    case 'EmergencyUserWithdrawal':
+      return {
+        ...base,
+        name: 'EmergencyUserWithdrawal',
+        donor: args.user,
+        fundraiserId: Number(args.fundraiserId),
+        amount: args.amount,
+      };
+    case 'YieldDistributed':
+      // distributeYield takes whole USDC and emits its argument unscaled
+      return { ...base, name: 'YieldDistributed', recipient: args.recipient, amount: fromContractUsdc(args.amount) };
+    case 'ContentAdded':
+      return { ...base, name: 'ContentAdded', contentHash: args.contentHash, description: args.description };
+    case 'AaveWithdrawal':
+      return { ...base, name: 'AaveWithdrawal', amount: args.amount };
+    case 'AaveWithdrawalFailed':
+      return { ...base, name: 'AaveWithdrawalFailed', requestedAmount: args.requestedAmount, reason: args.reason };
+    case 'Paused':
+    case 'Unpaused':
+      return { ...base, name: parsed.name, account: args.account };
+    case 'AaveEnabledStatusUpdated':
+    case 'EmergencyWithdrawalsStatusChanged':
+      return { ...base, name: parsed.name, enabled: args.enabled };
+    case 'EmergencyReservePercentageUpdated':
+      return { ...base, name: 'EmergencyReservePercentageUpdated', percentage: Number(args.newPercentage) };
+    case 'EmergencyWithdrawal':
+      return { ...base, name: 'EmergencyWithdrawal', recipient: args.owner, amount: args.amount };
+    case 'EmergencyAaveWithdrawal':
+      return { ...base, name: 'EmergencyAaveWithdrawal', amount: args.amount };
+    case 'OwnershipTransferred':
+      return { ...base, name: 'OwnershipTransferred', previousOwner: args.previousOwner, newOwner: args.newOwner };
+    default:
+      return null;
+  }
+};
+
+export const createEventIndexer = (store: EventStore, pool: RpcPool, options: EventIndexerOptions = {}): EventIndexer => {
+  const {
+    address = FUNDRAISER_CONTRACT_ADDRESS,
+    startBlock = 0,
+    confirmations = 2,
+    reorgDepth = 64,
+    pollIntervalMs = 15_000,
+  } = options;
+
+  const topics = [INDEXED_EVENTS.map(name => fundraiserInterface.getEvent(name)!.topicHash)];
+
+  const maxChunkSize = options.chunkSize ?? 2000;
+  let chunkSize = maxChunkSize;
+  let snapshotPromise: Promise<EventStoreSnapshot> | null = null;
+  let running: Promise<IndexerCheckpoint | null> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let polling = false;
+  const status: IndexerStatus = {
+    checkpoint: null,
+    headBlock: null,
+    syncing: false,
+    lastSyncedAt: null,
+    lastError: null,
+    reorgs: 0,
+  };
+
+  const loadSnapshot = () => {
+    if (!snapshotPromise) {
+      snapshotPromise = store.load().then(loaded => {
+        const current =
+          loaded.eventNames &&
+          loaded.eventNames.length === INDEXED_EVENTS.length &&
+          INDEXED_EVENTS.every(name => loaded.eventNames!.includes(name));
+        if (!current && loaded.checkpoint) {
+          console.warn('Indexed event set changed, re-indexing from the start block');
+        }
+        const snapshot = current ? loaded : { ...emptySnapshot(), eventNames: INDEXED_EVENTS.slice() };
+        status.checkpoint = snapshot.checkpoint;
+        return snapshot;
+      });
+    }
+    return snapshotPromise;
+  };
+
+  const getBlockHeader = async (blockNumber: number) => {
+    const block = await pool.read(provider => provider.getBlock(blockNumber));
+    if (!block || !block.hash) {
+      throw new Error(`Block ${blockNumber} is not available yet`);
+    }
+    return { blockNumber, blockHash: block.hash, timestamp: block.timestamp };
+  };
+
+  const remember = (snapshot: EventStoreSnapshot, blocks: IndexerCheckpoint[]) => {
+    const byNumber = new Map(snapshot.recentBlocks.map(block => [block.blockNumber, block]));
+    blocks.forEach(block => byNumber.set(block.blockNumber, { blockNumber: block.blockNumber, blockHash: block.blockHash }));
+    const newest = Math.max(...Array.from(byNumber.keys()));
+    snapshot.recentBlocks = Array.from(byNumber.values())
+      .filter(block => block.blockNumber > newest - reorgDepth)
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+  };
+
+  const rollbackTo = (snapshot: EventStoreSnapshot, checkpoint: IndexerCheckpoint | null) => {
+    const keepUpTo = checkpoint ? checkpoint.blockNumber : startBlock - 1;
+    snapshot.events = snapshot.events.filter(event => event.blockNumber <= keepUpTo);
+    snapshot.recentBlocks = snapshot.recentBlocks.filter(block => block.blockNumber <= keepUpTo);
+    snapshot.checkpoint = checkpoint;
+  };
+
+  // If the checkpoint block is no longer canonical, walk back through the remembered
+  // hashes to the newest block both chains share and drop everything after it.
+  const handleReorg = async (snapshot: EventStoreSnapshot) => {
+    const { checkpoint } = snapshot;
+    if (!checkpoint) return;
+
+    const current = await getBlockHeader(checkpoint.blockNumber);
+    if (current.blockHash === checkpoint.blockHash) return;
+
+    status.reorgs++;
+    for (let i = snapshot.recentBlocks.length - 1; i >= 0; i--) {
+      const known = snapshot.recentBlocks[i];
+      if (known.blockNumber >= checkpoint.blockNumber) continue;
+      const canonical = await getBlockHeader(known.blockNumber);
+      if (canonical.blockHash === known.blockHash) {
+        console.warn(`Chain reorganised after block ${known.blockNumber}, re-indexing from there`);
+        rollbackTo(snapshot, known);
+        await store.save(snapshot);
+        return;
+      }
+    }
+
+    // Deeper than anything remembered: fall back a full window and trust the chain from there
+    const fallback = checkpoint.blockNumber - reorgDepth;
+    console.warn(`Chain reorganised deeper than ${reorgDepth} blocks, re-indexing from block ${fallback + 1}`);
+    if (fallback < startBlock) {
+      rollbackTo(snapshot, null);
+    } else {
+      const { blockNumber, blockHash } = await getBlockHeader(fallback);
+      rollbackTo(snapshot, { blockNumber, blockHash });
+    }
+    await store.save(snapshot);
+  };
+
+  const fetchLogs = async (fromBlock: number, toBlock: number) => {
+    try {
+      const logs = await pool.read(provider => provider.getLogs({ address, fromBlock, toBlock, topics }));
+      // A refused range is often one busy endpoint or one crowded stretch of blocks, so grow
+      // back gradually rather than straight into the next refusal
+      chunkSize = Math.min(Math.ceil(chunkSize * 1.25), maxChunkSize);
+      return logs;
+    } catch (err) {
+      if (toBlock === fromBlock) throw err;
+      // Most public endpoints cap the range or result size; retry with half the range
+      chunkSize = Math.max(1, Math.floor((toBlock - fromBlock + 1) / 2));
+      return null;
+    }
+  };
+
+  const indexRange = async (snapshot: EventStoreSnapshot, fromBlock: number, toBlock: number) => {
+    const logs = await fetchLogs(fromBlock, toBlock);
+    if (!logs) return false;
+
+    const blockNumbers = Array.from(new Set([...logs.map(log => log.blockNumber), toBlock]));
+    const headers = new Map<number, { blockNumber: number; blockHash: string; timestamp: number }>();
+    for (const blockNumber of blockNumbers) {
+      headers.set(blockNumber, await getBlockHeader(blockNumber));
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs.slice().sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)) {
+      const header = headers.get(log.blockNumber)!;
+      if (header.blockHash !== log.blockHash) {
+        throw new Error(`Chain reorganised while indexing block ${log.blockNumber}; retrying on the next sync`);
+      }
+      const event = decodeLog(log, header.timestamp);
+      if (event) events.push(event);
+    }
+
+    const end = headers.get(toBlock)!;
+    snapshot.events.push(...events);
+    snapshot.checkpoint = { blockNumber: end.blockNumber, blockHash: end.blockHash };
+    remember(snapshot, Array.from(headers.values()));
+    await store.save(snapshot);
+    status.checkpoint = snapshot.checkpoint;
+    return true;
+  };
+
+  const runSync = async () => {
+    const snapshot = await loadSnapshot();
+    const head = await pool.read(provider => provider.getBlockNumber());
+    status.headBlock = head;
+
+    await handleReorg(snapshot);
+
+    const target = head - confirmations;
+    let from = snapshot.checkpoint ? snapshot.checkpoint.blockNumber + 1 : startBlock;
+    while (from <= target) {
+      const to = Math.min(from + chunkSize - 1, target);
+      if (await indexRange(snapshot, from, to)) {
+        from = to + 1;
+      }
+    }
+
+    status.checkpoint = snapshot.checkpoint;
+    status.lastSyncedAt = Date.now();
+    status.lastError = null;
+    return snapshot.checkpoint;
+  };
+
+  const sync = () => {
+    if (!running) {
+      status.syncing = true;
+      running = runSync()
+        .catch(err => {
+          status.lastError = describeError(err);
+          throw err;
+        })
+        .finally(() => {
+          status.syncing = false;
+          running = null;
+        });
+    }
+    return running;
+  };
+
+  const poll = () => {
+    sync()
+      .catch(err => console.error('Event indexer sync failed:', err))
+      .finally(() => {
+        if (polling) timer = setTimeout(poll, pollIntervalMs);
+      });
+  };
+
+  const start = () => {
+    if (polling) return;
+    polling = true;
+    poll();
+  };
+
+  const stop = () => {
+    polling = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  // ============================
+  //   Queries
+  // ============================
+
+  const getEvents = async (filter: EventFilter = {}) => {
+    const { events } = await loadSnapshot();
+    return events.filter(event => {
+      if (filter.names && !filter.names.includes(event.name)) return false;
+      if (filter.fromBlock !== undefined && event.blockNumber < filter.fromBlock) return false;
+      if (filter.toBlock !== undefined && event.blockNumber > filter.toBlock) return false;
+      if (filter.fundraiserId !== undefined && !('fundraiserId' in event && event.fundraiserId === filter.fundraiserId)) {
+        return false;
+      }
+      if (filter.address && !eventAddresses(event).some(addr => sameAddress(addr, filter.address!))) return false;
+      return true;
+    });
+  };
+
+  const getCreated = async (filter: EventFilter = {}) =>
+    (await getEvents({ ...filter, names: ['FundraiserCreated'] })) as IndexedEventOf<'FundraiserCreated'>[];
+
+  return {
+    sync,
+    start,
+    stop,
+    getStatus: () => ({ ...status }),
+
+    getEvents,
+    getFundraiserIds: async () => (await getCreated()).map(event => event.fundraiserId).sort((a, b) => a - b),
+    getFundraisersByOwner: owner => getCreated({ address: owner }),
+    getDonations: async ({ fundraiserId, donor } = {}) =>
+      (await getEvents({ names: ['Deposit'], fundraiserId, address: donor })) as IndexedEventOf<'Deposit'>[],
+    getWithdrawals: async fundraiserId =>
+      (await getEvents({ names: ['Withdrawal'], fundraiserId })) as IndexedEventOf<'Withdrawal'>[],
+  };
+};
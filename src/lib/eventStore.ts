@@ -0,0 +1,108 @@
+// ============================
+//   Indexed contract events
+// ============================
+//
+// Amounts are USDC base units. Every event emits base units except YieldDistributed,
+// which echoes the whole-USDC argument and is scaled when decoded (see lib/usdc).
+
+export type IndexedEventName =
+  | 'FundraiserCreated'
+  | 'Deposit'
+  | 'Withdrawal'
+  | 'EmergencyUserWithdrawal'
+  | 'YieldDistributed'
+  | 'ContentAdded'
+  | 'AaveWithdrawal'
+  | 'AaveWithdrawalFailed'
+  | AdminEventName;
+
+// Owner-only configuration changes and fund movements, kept as the admin audit trail
+export type AdminEventName =
+  | 'Paused'
+  | 'Unpaused'
+  | 'AaveEnabledStatusUpdated'
+  | 'EmergencyReservePercentageUpdated'
+  | 'EmergencyWithdrawalsStatusChanged'
+  | 'EmergencyWithdrawal'
+  | 'EmergencyAaveWithdrawal'
+  | 'OwnershipTransferred';
+
+interface IndexedEventBase {
+  blockNumber: number;
+  blockHash: string;
+  // Seconds since epoch, taken from the block header
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type IndexedEvent = IndexedEventBase &
+  (
+    | { name: 'FundraiserCreated'; fundraiserId: number; owner: string; goal: bigint }
+    // A donation
+    | { name: 'Deposit'; donor: string; fundraiserId: number; amount: bigint }
+    // The fundraiser owner claiming funds
+    | { name: 'Withdrawal'; owner: string; fundraiserId: number; amount: bigint }
+    // A donor pulling their contribution back while emergency withdrawals are on
+    | { name: 'EmergencyUserWithdrawal'; donor: string; fundraiserId: number; amount: bigint }
+    | { name: 'YieldDistributed'; recipient: string; amount: bigint }
+    | { name: 'ContentAdded'; contentHash: string; description: string }
+    | { name: 'AaveWithdrawal'; amount: bigint }
+    // Aave refused a withdrawal; surfaced as an alert on the yield page
+    | { name: 'AaveWithdrawalFailed'; requestedAmount: bigint; reason: string }
+    | { name: 'Paused'; account: string }
+    | { name: 'Unpaused'; account: string }
+    | { name: 'AaveEnabledStatusUpdated'; enabled: boolean }
+    | { name: 'EmergencyReservePercentageUpdated'; percentage: number }
+    | { name: 'EmergencyWithdrawalsStatusChanged'; enabled: boolean }
+    // The owner sweeping the whole contract balance
+    | { name: 'EmergencyWithdrawal'; recipient: string; amount: bigint }
+    | { name: 'EmergencyAaveWithdrawal'; amount: bigint }
+    | { name: 'OwnershipTransferred'; previousOwner: string; newOwner: string }
+  );
+
+export type IndexedEventOf<N extends IndexedEventName> = Extract<IndexedEvent, { name: N }>;
+
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface EventStoreSnapshot {
+  // Last block that has been fully indexed; null before the first sync
+  checkpoint: IndexerCheckpoint | null;
+  // Hashes of recently indexed blocks, oldest first, used to find the fork point on a reorg
+  recentBlocks: IndexerCheckpoint[];
+  // Ordered by (blockNumber, logIndex)
+  events: IndexedEvent[];
+  // The event names this snapshot was built with; a snapshot indexed for a different
+  // set is rebuilt from scratch so newly tracked events get backfilled
+  eventNames?: IndexedEventName[];
+}
+
+export interface EventStore {
+  load: () => Promise<EventStoreSnapshot>;
+  save: (snapshot: EventStoreSnapshot) => Promise<void>;
+}
+
+export const emptySnapshot = (): EventStoreSnapshot => ({ checkpoint: null, recentBlocks: [], events: [] });
+
+// Keeps everything in memory; good for the browser and for one-off scripts
+export const createMemoryEventStore = (initial: EventStoreSnapshot = emptySnapshot()): EventStore => {
+  let snapshot = initial;
+  return {
+    load: async () => snapshot,
+    save: async (next) => {
+      snapshot = next;
+    },
+  };
+};
+
+// JSON helpers for stores that persist snapshots; bigints survive the round trip
+export const serializeSnapshot = (snapshot: EventStoreSnapshot) =>
+  JSON.stringify(snapshot, (_key, value) => (typeof value === 'bigint' ? { $bigint: value.toString() } : value));
+
+export const deserializeSnapshot = (json: string): EventStoreSnapshot =>
+  JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value
+  );
@@ -0,0 +1,143 @@
+import { ZeroAddress } from 'ethers';
+import { resolveContent, type ResolvedContent } from './content';
+import type { FundraiserBatch, FundraiserRecord } from './fundraiserClient';
+import { fromContractUsdc } from './usdc';
+
+// active      - open for donations, goal not met yet
+// goalReached - goal met, still inside the funding window
+// ended       - funding window closed
+// completed   - everything raised has been claimed by the owner
+export type FundraiserStatus = 'active' | 'goalReached' | 'ended' | 'completed';
+
+export const FUNDRAISER_STATUS_LABELS: Record<FundraiserStatus, string> = {
+  active: 'Active',
+  goalReached: 'Goal Reached',
+  ended: 'Ended',
+  completed: 'Completed',
+};
+
+export interface Fundraiser {
+  id: number;
+  // Chain of the deployment it was read from; donations and withdrawals go there
+  chainId: number;
+  owner: string;
+  startDate: Date;
+  endDate: Date;
+  // Plain text from getFundraiser; null when only the hashes are known (batch reads)
+  subject: string | null;
+  details: string | null;
+  subjectHash: string | null;
+  detailsHash: string | null;
+  // Title, story, images, links and metadata decoded from the text; null until the text is known
+  content: ResolvedContent | null;
+  // USDC base units (6 decimals), see lib/usdc
+  goal: bigint;
+  amountRaised: bigint;
+  isCompleted: boolean;
+  goalReached: boolean;
+  status: FundraiserStatus;
+}
+
+const ZERO = BigInt(0);
+
+const toDate = (seconds: bigint) => new Date(Number(seconds) * 1000);
+
+export const deriveStatus = (
+  { endDate, isCompleted, goalReached }: Pick<Fundraiser, 'endDate' | 'isCompleted' | 'goalReached'>,
+  now: Date = new Date()
+): FundraiserStatus => {
+  const ended = now.getTime() > endDate.getTime();
+  // The contract also flags "ended without reaching the goal" as completed,
+  // which is really just an ended campaign
+  if (isCompleted && (goalReached || !ended)) return 'completed';
+  if (ended) return 'ended';
+  if (goalReached) return 'goalReached';
+  return 'active';
+};
+
+// Mirrors recordDonation's checks: inside the funding window and not completed
+export const acceptsDonations = (fundraiser: Fundraiser, now: Date = new Date()) =>
+  !fundraiser.isCompleted && now.getTime() < fundraiser.endDate.getTime();
+
+// Share of the goal raised, in percent with two decimals; capped at 100 unless asked otherwise
+export const progressPercent = (fundraiser: Pick<Fundraiser, 'goal' | 'amountRaised'>, { capped = true } = {}) => {
+  if (fundraiser.goal <= ZERO) return 0;
+  const percent = Number((fundraiser.amountRaised * BigInt(10_000)) / fundraiser.goal) / 100;
+  return capped ? Math.min(percent, 100) : percent;
+};
+
+// Mirrors withdraw(): the owner can claim once the goal is met or the deadline has passed
+export const withdrawalsOpen = (fundraiser: Fundraiser, now: Date = new Date()) =>
+  fundraiser.goalReached || now.getTime() > fundraiser.endDate.getTime();
+
+export const fundraiserTitle = (fundraiser: Pick<Fundraiser, 'id' | 'subject'> & Partial<Pick<Fundraiser, 'content'>>) =>
+  fundraiser.content?.title || fundraiser.subject || `Fundraiser #${fundraiser.id}`;
+
+export const fundraiserStory = (fundraiser: Pick<Fundraiser, 'details' | 'content'>) =>
+  fundraiser.content?.story ?? fundraiser.details ?? '';
+
+// First image from the content, if any
+export const fundraiserImage = (fundraiser: Pick<Fundraiser, 'content'>) => fundraiser.content?.images[0] ?? null;
+
+// Category, tags and location from the content; empty for plain-text fundraisers
+export const fundraiserMetadata = (fundraiser: Pick<Fundraiser, 'content'>) => ({
+  category: fundraiser.content?.category ?? null,
+  tags: fundraiser.content?.tags ?? [],
+  location: fundraiser.content?.location ?? null,
+});
+
+// Decodes a getFundraiser() result from the deployment on chainId
+export const decodeFundraiser = (
+  id: number,
+  record: FundraiserRecord,
+  chainId: number,
+  now: Date = new Date()
+): Fundraiser => {
+  const base = {
+    id,
+    chainId,
+    owner: record.owner,
+    startDate: toDate(record.startDate),
+    endDate: toDate(record.endDate),
+    subject: record.subject,
+    details: record.details,
+    subjectHash: null,
+    detailsHash: null,
+    // getFundraiser has no hashes, so the content cannot be checked here
+    content: resolveContent({ subject: record.subject, details: record.details }),
+    goal: fromContractUsdc(record.goal),
+    amountRaised: fromContractUsdc(record.amountRaised),
+    isCompleted: record.isCompleted,
+    goalReached: record.goalReached,
+  };
+  return { ...base, status: deriveStatus(base, now) };
+};
+
+// Decodes a batchGetFundraisers(fromId, count) struct-of-arrays into one entry per
+// fundraiser. Slots without an owner (never created) are skipped.
+export const decodeFundraiserBatch = (
+  fromId: number,
+  batch: FundraiserBatch,
+  chainId: number,
+  now: Date = new Date()
+): Fundraiser[] =>
+  batch.owners.flatMap((owner, i) => {
+    if (!owner || owner === ZeroAddress) return [];
+    const base = {
+      id: fromId + i,
+      chainId,
+      owner,
+      startDate: toDate(batch.startDates[i]),
+      endDate: toDate(batch.endDates[i]),
+      subject: null,
+      details: null,
+      subjectHash: batch.subjectHashes[i],
+      detailsHash: batch.detailsHashes[i],
+      content: null,
+      goal: fromContractUsdc(batch.fundraiserGoals[i]),
+      amountRaised: fromContractUsdc(batch.amountsRaised[i]),
+      isCompleted: batch.areCompleted[i],
+      goalReached: batch.goalsReached[i],
+    };
+    return [{ ...base, status: deriveStatus(base, now) }];
+  });
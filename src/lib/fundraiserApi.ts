@@ -0,0 +1,500 @@
+import type { Fundraiser, FundraiserStatus } from './fundraiser';
+import type { FundraiserCategory } from './categories';
+import type { AdminEventName, IndexedEvent, IndexedEventOf } from './eventStore';
+import type { YieldSnapshot } from './yield';
+import type { CredentialReport } from './credentials';
+import type { EligibilityOutcome } from './eligibility';
+
+// ============================
+//   Wire format for /api/*
+// ============================
+//
+// JSON has no bigint or Date, so USDC amounts (base units) travel as decimal
+// strings and dates as ISO strings.
+
+export interface FundraiserJson extends Omit<Fundraiser, 'startDate' | 'endDate' | 'goal' | 'amountRaised'> {
+  startDate: string;
+  endDate: string;
+  goal: string;
+  amountRaised: string;
+}
+
+// relevance - best search matches first (newest without a search)
+// raised    - most funded
+// progress  - largest share of the goal raised
+// closestToGoal - least left to raise; fundraisers that met their goal come last
+export type FundraiserSort =
+  | 'relevance'
+  | 'newest'
+  | 'oldest'
+  | 'endingSoon'
+  | 'goal'
+  | 'raised'
+  | 'progress'
+  | 'closestToGoal';
+
+export interface FundraiserListQuery {
+  // Several statuses are sent comma-separated
+  status?: FundraiserStatus | FundraiserStatus[] | 'all';
+  // Words to find in the title and story, see lib/search
+  q?: string;
+  owner?: string;
+  category?: FundraiserCategory;
+  // A normalized tag, see lib/categories
+  tag?: string;
+  // USDC amounts as typed (e.g. "250" or "99.5"), inclusive
+  minGoal?: string;
+  maxGoal?: string;
+  // Only fundraisers still taking donations that close within this many days
+  endsWithinDays?: number;
+  // relevance while searching, newest otherwise
+  sort?: FundraiserSort;
+  // 1-based; ignored when a cursor is given
+  page?: number;
+  pageSize?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface FundraiserListResponse {
+  items: FundraiserJson[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // Pass as `cursor` for the page after this one; null on the last page
+  nextCursor: string | null;
+}
+
+// What the category pages and filter chips offer, over the fundraisers the app lists
+export interface FundraiserFacetsResponse {
+  categories: Record<FundraiserCategory, number>;
+  // Most used first
+  tags: Array<{ tag: string; count: number }>;
+}
+
+export interface DonationJson {
+  fundraiserId: number;
+  donor: string;
+  amount: string;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface FundraiserDonationsResponse {
+  fundraiserId: number;
+  donations: DonationJson[];
+  totalDonated: string;
+  donorCount: number;
+  // Donations after this block are not in the index yet
+  indexedThroughBlock: number | null;
+}
+
+export interface WithdrawalJson {
+  fundraiserId: number;
+  owner: string;
+  amount: string;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface FundraiserWithdrawalsResponse {
+  fundraiserId: number;
+  withdrawals: WithdrawalJson[];
+  totalWithdrawn: string;
+  indexedThroughBlock: number | null;
+}
+
+export interface DonorContributionJson {
+  fundraiserId: number;
+  donated: string;
+  // Pulled back through emergency withdrawals
+  refunded: string;
+}
+
+export interface DonorResponse {
+  address: string;
+  donations: DonationJson[];
+  refunds: DonationJson[];
+  contributions: DonorContributionJson[];
+  totalDonated: string;
+  indexedThroughBlock: number | null;
+}
+
+export type AuditedEventName = AdminEventName | 'YieldDistributed' | 'ContentAdded';
+
+export interface AuditEntryJson {
+  name: AuditedEventName;
+  // The event's own fields; USDC amounts as base-unit strings
+  fields: Record<string, string | number | boolean>;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface AuditLogResponse {
+  // Newest first
+  entries: AuditEntryJson[];
+  indexedThroughBlock: number | null;
+}
+
+export interface YieldSnapshotJson {
+  // Seconds since epoch
+  timestamp: number;
+  // USDC base units as decimal strings
+  principal: string;
+  aTokenBalance: string;
+  availableYield: string;
+  contractBalance: string;
+  isAaveEnabled: boolean;
+  isAccountingSafe: boolean;
+}
+
+export type YieldEventName = 'YieldDistributed' | 'AaveWithdrawal' | 'AaveWithdrawalFailed' | 'EmergencyAaveWithdrawal';
+
+export interface YieldEventJson {
+  name: YieldEventName;
+  // Base units; the requested amount for AaveWithdrawalFailed
+  amount: string;
+  recipient: string | null;
+  reason: string | null;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface YieldReportResponse {
+  // Latest status read; null if the contract could not be reached
+  current: YieldSnapshotJson | null;
+  // Oldest first
+  history: YieldSnapshotJson[];
+  // Newest first
+  events: YieldEventJson[];
+  totalDistributed: string;
+  indexedThroughBlock: number | null;
+}
+
+export type ModerationAction = 'hide' | 'flag';
+
+export interface ModerationEntryJson {
+  id: string;
+  // Exactly one of the two is set; an owner entry covers every fundraiser that wallet created
+  fundraiserId: number | null;
+  owner: string | null;
+  // hide: left out of listings and detail pages; flag: still shown, with the reason as a warning
+  action: ModerationAction;
+  reason: string;
+  // Seconds since epoch
+  createdAt: number;
+  // The moderator's wallet
+  createdBy: string;
+}
+
+export interface ModerationListResponse {
+  entries: ModerationEntryJson[];
+}
+
+export interface FundraiserReportJson {
+  id: string;
+  fundraiserId: number;
+  reason: string;
+  // The signed-in wallet that reported it
+  reporter: string;
+  // Seconds since epoch
+  createdAt: number;
+}
+
+export interface ModerationQueueResponse {
+  entries: ModerationEntryJson[];
+  // Open reports, newest first
+  reports: FundraiserReportJson[];
+}
+
+export interface ModerationEntryRequestBody {
+  // One of fundraiserId and owner
+  fundraiserId?: number;
+  owner?: string;
+  action: ModerationAction;
+  reason: string;
+}
+
+export interface ReportRequestBody {
+  reason: string;
+}
+
+export interface ApiError {
+  error: string;
+}
+
+export const MAX_PAGE_SIZE = 50;
+export const DEFAULT_PAGE_SIZE = 12;
+
+export const toFundraiserJson = (fundraiser: Fundraiser): FundraiserJson => ({
+  ...fundraiser,
+  startDate: fundraiser.startDate.toISOString(),
+  endDate: fundraiser.endDate.toISOString(),
+  goal: fundraiser.goal.toString(),
+  amountRaised: fundraiser.amountRaised.toString(),
+});
+
+export const fromFundraiserJson = (json: FundraiserJson): Fundraiser => ({
+  ...json,
+  startDate: new Date(json.startDate),
+  endDate: new Date(json.endDate),
+  goal: BigInt(json.goal),
+  amountRaised: BigInt(json.amountRaised),
+});
+
+export const toDonationJson = (
+  event: IndexedEventOf<'Deposit'> | IndexedEventOf<'EmergencyUserWithdrawal'>
+): DonationJson => ({
+  fundraiserId: event.fundraiserId,
+  donor: event.donor,
+  amount: event.amount.toString(),
+  blockNumber: event.blockNumber,
+  timestamp: event.timestamp,
+  transactionHash: event.transactionHash,
+  logIndex: event.logIndex,
+});
+
+export const toWithdrawalJson = (event: IndexedEventOf<'Withdrawal'>): WithdrawalJson => ({
+  fundraiserId: event.fundraiserId,
+  owner: event.owner,
+  amount: event.amount.toString(),
+  blockNumber: event.blockNumber,
+  timestamp: event.timestamp,
+  transactionHash: event.transactionHash,
+  logIndex: event.logIndex,
+});
+
+export const toAuditEntryJson = (event: IndexedEvent & { name: AuditedEventName }): AuditEntryJson => {
+  const { name, blockNumber, blockHash: _blockHash, timestamp, transactionHash, logIndex, ...rest } = event;
+  const fields: AuditEntryJson['fields'] = {};
+  Object.entries(rest).forEach(([key, value]) => {
+    fields[key] = typeof value === 'bigint' ? value.toString() : (value as string | number | boolean);
+  });
+  return { name, fields, blockNumber, timestamp, transactionHash, logIndex };
+};
+
+export const toYieldSnapshotJson = (snapshot: YieldSnapshot): YieldSnapshotJson => ({
+  ...snapshot,
+  principal: snapshot.principal.toString(),
+  aTokenBalance: snapshot.aTokenBalance.toString(),
+  availableYield: snapshot.availableYield.toString(),
+  contractBalance: snapshot.contractBalance.toString(),
+});
+
+export const fromYieldSnapshotJson = (json: YieldSnapshotJson): YieldSnapshot => ({
+  ...json,
+  principal: BigInt(json.principal),
+  aTokenBalance: BigInt(json.aTokenBalance),
+  availableYield: BigInt(json.availableYield),
+  contractBalance: BigInt(json.contractBalance),
+});
+
+export const toYieldEventJson = (event: IndexedEventOf<YieldEventName>): YieldEventJson => {
+  const base = {
+    name: event.name,
+    blockNumber: event.blockNumber,
+    timestamp: event.timestamp,
+    transactionHash: event.transactionHash,
+    logIndex: event.logIndex,
+  };
+  switch (event.name) {
+    case 'YieldDistributed':
+      return { ...base, amount: event.amount.toString(), recipient: event.recipient, reason: null };
+    case 'AaveWithdrawalFailed':
+      return { ...base, amount: event.requestedAmount.toString(), recipient: null, reason: event.reason };
+    default:
+      return { ...base, amount: event.amount.toString(), recipient: null, reason: null };
+  }
+};
+
+// ============================
+//   Media
+// ============================
+
+export interface MediaUploadResponse {
+  // SHA-256 of the uploaded file
+  hash: string;
+  // Largest variant; what goes into the fundraiser content
+  url: string;
+  variants: Array<{ width: number; url: string }>;
+  // Of the original, after EXIF rotation
+  width: number;
+  height: number;
+}
+
+// ============================
+//   Sign-In With Ethereum
+// ============================
+
+export interface AuthSessionJson {
+  // Checksummed
+  address: string;
+  chainId: number;
+  // Milliseconds since epoch
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface AuthNonceResponse {
+  nonce: string;
+}
+
+export interface SignInRequestBody {
+  // The EIP-4361 message the wallet signed
+  message: string;
+  signature: string;
+}
+
+export interface AuthSessionResponse {
+  session: AuthSessionJson | null;
+}
+
+// ============================
+//   Verification
+// ============================
+
+// Proof that `address` passed verification; the signed token itself lives in an
+// HttpOnly cookie
+export interface VerificationSessionJson {
+  address: string;
+  // The verified credential's claims (primitive values only), for eligibility rules
+  claims: Record<string, string | number | boolean>;
+  // Milliseconds since epoch
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface VerifyRequestBody {
+  address: string;
+  // The credential file: a JSON-LD verifiable credential, or a JWT-VC as a string
+  credential: unknown;
+}
+
+export interface VerifyResponse {
+  isValid: boolean;
+  message: string;
+  // Which checks passed or failed
+  report: CredentialReport;
+  // Set when isValid
+  session: VerificationSessionJson | null;
+  // Whether the session's claims allow asking for help, and why
+  eligibility: EligibilityOutcome;
+}
+
+export interface VerificationStatusResponse {
+  session: VerificationSessionJson | null;
+  eligibility: EligibilityOutcome;
+}
+
+// ============================
+//   Client helpers
+// ============================
+
+const getJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error((body as ApiError | null)?.error || `Request to ${url} failed with status ${response.status}`);
+  }
+  return body as T;
+};
+
+export const fetchFundraisers = async (query: FundraiserListQuery = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const response = await getJson<FundraiserListResponse>(`/api/fundraisers?${params.toString()}`);
+  return { ...response, items: response.items.map(fromFundraiserJson) };
+};
+
+export const fetchFundraiserFacets = () => getJson<FundraiserFacetsResponse>('/api/fundraisers/facets');
+
+export const fetchFundraiser = async (id: number) =>
+  fromFundraiserJson(await getJson<FundraiserJson>(`/api/fundraisers/${id}`));
+
+export const fetchFundraiserDonations = (id: number) =>
+  getJson<FundraiserDonationsResponse>(`/api/fundraisers/${id}/donations`);
+
+export const fetchFundraiserWithdrawals = (id: number) =>
+  getJson<FundraiserWithdrawalsResponse>(`/api/fundraisers/${id}/withdrawals`);
+
+export const fetchDonor = (address: string) => getJson<DonorResponse>(`/api/donors/${address}`);
+
+export const fetchYieldReport = () => getJson<YieldReportResponse>('/api/yield');
+
+export const fetchAuditLog = () => getJson<AuditLogResponse>('/api/admin/audit');
+
+// Walks every page of /api/fundraisers
+export const fetchAllFundraisers = async (query: Omit<FundraiserListQuery, 'page' | 'pageSize' | 'cursor'> = {}) => {
+  const fundraisers: Fundraiser[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await fetchFundraisers({ ...query, cursor, pageSize: MAX_PAGE_SIZE });
+    fundraisers.push(...response.items);
+    cursor = response.nextCursor ?? undefined;
+  } while (cursor);
+  return fundraisers;
+};
+
+export const uploadMedia = (file: File) => {
+  const body = new FormData();
+  body.append('file', file);
+  return getJson<MediaUploadResponse>('/api/media', { method: 'POST', body });
+};
+
+export const verifyCredential = (body: VerifyRequestBody) =>
+  getJson<VerifyResponse>('/api/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+export const fetchVerificationSession = () => getJson<VerificationStatusResponse>('/api/verify');
+
+export const endVerificationSession = () => getJson<VerificationStatusResponse>('/api/verify', { method: 'DELETE' });
+
+export const fetchAuthNonce = () => getJson<AuthNonceResponse>('/api/auth/nonce');
+
+export const signIn = (body: SignInRequestBody) =>
+  getJson<AuthSessionResponse>('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+export const fetchAuthSession = () => getJson<AuthSessionResponse>('/api/auth/session');
+
+export const signOut = () => getJson<AuthSessionResponse>('/api/auth/session', { method: 'DELETE' });
+
+export const fetchModerationList = () => getJson<ModerationListResponse>('/api/moderation');
+
+export const reportFundraiser = (id: number, body: ReportRequestBody) =>
+  getJson<FundraiserReportJson>(`/api/fundraisers/${id}/report`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+export const fetchModerationQueue = () => getJson<ModerationQueueResponse>('/api/admin/moderation');
+
+export const addModerationEntry = (body: ModerationEntryRequestBody) =>
+  getJson<ModerationEntryJson>('/api/admin/moderation', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+export const removeModerationEntry = (id: string) =>
+  getJson<ModerationQueueResponse>(`/api/admin/moderation/${id}`, { method: 'DELETE' });
+
+export const dismissReport = (id: string) =>
+  getJson<ModerationQueueResponse>(`/api/admin/reports/${id}`, { method: 'DELETE' });
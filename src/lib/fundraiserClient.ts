@@ -0,0 +1,275 @@
+import {
+  Contract,
+  type BigNumberish,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type JsonRpcProvider,
+  type Signer,
+} from 'ethers';
+import fundraiserAbi from '../../contractABI.json';
+import { defaultDeployment } from './deployments';
+import type { RpcPool } from './rpcPool';
+
+// The default deployment's FundraiserFactory (see deployments.ts); pages pass the address
+// for the connected chain
+export const FUNDRAISER_CONTRACT_ADDRESS = defaultDeployment.fundraiser;
+
+export { fundraiserAbi };
+
+// ============================
+//   Decoded return types
+// ============================
+
+// Amounts below are returned exactly as the contract reports them (whole USDC for
+// goals, balances and contributions), so callers decide how to present them.
+export interface FundraiserRecord {
+  owner: string;
+  startDate: bigint;
+  endDate: bigint;
+  subject: string;
+  details: string;
+  goal: bigint;
+  amountRaised: bigint;
+  isCompleted: boolean;
+  goalReached: boolean;
+}
+
+export interface FundraiserBatch {
+  owners: string[];
+  startDates: bigint[];
+  endDates: bigint[];
+  subjectHashes: string[];
+  detailsHashes: string[];
+  fundraiserGoals: bigint[];
+  amountsRaised: bigint[];
+  areCompleted: boolean[];
+  goalsReached: boolean[];
+}
+
+export interface ContractStatus {
+  isPaused: boolean;
+  isAaveEnabled: boolean;
+  isEmergencyWithdrawalEnabled: boolean;
+  reservePercentage: bigint;
+  totalDeposits: bigint;
+  contractUsdcBalance: bigint;
+  availableYield: bigint;
+  isAccountingSafe: boolean;
+}
+
+export interface EmergencyWithdrawalCheck {
+  possible: boolean;
+  maxAmount: bigint;
+}
+
+// ============================
+//   Read / write surfaces
+// ============================
+
+export interface FundraiserReader {
+  address: string;
+  batchGetFundraisers: (fromId: BigNumberish, count: BigNumberish) => Promise<FundraiserBatch>;
+  canPerformEmergencyWithdrawal: (fundraiserId: BigNumberish, user: string) => Promise<EmergencyWithdrawalCheck>;
+  checkAllowance: () => Promise<bigint>;
+  getAmountInBaseUnits: (amount: BigNumberish) => Promise<bigint>;
+  getApprovalAmount: (amount: BigNumberish) => Promise<bigint>;
+  getApprovalInstructions: () => Promise<string>;
+  getAvailableYield: () => Promise<bigint>;
+  getBalanceOfFundraiser: (fundraiserId: BigNumberish) => Promise<bigint>;
+  getContractBalance: () => Promise<bigint>;
+  getContractStatus: () => Promise<ContractStatus>;
+  getFundraiser: (fundraiserId: BigNumberish) => Promise<FundraiserRecord>;
+  getUSDCAddress: () => Promise<string>;
+  getUserContribution: (user: string, fundraiserId: BigNumberish) => Promise<bigint>;
+  owner: () => Promise<string>;
+  paused: () => Promise<boolean>;
+}
+
+export interface FundraiserWriter {
+  address: string;
+  addFundraiser: (
+    endDate: BigNumberish,
+    subject: string,
+    additionalDetails: string,
+    initialAmountNeeded: BigNumberish
+  ) => Promise<ContractTransactionResponse>;
+  distributeYield: (recipient: string, amount: BigNumberish) => Promise<ContractTransactionResponse>;
+  emergencyUserWithdraw: (fundraiserId: BigNumberish) => Promise<ContractTransactionResponse>;
+  emergencyWithdraw: (recipient: string) => Promise<ContractTransactionResponse>;
+  emergencyWithdrawFromAave: () => Promise<ContractTransactionResponse>;
+  pause: () => Promise<ContractTransactionResponse>;
+  recordDonation: (fundraiserId: BigNumberish, amount: BigNumberish) => Promise<ContractTransactionResponse>;
+  registerContent: (hash: string, content: string) => Promise<ContractTransactionResponse>;
+  renounceOwnership: () => Promise<ContractTransactionResponse>;
+  setAaveEnabled: (enabled: boolean) => Promise<ContractTransactionResponse>;
+  setEmergencyReservePercentage: (newPercentage: BigNumberish) => Promise<ContractTransactionResponse>;
+  setEmergencyWithdrawalsEnabled: (enabled: boolean) => Promise<ContractTransactionResponse>;
+  transferOwnership: (newOwner: string) => Promise<ContractTransactionResponse>;
+  unpause: () => Promise<ContractTransactionResponse>;
+  withdraw: (fundraiserId: BigNumberish, amount: BigNumberish) => Promise<ContractTransactionResponse>;
+}
+
+export const getFundraiserContract = (
+  runner: ContractRunner | null,
+  address: string = FUNDRAISER_CONTRACT_ADDRESS
+) => new Contract(address, fundraiserAbi, runner);
+
+// ethers hands back array-like Result objects; copy them into plain arrays
+const toArray = <T>(value: any): T[] => Array.from(value as ArrayLike<T>);
+
+export const createFundraiserReader = (
+  runner: ContractRunner,
+  address: string = FUNDRAISER_CONTRACT_ADDRESS
+): FundraiserReader => {
+  const contract = getFundraiserContract(runner, address);
+
+  return {
+    address,
+
+    batchGetFundraisers: async (fromId, count) => {
+      const batch = await contract.batchGetFundraisers(fromId, count);
+      return {
+        owners: toArray<string>(batch.owners),
+        startDates: toArray<bigint>(batch.startDates),
+        endDates: toArray<bigint>(batch.endDates),
+        subjectHashes: toArray<string>(batch.subjectHashes),
+        detailsHashes: toArray<string>(batch.detailsHashes),
+        fundraiserGoals: toArray<bigint>(batch.fundraiserGoals),
+        amountsRaised: toArray<bigint>(batch.amountsRaised),
+        areCompleted: toArray<boolean>(batch.areCompleted),
+        goalsReached: toArray<boolean>(batch.goalsReached),
+      };
+    },
+
+    canPerformEmergencyWithdrawal: async (fundraiserId, user) => {
+      const [possible, maxAmount] = await contract.canPerformEmergencyWithdrawal(fundraiserId, user);
+      return { possible, maxAmount };
+    },
+
+    checkAllowance: () => contract.checkAllowance(),
+    getAmountInBaseUnits: (amount) => contract.getAmountInBaseUnits(amount),
+    getApprovalAmount: (amount) => contract.getApprovalAmount(amount),
+    getApprovalInstructions: () => contract.getApprovalInstructions(),
+    getAvailableYield: () => contract.getAvailableYield(),
+    getBalanceOfFundraiser: (fundraiserId) => contract.getBalanceOfFundraiser(fundraiserId),
+    getContractBalance: () => contract.getContractBalance(),
+
+    getContractStatus: async () => {
+      const [
+        isPaused,
+        isAaveEnabled,
+        isEmergencyWithdrawalEnabled,
+        reservePercentage,
+        totalDeposits,
+        contractUsdcBalance,
+        availableYield,
+        isAccountingSafe,
+      ] = await contract.getContractStatus();
+      return {
+        isPaused,
+        isAaveEnabled,
+        isEmergencyWithdrawalEnabled,
+        reservePercentage,
+        totalDeposits,
+        contractUsdcBalance,
+        availableYield,
+        isAccountingSafe,
+      };
+    },
+
+    getFundraiser: async (fundraiserId) => {
+      const [owner, startDate, endDate, subject, details, goal, amountRaised, isCompleted, goalReached] =
+        await contract.getFundraiser(fundraiserId);
+      return { owner, startDate, endDate, subject, details, goal, amountRaised, isCompleted, goalReached };
+    },
+
+    getUSDCAddress: () => contract.getUSDCAddress(),
+    getUserContribution: (user, fundraiserId) => contract.getUserContribution(user, fundraiserId),
+    owner: () => contract.owner(),
+    paused: () => contract.paused(),
+  };
+};
+
+// Reads that decide what a donor sees or signs, so they are cross-checked when asked to
+const CRITICAL_READS: Array<keyof FundraiserReader> = ['getFundraiser', 'getContractStatus'];
+
+const pinnedRunner = (provider: JsonRpcProvider, blockTag: number): ContractRunner => ({
+  provider,
+  call: tx => provider.call({ ...tx, blockTag }),
+});
+
+// Reader backed by an RPC pool instead of a single provider: every call goes to the
+// healthiest endpoint and rotates on failure. With `crossCheck`, critical reads must
+// match across two endpoints.
+export const createPooledFundraiserReader = (
+  pool: RpcPool,
+  address: string = FUNDRAISER_CONTRACT_ADDRESS,
+  { crossCheck = false }: { crossCheck?: boolean } = {}
+): FundraiserReader => {
+  const readers = new WeakMap<ContractRunner, FundraiserReader>();
+  const readerFor = (runner: ContractRunner) => {
+    let reader = readers.get(runner);
+    if (!reader) {
+      reader = createFundraiserReader(runner, address);
+      readers.set(runner, reader);
+    }
+    return reader;
+  };
+
+  const pooled = <K extends Exclude<keyof FundraiserReader, 'address'>>(name: K) =>
+    ((...args: unknown[]) => {
+      const call = (provider: JsonRpcProvider, blockTag?: number) => {
+        // Cross-checked reads go through a runner that pins every eth_call to the pool's block
+        const reader =
+          blockTag === undefined ? readerFor(provider) : createFundraiserReader(pinnedRunner(provider, blockTag), address);
+        return (reader[name] as (...callArgs: unknown[]) => Promise<unknown>)(...args);
+      };
+      return crossCheck && CRITICAL_READS.includes(name) ? pool.quorumRead(call) : pool.read(call);
+    }) as FundraiserReader[K];
+
+  return {
+    address,
+    batchGetFundraisers: pooled('batchGetFundraisers'),
+    canPerformEmergencyWithdrawal: pooled('canPerformEmergencyWithdrawal'),
+    checkAllowance: pooled('checkAllowance'),
+    getAmountInBaseUnits: pooled('getAmountInBaseUnits'),
+    getApprovalAmount: pooled('getApprovalAmount'),
+    getApprovalInstructions: pooled('getApprovalInstructions'),
+    getAvailableYield: pooled('getAvailableYield'),
+    getBalanceOfFundraiser: pooled('getBalanceOfFundraiser'),
+    getContractBalance: pooled('getContractBalance'),
+    getContractStatus: pooled('getContractStatus'),
+    getFundraiser: pooled('getFundraiser'),
+    getUSDCAddress: pooled('getUSDCAddress'),
+    getUserContribution: pooled('getUserContribution'),
+    owner: pooled('owner'),
+    paused: pooled('paused'),
+  };
+};
+
+export const createFundraiserWriter = (
+  signer: Signer,
+  address: string = FUNDRAISER_CONTRACT_ADDRESS
+): FundraiserWriter => {
+  const contract = getFundraiserContract(signer, address);
+
+  return {
+    address,
+    addFundraiser: (endDate, subject, additionalDetails, initialAmountNeeded) =>
+      contract.addFundraiser(endDate, subject, additionalDetails, initialAmountNeeded),
+    distributeYield: (recipient, amount) => contract.distributeYield(recipient, amount),
+    emergencyUserWithdraw: (fundraiserId) => contract.emergencyUserWithdraw(fundraiserId),
+    emergencyWithdraw: (recipient) => contract.emergencyWithdraw(recipient),
+    emergencyWithdrawFromAave: () => contract.emergencyWithdrawFromAave(),
+    pause: () => contract.pause(),
+    recordDonation: (fundraiserId, amount) => contract.recordDonation(fundraiserId, amount),
+    registerContent: (hash, content) => contract.registerContent(hash, content),
+    renounceOwnership: () => contract.renounceOwnership(),
+    setAaveEnabled: (enabled) => contract.setAaveEnabled(enabled),
+    setEmergencyReservePercentage: (newPercentage) => contract.setEmergencyReservePercentage(newPercentage),
+    setEmergencyWithdrawalsEnabled: (enabled) => contract.setEmergencyWithdrawalsEnabled(enabled),
+    transferOwnership: (newOwner) => contract.transferOwnership(newOwner),
+    unpause: () => contract.unpause(),
+    withdraw: (fundraiserId, amount) => contract.withdraw(fundraiserId, amount),
+  };
+};
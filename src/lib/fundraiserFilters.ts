@@ -0,0 +1,132 @@
+import { isAddress } from 'ethers';
+import { FundraiserCategory, isFundraiserCategory, normalizeTag } from './categories';
+import type { FundraiserStatus } from './fundraiser';
+import type { FundraiserListQuery, FundraiserSort } from './fundraiserApi';
+import { parseUsdc } from './usdc';
+
+// ============================
+//   Browse filters
+// ============================
+//
+// The search form's state, kept in the page URL so a search can be shared. Values are
+// strings as typed; anything that does not parse is left out of the API query.
+
+export interface FundraiserFilters {
+  q: string;
+  status: FundraiserStatus | 'all';
+  // '' lets the API pick: relevance while searching, newest otherwise
+  sort: FundraiserSort | '';
+  // USDC
+  minGoal: string;
+  maxGoal: string;
+  owner: string;
+  endsWithinDays: string;
+  category: FundraiserCategory | '';
+  // Normalized, see lib/categories
+  tag: string;
+}
+
+export const EMPTY_FILTERS: FundraiserFilters = {
+  q: '',
+  status: 'all',
+  sort: '',
+  minGoal: '',
+  maxGoal: '',
+  owner: '',
+  endsWithinDays: '',
+  category: '',
+  tag: '',
+};
+
+const STATUSES: Array<FundraiserFilters['status']> = ['all', 'active', 'goalReached', 'ended', 'completed'];
+const SORTS: Array<FundraiserFilters['sort']> = [
+  '',
+  'relevance',
+  'newest',
+  'oldest',
+  'endingSoon',
+  'goal',
+  'raised',
+  'progress',
+  'closestToGoal',
+];
+
+const isUsdc = (value: string) => {
+  try {
+    parseUsdc(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Problems with what was typed, by field; empty when the filters can be sent as they are
+export const filterErrors = ({ minGoal, maxGoal, owner }: FundraiserFilters) => {
+  const errors: Partial<Record<keyof FundraiserFilters, string>> = {};
+  if (minGoal.trim() && !isUsdc(minGoal)) errors.minGoal = 'Not a USDC amount';
+  if (maxGoal.trim() && !isUsdc(maxGoal)) errors.maxGoal = 'Not a USDC amount';
+  if (!errors.minGoal && !errors.maxGoal && minGoal.trim() && maxGoal.trim() && parseUsdc(minGoal) > parseUsdc(maxGoal)) {
+    errors.maxGoal = 'Below the minimum';
+  }
+  if (owner.trim() && !isAddress(owner.trim())) errors.owner = 'Not a wallet address';
+  return errors;
+};
+
+// From the page URL; unknown values fall back to the defaults
+export const filtersFromQuery = (query: Partial<Record<string, string | string[]>>): FundraiserFilters => {
+  const get = (key: keyof FundraiserFilters) => {
+    const value = query[key];
+    return (Array.isArray(value) ? value[0] : value) ?? '';
+  };
+  const status = get('status') as FundraiserFilters['status'];
+  const sort = get('sort') as FundraiserFilters['sort'];
+  const endsWithinDays = get('endsWithinDays');
+  const category = get('category');
+  return {
+    q: get('q'),
+    status: STATUSES.includes(status) ? status : 'all',
+    sort: SORTS.includes(sort) ? sort : '',
+    minGoal: get('minGoal'),
+    maxGoal: get('maxGoal'),
+    owner: get('owner'),
+    endsWithinDays: /^[1-9]\d*$/.test(endsWithinDays) ? endsWithinDays : '',
+    category: isFundraiserCategory(category) ? category : '',
+    tag: normalizeTag(get('tag')),
+  };
+};
+
+// For the page URL: only what differs from the defaults
+export const filtersToQuery = (filters: FundraiserFilters) => {
+  const query: Record<string, string> = {};
+  (Object.keys(filters) as Array<keyof FundraiserFilters>).forEach(key => {
+    const value = filters[key].trim();
+    if (value !== EMPTY_FILTERS[key]) query[key] = value;
+  });
+  return query;
+};
+
+// Whether the URL already carries exactly this query
+export const sameQuery = (query: Record<string, string>, current: Partial<Record<string, string | string[]>>) => {
+  const keys = Object.keys(current).filter(key => current[key] !== undefined);
+  return keys.length === Object.keys(query).length && keys.every(key => current[key] === query[key]);
+};
+
+// For /api/fundraisers, without the values that did not parse
+export const filtersToListQuery = (filters: FundraiserFilters): Omit<FundraiserListQuery, 'page' | 'cursor'> => {
+  const errors = filterErrors(filters);
+  const valid = (key: keyof FundraiserFilters) => {
+    const value = filters[key].trim();
+    return value && !errors[key] ? value : undefined;
+  };
+  return {
+    q: valid('q'),
+    status: filters.status,
+    sort: filters.sort || undefined,
+    minGoal: valid('minGoal'),
+    maxGoal: valid('maxGoal'),
+    owner: valid('owner'),
+    endsWithinDays: filters.endsWithinDays ? Number(filters.endsWithinDays) : undefined,
+    category: filters.category || undefined,
+    tag: valid('tag'),
+  };
+};
@@ -0,0 +1,47 @@
+// Server-only: persists the event index to disk. Import from API routes or
+// getServerSideProps, never from components.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createEventIndexer, type EventIndexer } from './eventIndexer';
+import { deserializeSnapshot, emptySnapshot, serializeSnapshot, type EventStore } from './eventStore';
+import { defaultDeployment } from './deployments';
+import { defaultRpcPool } from './rpcPool';
+
+// .cache/ is gitignored
+const DEFAULT_INDEX_PATH = path.join(process.cwd(), '.cache', 'fundraiser-events.json');
+
+export const createFileEventStore = (filePath: string): EventStore => ({
+  load: async () => {
+    try {
+      return deserializeSnapshot(await fs.readFile(filePath, 'utf8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return emptySnapshot();
+      throw err;
+    }
+  },
+  save: async (snapshot) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated index behind
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, serializeSnapshot(snapshot));
+    await fs.rename(tmpPath, filePath);
+  },
+});
+
+// Survive Next.js dev hot reloads without starting a second poller
+const globalForIndexer = globalThis as typeof globalThis & { fundraiserIndexer?: EventIndexer };
+
+// Shared indexer for the deployed FundraiserFactory; starts tailing on first use. The
+// first sync starts at the deployment's deployBlock unless FUNDRAISER_START_BLOCK is set.
+export const getFundraiserIndexer = () => {
+  if (!globalForIndexer.fundraiserIndexer) {
+    const indexer = createEventIndexer(
+      createFileEventStore(process.env.FUNDRAISER_INDEX_PATH || DEFAULT_INDEX_PATH),
+      defaultRpcPool,
+      { startBlock: Number(process.env.FUNDRAISER_START_BLOCK) || defaultDeployment.deployBlock }
+    );
+    indexer.start();
+    globalForIndexer.fundraiserIndexer = indexer;
+  }
+  return globalForIndexer.fundraiserIndexer;
+};
@@ -0,0 +1,418 @@
+// Server-only: the data behind /api/fundraisers, /api/donors, /api/yield and the admin
+// audit log. Fundraiser state comes from contract reads (cached briefly), donations and
+// admin actions and registered content from the event index, yield history from the
+// status sampler.
+import { ZeroAddress, isAddress } from 'ethers';
+import { CATEGORY_KEYS, FundraiserCategory, categoryLabel } from './categories';
+import { contentHash, resolveContent } from './content';
+import {
+  Fundraiser,
+  FundraiserStatus,
+  acceptsDonations,
+  decodeFundraiser,
+  decodeFundraiserBatch,
+  fundraiserMetadata,
+  fundraiserStory,
+  progressPercent,
+} from './fundraiser';
+import {
+  AuditLogResponse,
+  AuditedEventName,
+  DEFAULT_PAGE_SIZE,
+  DonationJson,
+  DonorResponse,
+  FundraiserDonationsResponse,
+  FundraiserFacetsResponse,
+  FundraiserListQuery,
+  FundraiserListResponse,
+  FundraiserSort,
+  FundraiserWithdrawalsResponse,
+  MAX_PAGE_SIZE,
+  toAuditEntryJson,
+  toDonationJson,
+  toFundraiserJson,
+  toWithdrawalJson,
+  toYieldEventJson,
+  toYieldSnapshotJson,
+  YieldEventName,
+  YieldReportResponse,
+} from './fundraiserApi';
+import { defaultDeployment } from './deployments';
+import { createPooledFundraiserReader } from './fundraiserClient';
+import { ADMIN_EVENTS } from './eventIndexer';
+import type { IndexedEvent } from './eventStore';
+import { getFundraiserIndexer } from './fundraiserIndexer';
+import { defaultRpcPool } from './rpcPool';
+import { SearchIndex, createSearchIndex } from './search';
+import { parseUsdc } from './usdc';
+import { getYieldHistory } from './yieldHistory';
+
+const BATCH_SIZE = 50;
+const CACHE_TTL_MS = 30_000;
+const DAY_MS = 24 * 60 * 60_000;
+// A word in the title counts this many times a word in the story
+const TITLE_WEIGHT = 3;
+// Tags, the category and the location are short and deliberate, so they count double
+const METADATA_WEIGHT = 2;
+// Tags offered as filter chips
+const MAX_FACET_TAGS = 20;
+
+const reader = createPooledFundraiserReader(defaultRpcPool);
+
+// Subject and details never change after creation, so each id is fetched once
+const textCache = new Map<number, { subject: string; details: string }>();
+
+let cache: { loadedAt: number; fundraisers: Fundraiser[] } | null = null;
+let refreshing: Promise<Fundraiser[]> | null = null;
+let ownerCache: { loadedAt: number; owner: string } | null = null;
+
+// Ids from FundraiserCreated; empty when the index cannot be read
+const getIndexedFundraiserIds = async () => {
+  try {
+    return await getFundraiserIndexer().getFundraiserIds();
+  } catch (err) {
+    console.error('Error reading fundraiser ids from the index, scanning the contract instead:', err);
+    return [];
+  }
+};
+
+const loadFromChain = async () => {
+  const fundraisers: Fundraiser[] = [];
+  const readBatch = async (fromId: number, count: number) => {
+    const batch = await reader.batchGetFundraisers(fromId, count);
+    fundraisers.push(...decodeFundraiserBatch(fromId, batch, defaultDeployment.chainId));
+    return batch.owners.length;
+  };
+
+  // The ids the event index knows, read a batch of neighbouring ids at a time
+  const ids = await getIndexedFundraiserIds();
+  for (let i = 0; i < ids.length; ) {
+    let last = i;
+    while (last + 1 < ids.length && ids[last + 1] - ids[i] < BATCH_SIZE) last++;
+    await readBatch(ids[i], ids[last] - ids[i] + 1);
+    i = last + 1;
+  }
+
+  // Then anything created since the index last synced; usually one short batch, and the
+  // whole contract while the index is still catching up on a cold start
+  for (let fromId = ids.length > 0 ? ids[ids.length - 1] + 1 : 0; ; fromId += BATCH_SIZE) {
+    if ((await readBatch(fromId, BATCH_SIZE)) < BATCH_SIZE) break;
+  }
+
+  // batchGetFundraisers only returns hashes for the text fields. Content published with
+  // registerContent resolves from the index; the rest costs one getFundraiser read.
+  const missing = fundraisers.filter(fundraiser => !textCache.has(fundraiser.id));
+  const registered = missing.length > 0 ? await getRegisteredContent() : new Map<string, string>();
+  for (const fundraiser of missing) {
+    const subject = fundraiser.subjectHash ? registered.get(fundraiser.subjectHash.toLowerCase()) : undefined;
+    const details = fundraiser.detailsHash ? registered.get(fundraiser.detailsHash.toLowerCase()) : undefined;
+    textCache.set(
+      fundraiser.id,
+      subject !== undefined && details !== undefined ? { subject, details } : await reader.getFundraiser(fundraiser.id)
+    );
+  }
+
+  return fundraisers.map(fundraiser => {
+    const text = textCache.get(fundraiser.id)!;
+    const content = resolveContent({ ...text, subjectHash: fundraiser.subjectHash, detailsHash: fundraiser.detailsHash });
+    if (content.verified === false) {
+      // The owner can overwrite any registry entry, so the text may no longer match the hash
+      console.warn(`Content of fundraiser #${fundraiser.id} does not match its on-chain hashes`);
+    }
+    return { ...fundraiser, subject: text.subject, details: text.details, content };
+  });
+};
+
+// hash -> text from ContentAdded, keeping only entries whose text hashes to the key
+const getRegisteredContent = async () => {
+  const registered = new Map<string, string>();
+  try {
+    const events = await getFundraiserIndexer().getEvents({ names: ['ContentAdded'] });
+    events.forEach(event => {
+      if (event.name !== 'ContentAdded') return;
+      const hash = event.contentHash.toLowerCase();
+      if (contentHash(event.description) === hash) registered.set(hash, event.description);
+    });
+  } catch (err) {
+    console.error('Error reading registered content, falling back to contract reads:', err);
+  }
+  return registered;
+};
+
+// All fundraisers, at most CACHE_TTL_MS old. A failed refresh serves the stale copy.
+export const getFundraisers = async (): Promise<Fundraiser[]> => {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.fundraisers;
+
+  if (!refreshing) {
+    refreshing = loadFromChain()
+      .then(fundraisers => {
+        cache = { loadedAt: Date.now(), fundraisers };
+        return fundraisers;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+
+  try {
+    return await refreshing;
+  } catch (err) {
+    if (!cache) throw err;
+    console.error('Refreshing fundraisers failed, serving cached data:', err);
+    return cache.fundraisers;
+  }
+};
+
+export const getFundraiser = async (id: number): Promise<Fundraiser | null> => {
+  const cached = (await getFundraisers()).find(fundraiser => fundraiser.id === id);
+  if (cached) return cached;
+
+  // Possibly created since the last refresh. getFundraiser reverts with InvalidInput(1) for
+  // ids past the end, while a batch starting there just comes back empty.
+  const probe = await reader.batchGetFundraisers(id, 1);
+  if (probe.owners.length === 0) return null;
+  const record = await reader.getFundraiser(id);
+  if (record.owner === ZeroAddress) return null;
+  return decodeFundraiser(id, record, defaultDeployment.chainId);
+};
+
+// owner() of the default deployment, cached as long as the fundraisers
+export const getContractOwner = async () => {
+  if (!ownerCache || Date.now() - ownerCache.loadedAt >= CACHE_TTL_MS) {
+    ownerCache = { loadedAt: Date.now(), owner: await reader.owner() };
+  }
+  return ownerCache.owner;
+};
+
+// Left to raise; zero once the goal is met
+const remaining = (fundraiser: Fundraiser) =>
+  fundraiser.amountRaised < fundraiser.goal ? fundraiser.goal - fundraiser.amountRaised : BigInt(0);
+
+const compareAmounts = (a: bigint, b: bigint) => (a === b ? 0 : a < b ? -1 : 1);
+
+const compareFundraisers: Record<
+  Exclude<FundraiserSort, 'relevance'>,
+  (a: Fundraiser, b: Fundraiser) => number
+> = {
+  newest: (a, b) => b.id - a.id,
+  oldest: (a, b) => a.id - b.id,
+  endingSoon: (a, b) => a.endDate.getTime() - b.endDate.getTime(),
+  goal: (a, b) => compareAmounts(b.goal, a.goal),
+  raised: (a, b) => compareAmounts(b.amountRaised, a.amountRaised),
+  progress: (a, b) => progressPercent(b, { capped: false }) - progressPercent(a, { capped: false }),
+  closestToGoal: (a, b) => {
+    const [left, right] = [remaining(a), remaining(b)];
+    if (left === BigInt(0) || right === BigInt(0)) return Number(left === BigInt(0)) - Number(right === BigInt(0));
+    return compareAmounts(left, right);
+  },
+};
+
+// "clean-water" is found by searching for "clean water", a category by its label
+const metadataText = (fundraiser: Fundraiser) => {
+  const { category, tags, location } = fundraiserMetadata(fundraiser);
+  return [category && categoryLabel(category), ...tags, location].filter(Boolean).join(' ');
+};
+
+// The index follows the cached fundraisers, so it is rebuilt once per refresh
+const searchIndexes = new WeakMap<Fundraiser[], SearchIndex>();
+
+const searchIndexFor = (fundraisers: Fundraiser[]) => {
+  let index = searchIndexes.get(fundraisers);
+  if (!index) {
+    index = createSearchIndex(
+      fundraisers.map(fundraiser => ({
+        id: fundraiser.id,
+        fields: [
+          { text: fundraiser.content?.title || fundraiser.subject || '', weight: TITLE_WEIGHT },
+          { text: fundraiserStory(fundraiser), weight: 1 },
+          { text: metadataText(fundraiser), weight: METADATA_WEIGHT },
+        ],
+      }))
+    );
+    searchIndexes.set(fundraisers, index);
+  }
+  return index;
+};
+
+export interface QueryOptions {
+  // Fundraisers to leave out, such as the ones moderators hid
+  exclude?: (fundraiser: Fundraiser) => boolean;
+  now?: Date;
+}
+
+export const queryFundraisers = (
+  fundraisers: Fundraiser[],
+  query: FundraiserListQuery,
+  { exclude, now = new Date() }: QueryOptions = {}
+): FundraiserListResponse => {
+  const { status = 'all', q, owner, category, tag, minGoal, maxGoal, endsWithinDays, page = 1, pageSize = DEFAULT_PAGE_SIZE, cursor } = query;
+  const statuses = status === 'all' ? null : ([] as FundraiserStatus[]).concat(status);
+  const scores = q ? searchIndexFor(fundraisers).search(q) : null;
+  const sort = query.sort ?? (scores ? 'relevance' : 'newest');
+  const min = minGoal !== undefined ? parseUsdc(minGoal) : null;
+  const max = maxGoal !== undefined ? parseUsdc(maxGoal) : null;
+  const endsBefore = endsWithinDays !== undefined ? now.getTime() + endsWithinDays * DAY_MS : null;
+
+  const compare = (a: Fundraiser, b: Fundraiser) =>
+    (sort === 'relevance'
+      ? (scores?.get(b.id) ?? 0) - (scores?.get(a.id) ?? 0) || compareFundraisers.newest(a, b)
+      : compareFundraisers[sort](a, b)) || a.id - b.id;
+
+  const matching = fundraisers
+    .filter(fundraiser => !exclude?.(fundraiser))
+    .filter(fundraiser => !statuses || statuses.includes(fundraiser.status))
+    .filter(fundraiser => !owner || fundraiser.owner.toLowerCase() === owner.toLowerCase())
+    .filter(fundraiser => !category || fundraiserMetadata(fundraiser).category === category)
+    .filter(fundraiser => !tag || fundraiserMetadata(fundraiser).tags.includes(tag))
+    .filter(fundraiser => !scores || scores.has(fundraiser.id))
+    .filter(fundraiser => (min === null || fundraiser.goal >= min) && (max === null || fundraiser.goal <= max))
+    .filter(
+      fundraiser =>
+        endsBefore === null || (acceptsDonations(fundraiser, now) && fundraiser.endDate.getTime() <= endsBefore)
+    )
+    .sort(compare);
+
+  const size = Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE);
+  let start = (Math.max(page, 1) - 1) * size;
+  if (cursor !== undefined) {
+    // The cursor is the id of the last fundraiser already shown; continuing after its sort
+    // position keeps pages from shifting when fundraisers are created between requests
+    const last = fundraisers.find(fundraiser => fundraiser.id === Number(cursor));
+    const next = last ? matching.findIndex(fundraiser => compare(fundraiser, last) > 0) : -1;
+    start = next === -1 ? matching.length : next;
+  }
+
+  const items = matching.slice(start, start + size);
+  return {
+    items: items.map(toFundraiserJson),
+    total: matching.length,
+    page: Math.floor(start / size) + 1,
+    pageSize: size,
+    nextCursor: start + size < matching.length ? String(items[items.length - 1].id) : null,
+  };
+};
+
+// Counts per category and the most used tags, over the fundraisers that are listed
+export const fundraiserFacets = (
+  fundraisers: Fundraiser[],
+  { exclude }: Pick<QueryOptions, 'exclude'> = {}
+): FundraiserFacetsResponse => {
+  const categories = CATEGORY_KEYS.reduce(
+    (counts, key) => ({ ...counts, [key]: 0 }),
+    {} as Record<FundraiserCategory, number>
+  );
+  const tags = new Map<string, number>();
+  fundraisers
+    .filter(fundraiser => !exclude?.(fundraiser))
+    .forEach(fundraiser => {
+      const metadata = fundraiserMetadata(fundraiser);
+      if (metadata.category) categories[metadata.category] += 1;
+      metadata.tags.forEach(tag => tags.set(tag, (tags.get(tag) ?? 0) + 1));
+    });
+
+  return {
+    categories,
+    tags: Array.from(tags, ([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, MAX_FACET_TAGS),
+  };
+};
+
+const sumAmounts = (items: Array<{ amount: string }>) => items.reduce((total, item) => total + BigInt(item.amount), BigInt(0));
+
+export const getFundraiserDonations = async (fundraiserId: number): Promise<FundraiserDonationsResponse> => {
+  const indexer = getFundraiserIndexer();
+  const donations = (await indexer.getDonations({ fundraiserId })).map(toDonationJson);
+
+  return {
+    fundraiserId,
+    donations,
+    totalDonated: sumAmounts(donations).toString(),
+    donorCount: new Set(donations.map(donation => donation.donor.toLowerCase())).size,
+    indexedThroughBlock: indexer.getStatus().checkpoint?.blockNumber ?? null,
+  };
+};
+
+export const getFundraiserWithdrawals = async (fundraiserId: number): Promise<FundraiserWithdrawalsResponse> => {
+  const indexer = getFundraiserIndexer();
+  const withdrawals = (await indexer.getWithdrawals(fundraiserId)).map(toWithdrawalJson);
+
+  return {
+    fundraiserId,
+    withdrawals,
+    totalWithdrawn: sumAmounts(withdrawals).toString(),
+    indexedThroughBlock: indexer.getStatus().checkpoint?.blockNumber ?? null,
+  };
+};
+
+export const getDonor = async (address: string): Promise<DonorResponse> => {
+  if (!isAddress(address)) {
+    throw new Error(`"${address}" is not a valid address`);
+  }
+
+  const indexer = getFundraiserIndexer();
+  const events = await indexer.getEvents({ names: ['Deposit', 'EmergencyUserWithdrawal'], address });
+  const donations: DonationJson[] = [];
+  const refunds: DonationJson[] = [];
+  events.forEach(event => {
+    if (event.name === 'Deposit') donations.push(toDonationJson(event));
+    if (event.name === 'EmergencyUserWithdrawal') refunds.push(toDonationJson(event));
+  });
+
+  const fundraiserIds = Array.from(new Set([...donations, ...refunds].map(item => item.fundraiserId))).sort(
+    (a, b) => a - b
+  );
+
+  return {
+    address,
+    donations,
+    refunds,
+    contributions: fundraiserIds.map(fundraiserId => ({
+      fundraiserId,
+      donated: sumAmounts(donations.filter(item => item.fundraiserId === fundraiserId)).toString(),
+      refunded: sumAmounts(refunds.filter(item => item.fundraiserId === fundraiserId)).toString(),
+    })),
+    totalDonated: sumAmounts(donations).toString(),
+    indexedThroughBlock: indexer.getStatus().checkpoint?.blockNumber ?? null,
+  };
+};
+
+// Everything only the contract owner can trigger
+const AUDITED_EVENTS: AuditedEventName[] = [...ADMIN_EVENTS, 'YieldDistributed', 'ContentAdded'];
+
+const isAudited = (event: IndexedEvent): event is IndexedEvent & { name: AuditedEventName } =>
+  (AUDITED_EVENTS as string[]).includes(event.name);
+
+export const getAuditLog = async (): Promise<AuditLogResponse> => {
+  const indexer = getFundraiserIndexer();
+  const events = await indexer.getEvents({ names: AUDITED_EVENTS });
+
+  return {
+    entries: events.filter(isAudited).map(toAuditEntryJson).reverse(),
+    indexedThroughBlock: indexer.getStatus().checkpoint?.blockNumber ?? null,
+  };
+};
+
+const YIELD_EVENTS: YieldEventName[] = ['YieldDistributed', 'AaveWithdrawal', 'AaveWithdrawalFailed', 'EmergencyAaveWithdrawal'];
+
+const isYieldEvent = (event: IndexedEvent): event is IndexedEvent & { name: YieldEventName } =>
+  (YIELD_EVENTS as string[]).includes(event.name);
+
+export const getYieldReport = async (): Promise<YieldReportResponse> => {
+  const history = getYieldHistory();
+  const indexer = getFundraiserIndexer();
+  const [current, snapshots, events] = await Promise.all([
+    history.getCurrent(),
+    history.getSnapshots(),
+    indexer.getEvents({ names: YIELD_EVENTS }),
+  ]);
+  const yieldEvents = events.filter(isYieldEvent).map(toYieldEventJson).reverse();
+
+  return {
+    current: current && toYieldSnapshotJson(current),
+    history: snapshots.map(toYieldSnapshotJson),
+    events: yieldEvents,
+    totalDistributed: sumAmounts(yieldEvents.filter(event => event.name === 'YieldDistributed')).toString(),
+    indexedThroughBlock: indexer.getStatus().checkpoint?.blockNumber ?? null,
+  };
+};
@@ -0,0 +1,64 @@
+// Server-only: Humanity Protocol's credential verification API. The API key stays on
+// the server; browsers go through /api/verify.
+
+import { credentialSubjectAddress } from './verification';
+
+const DEFAULT_VERIFY_URL = 'https://issuer.humanity.org/credentials/verify';
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+export interface HumanityVerification {
+  isValid: boolean;
+  message: string;
+  // subject_address from the response, when Humanity includes it
+  subjectAddress: string | null;
+}
+
+export const humanityVerifyUrl = () =>
+  process.env.HUMANITY_VERIFY_URL || process.env.NEXT_PUBLIC_API_VERIFY_VC || DEFAULT_VERIFY_URL;
+
+// Only the fields the app relies on; anything else in the response is dropped
+const parseVerification = (body: unknown): HumanityVerification => {
+  const data = body as { isValid?: unknown; message?: unknown } | null;
+  if (!data || typeof data !== 'object' || typeof data.isValid !== 'boolean') {
+    throw new Error('Humanity returned an unexpected verification response');
+  }
+  return {
+    isValid: data.isValid,
+    message:
+      typeof data.message === 'string' && data.message
+        ? data.message
+        : data.isValid
+          ? 'Credential verified'
+          : 'Credential could not be verified',
+    subjectAddress: credentialSubjectAddress(data),
+  };
+};
+
+// Throws when the API is unreachable, misconfigured or answers with something unexpected;
+// an invalid credential is a normal result with isValid false
+export const verifyWithHumanity = async (vc: unknown): Promise<HumanityVerification> => {
+  const apiKey = process.env.HUMANITY_API_KEY;
+  if (!apiKey) {
+    throw new Error('HUMANITY_API_KEY is not set');
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(humanityVerifyUrl(), {
+      method: 'POST',
+      headers: { 'X-API-Token': apiKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify(vc),
+      signal: controller.signal,
+    });
+    const body = await response.json().catch(() => null);
+    // Humanity answers a rejected credential with a 4xx and the usual body
+    if (!response.ok && typeof body?.isValid !== 'boolean') {
+      throw new Error(`Humanity verification failed with status ${response.status}`);
+    }
+    return parseVerification(body);
+  } finally {
+    clearTimeout(timeout);
+  }
+};
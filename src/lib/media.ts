@@ -0,0 +1,39 @@
+// ============================
+//   Fundraiser media
+// ============================
+//
+// Uploads are re-encoded to WebP at a few widths and stored under the SHA-256 of the
+// original file, so a URL always points at the same bytes and can be cached forever.
+
+export const MEDIA_WIDTHS = [320, 640, 1280];
+
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+
+// Per signed-in wallet, over a rolling day
+export const MAX_UPLOADS_PER_DAY = 20;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// <sha256>-<width>.webp
+const MEDIA_FILE = /^([0-9a-f]{64})-(\d+)\.webp$/;
+const MEDIA_URL = /^\/api\/media\/([0-9a-f]{64})-(\d+)\.webp$/;
+
+export const mediaFileName = (hash: string, width: number) => `${hash}-${width}.webp`;
+
+export const mediaUrl = (hash: string, width: number) => `/api/media/${mediaFileName(hash, width)}`;
+
+export const parseMediaFileName = (name: string) => {
+  const match = MEDIA_FILE.exec(name);
+  return match ? { hash: match[1], width: Number(match[2]) } : null;
+};
+
+// srcSet for an uploaded image; other URLs have a single size and get none
+export const mediaSrcSet = (url: string, widths: number[] = MEDIA_WIDTHS) => {
+  const match = MEDIA_URL.exec(url);
+  if (!match) return undefined;
+  // The largest variant can be an odd size when the original was narrower than MEDIA_WIDTHS
+  const largest = Number(match[2]);
+  return [...widths.filter(width => width < largest), largest]
+    .map(width => `${mediaUrl(match[1], width)} ${width}w`)
+    .join(', ');
+};
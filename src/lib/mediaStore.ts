@@ -0,0 +1,142 @@
+// Server-only: turns uploads into stripped WebP variants and keeps them on local disk,
+// so media works without any external storage.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import type { MediaUploadResponse } from './fundraiserApi';
+import { MAX_UPLOADS_PER_DAY, MEDIA_WIDTHS, mediaFileName, mediaUrl, parseMediaFileName } from './media';
+
+// .cache/ is gitignored
+const DEFAULT_MEDIA_PATH = path.join(process.cwd(), '.cache', 'media');
+
+// Formats sharp is allowed to decode; checked against the bytes, not the declared type
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+const WEBP_QUALITY = 80;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export const mediaDirectory = () => process.env.MEDIA_STORAGE_PATH || DEFAULT_MEDIA_PATH;
+
+const exists = (filePath: string) =>
+  fs.access(filePath).then(
+    () => true,
+    () => false
+  );
+
+// Standard widths below the original, plus the original width when it is under the largest
+const variantWidths = (originalWidth: number) => {
+  const widths = MEDIA_WIDTHS.filter(width => width <= originalWidth);
+  return originalWidth < MEDIA_WIDTHS[MEDIA_WIDTHS.length - 1] && !widths.includes(originalWidth)
+    ? [...widths, originalWidth]
+    : widths;
+};
+
+// Pixel size after EXIF rotation, or null if the bytes are not an image in an accepted format
+export const inspectImage = async (input: Buffer) => {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    return null;
+  }
+  if (!metadata.format || !ACCEPTED_FORMATS.includes(metadata.format) || !metadata.width || !metadata.height) {
+    return null;
+  }
+  // EXIF orientation 5-8 means the stored pixels are rotated a quarter turn
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return rotated ? { width: metadata.height, height: metadata.width } : { width: metadata.width, height: metadata.height };
+};
+
+// Call inspectImage first; size is what it returned
+export const storeImage = async (
+  input: Buffer,
+  { width, height }: { width: number; height: number }
+): Promise<MediaUploadResponse> => {
+  const hash = createHash('sha256').update(input).digest('hex');
+  const directory = mediaDirectory();
+  await fs.mkdir(directory, { recursive: true });
+
+  const widths = variantWidths(width);
+  for (const variantWidth of widths) {
+    const filePath = path.join(directory, mediaFileName(hash, variantWidth));
+    // Same upload, same files
+    if (await exists(filePath)) continue;
+
+    // rotate() applies the EXIF orientation; sharp drops EXIF and other metadata on output
+    const output = await sharp(input)
+      .rotate()
+      .resize({ width: variantWidth, withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer();
+
+    // Write then rename so a crash mid-write never leaves a truncated file behind
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, output);
+    await fs.rename(tmpPath, filePath);
+  }
+
+  const variants = widths.map(variantWidth => ({ width: variantWidth, url: mediaUrl(hash, variantWidth) }));
+  return { hash, url: variants[variants.length - 1].url, variants, width, height };
+};
+
+// The stored bytes for a variant file name, or null for unknown or malformed names
+export const readMedia = async (name: string) => {
+  if (!parseMediaFileName(name)) return null;
+  try {
+    return await fs.readFile(path.join(mediaDirectory(), name));
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+};
+
+// ============================
+//   Upload quota
+// ============================
+
+// Lowercased address -> upload times (ms) within the last day. Lives next to the variants;
+// readMedia only serves variant file names, so it is never handed out.
+const uploadLogPath = () => path.join(mediaDirectory(), 'uploads.json');
+
+const readUploadLog = async (): Promise<Record<string, number[]>> => {
+  try {
+    return JSON.parse(await fs.readFile(uploadLogPath(), 'utf8'));
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return {};
+    throw err;
+  }
+};
+
+// Read-modify-write of the log, one at a time
+let quotaQueue: Promise<unknown> = Promise.resolve();
+
+// Records an upload for the address; false (and nothing recorded) once it has used
+// MAX_UPLOADS_PER_DAY in the last day
+export const takeUploadQuota = (address: string, now = Date.now()) => {
+  const result = quotaQueue.then(async () => {
+    const log = await readUploadLog();
+    // Drop expired times for everyone while the file is open anyway
+    for (const [owner, times] of Object.entries(log)) {
+      const recent = times.filter(time => now - time < DAY_MS);
+      if (recent.length > 0) log[owner] = recent;
+      else delete log[owner];
+    }
+
+    const key = address.toLowerCase();
+    const recent = log[key] ?? [];
+    if (recent.length >= MAX_UPLOADS_PER_DAY) return false;
+    log[key] = [...recent, now];
+
+    const filePath = uploadLogPath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file behind
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(log));
+    await fs.rename(tmpPath, filePath);
+    return true;
+  });
+  quotaQueue = result.catch(() => undefined);
+  return result;
+};
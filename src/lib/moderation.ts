@@ -0,0 +1,73 @@
+import { getAddress, isAddress } from 'ethers';
+import type { Fundraiser } from './fundraiser';
+import type { ModerationAction, ModerationEntryJson, ModerationEntryRequestBody } from './fundraiserApi';
+import { sameAddress } from './verification';
+
+// ============================
+//   Moderation
+// ============================
+//
+// Moderators keep a denylist of fundraisers and owner wallets, each hidden or flagged with
+// a reason. The contract knows nothing about it: hidden fundraisers still take donations
+// sent to them directly, they are only kept out of the app.
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  hide: 'Hidden',
+  flag: 'Flagged',
+};
+
+export const MAX_REASON_LENGTH = 500;
+
+export interface ModerationVerdict {
+  // The entry hiding the fundraiser, if any
+  hidden: ModerationEntryJson | null;
+  // The entry flagging it; null when it is hidden anyway
+  flagged: ModerationEntryJson | null;
+}
+
+const covers = (entry: ModerationEntryJson, { id, owner }: Pick<Fundraiser, 'id' | 'owner'>) =>
+  entry.fundraiserId === id || (entry.owner !== null && sameAddress(entry.owner, owner));
+
+// Hiding wins over flagging, whether the entry names the fundraiser or its owner
+export const moderationVerdict = (
+  entries: ModerationEntryJson[],
+  fundraiser: Pick<Fundraiser, 'id' | 'owner'>
+): ModerationVerdict => {
+  const matching = entries.filter(entry => covers(entry, fundraiser));
+  const hidden = matching.find(entry => entry.action === 'hide') ?? null;
+  return { hidden, flagged: hidden ? null : matching.find(entry => entry.action === 'flag') ?? null };
+};
+
+export const isHidden = (entries: ModerationEntryJson[], fundraiser: Pick<Fundraiser, 'id' | 'owner'>) =>
+  entries.some(entry => entry.action === 'hide' && covers(entry, fundraiser));
+
+// Throws with a message fit for the user
+export const parseReason = (value: unknown) => {
+  const reason = typeof value === 'string' ? value.trim() : '';
+  if (!reason) throw new Error('Give a reason.');
+  if (reason.length > MAX_REASON_LENGTH) throw new Error(`Keep the reason under ${MAX_REASON_LENGTH} characters.`);
+  return reason;
+};
+
+// Checks a POSTed entry; throws with a message fit for the user
+export const parseModerationEntry = (body: unknown): ModerationEntryRequestBody => {
+  const { fundraiserId, owner, action, reason } = (body ?? {}) as Record<string, unknown>;
+  if (action !== 'hide' && action !== 'flag') {
+    throw new Error('The action must be hide or flag.');
+  }
+  if ((fundraiserId === undefined) === (owner === undefined)) {
+    throw new Error('Name either a fundraiser id or an owner address.');
+  }
+  if (fundraiserId !== undefined && !(typeof fundraiserId === 'number' && Number.isInteger(fundraiserId) && fundraiserId >= 0)) {
+    throw new Error('Fundraiser ids are whole numbers.');
+  }
+  if (owner !== undefined && !(typeof owner === 'string' && isAddress(owner))) {
+    throw new Error('The owner must be a wallet address.');
+  }
+
+  return {
+    ...(fundraiserId !== undefined ? { fundraiserId: fundraiserId as number } : { owner: getAddress(owner as string) }),
+    action,
+    reason: parseReason(reason),
+  };
+};
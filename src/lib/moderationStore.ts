@@ -0,0 +1,202 @@
+// Server-only: the moderation denylist and the reports users filed, kept on local disk.
+// Moderators are the contract owner and the wallets in MODERATOR_ADDRESSES.
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getAuthSession } from './auth';
+import type { Fundraiser } from './fundraiser';
+import type { FundraiserReportJson, ModerationEntryJson, ModerationEntryRequestBody } from './fundraiserApi';
+import { getContractOwner } from './fundraiserRepository';
+import { isHidden } from './moderation';
+import { sameAddress } from './verification';
+
+// .cache/ is gitignored
+const DEFAULT_MODERATION_PATH = path.join(process.cwd(), '.cache', 'moderation.json');
+
+// Oldest reports are dropped beyond this, so a flood of them cannot grow the file forever
+const MAX_REPORTS = 1000;
+
+// Test fundraisers the browse and lend pages used to skip in code, before the denylist
+// existed. They start out hidden so nothing reappears; moderators can lift the entries.
+const LEGACY_HIDDEN_IDS = [0, 1, 2, 3, 4, 5, 6, 16];
+
+interface ModerationSnapshot {
+  entries: ModerationEntryJson[];
+  reports: FundraiserReportJson[];
+  // Set once the legacy entries were added, so lifting one does not bring it back
+  legacySeeded?: boolean;
+}
+
+export interface ModerationStore {
+  getEntries: () => Promise<ModerationEntryJson[]>;
+  // Newest first
+  getReports: () => Promise<FundraiserReportJson[]>;
+  // Replaces any entry for the same fundraiser or owner, and closes the fundraiser's reports
+  addEntry: (entry: ModerationEntryRequestBody, moderator: string) => Promise<ModerationEntryJson>;
+  // false if there was no such entry
+  removeEntry: (id: string) => Promise<boolean>;
+  // A wallet has one report per fundraiser; reporting again replaces the reason
+  addReport: (fundraiserId: number, reason: string, reporter: string) => Promise<FundraiserReportJson>;
+  // false if there was no such report
+  dismissReport: (id: string) => Promise<boolean>;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Adds a hide entry for each legacy id that has no entry yet. Kept in memory until the next
+// change saves the snapshot.
+const seedLegacyEntries = (snapshot: ModerationSnapshot): ModerationSnapshot => {
+  if (snapshot.legacySeeded) return snapshot;
+  const createdAt = now();
+  const seeded = LEGACY_HIDDEN_IDS.filter(id => !snapshot.entries.some(entry => entry.fundraiserId === id)).map(
+    (id): ModerationEntryJson => ({
+      id: `legacy-hidden-${id}`,
+      fundraiserId: id,
+      owner: null,
+      action: 'hide',
+      reason: 'Test fundraiser, hidden since before moderation existed',
+      createdAt,
+      createdBy: 'migration',
+    })
+  );
+  return { ...snapshot, entries: [...seeded, ...snapshot.entries], legacySeeded: true };
+};
+
+const sameTarget = (a: Pick<ModerationEntryJson, 'fundraiserId' | 'owner'>, b: ModerationEntryRequestBody) =>
+  b.fundraiserId !== undefined ? a.fundraiserId === b.fundraiserId : !!a.owner && !!b.owner && sameAddress(a.owner, b.owner);
+
+export const createModerationStore = (filePath: string): ModerationStore => {
+  let snapshotPromise: Promise<ModerationSnapshot> | null = null;
+  // Changes are applied one at a time so concurrent requests do not overwrite each other
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const load = () => {
+    if (!snapshotPromise) {
+      snapshotPromise = fs
+        .readFile(filePath, 'utf8')
+        .then(json => JSON.parse(json) as ModerationSnapshot)
+        .catch(err => {
+          if (err.code === 'ENOENT') return { entries: [], reports: [] };
+          // Try the file again next time instead of caching the failure
+          snapshotPromise = null;
+          throw err;
+        })
+        .then(seedLegacyEntries);
+    }
+    return snapshotPromise;
+  };
+
+  const save = async (snapshot: ModerationSnapshot) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file behind
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(snapshot, null, 2));
+    await fs.rename(tmpPath, filePath);
+  };
+
+  // Runs change against the current snapshot and saves what it returns
+  const update = <T>(change: (snapshot: ModerationSnapshot) => { snapshot: ModerationSnapshot; result: T }) => {
+    const run = writing.then(async () => {
+      const { snapshot, result } = change(await load());
+      await save(snapshot);
+      snapshotPromise = Promise.resolve(snapshot);
+      return result;
+    });
+    writing = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    getEntries: async () => (await load()).entries.slice(),
+    getReports: async () => (await load()).reports.slice().sort((a, b) => b.createdAt - a.createdAt),
+    addEntry: (request, moderator) =>
+      update(({ entries, reports, ...rest }) => {
+        const entry: ModerationEntryJson = {
+          id: randomUUID(),
+          fundraiserId: request.fundraiserId ?? null,
+          owner: request.owner ?? null,
+          action: request.action,
+          reason: request.reason,
+          createdAt: now(),
+          createdBy: moderator,
+        };
+        return {
+          snapshot: {
+            ...rest,
+            entries: [...entries.filter(existing => !sameTarget(existing, request)), entry],
+            reports:
+              request.fundraiserId !== undefined
+                ? reports.filter(report => report.fundraiserId !== request.fundraiserId)
+                : reports,
+          },
+          result: entry,
+        };
+      }),
+    removeEntry: id =>
+      update(snapshot => ({
+        snapshot: { ...snapshot, entries: snapshot.entries.filter(entry => entry.id !== id) },
+        result: snapshot.entries.some(entry => entry.id === id),
+      })),
+    addReport: (fundraiserId, reason, reporter) =>
+      update(({ entries, reports, ...rest }) => {
+        const report: FundraiserReportJson = { id: randomUUID(), fundraiserId, reason, reporter, createdAt: now() };
+        const others = reports.filter(
+          existing => !(existing.fundraiserId === fundraiserId && sameAddress(existing.reporter, reporter))
+        );
+        return { snapshot: { ...rest, entries, reports: [...others, report].slice(-MAX_REPORTS) }, result: report };
+      }),
+    dismissReport: id =>
+      update(snapshot => ({
+        snapshot: { ...snapshot, reports: snapshot.reports.filter(report => report.id !== id) },
+        result: snapshot.reports.some(report => report.id === id),
+      })),
+  };
+};
+
+// Survive Next.js dev hot reloads without two stores writing the same file
+const globalForModeration = globalThis as typeof globalThis & { moderationStore?: ModerationStore };
+
+export const getModerationStore = () => {
+  if (!globalForModeration.moderationStore) {
+    globalForModeration.moderationStore = createModerationStore(process.env.MODERATION_PATH || DEFAULT_MODERATION_PATH);
+  }
+  return globalForModeration.moderationStore;
+};
+
+const moderatorAddresses = () =>
+  (process.env.MODERATOR_ADDRESSES ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+// The contract owner can always moderate; if the owner cannot be read, only the listed wallets can
+export const isModerator = async (address: string) => {
+  if (moderatorAddresses().some(moderator => sameAddress(moderator, address))) return true;
+  try {
+    return sameAddress(await getContractOwner(), address);
+  } catch (err) {
+    console.error('Error reading the contract owner:', err);
+    return false;
+  }
+};
+
+type ModeratorCheck = { moderator: string } | { status: 401 | 403; error: string };
+
+// The signed-in moderator behind an API request, or the status and error to answer with
+export const authorizeModerator = async (req: { cookies: Partial<Record<string, string>> }): Promise<ModeratorCheck> => {
+  const session = getAuthSession(req);
+  if (!session) return { status: 401, error: 'Sign in with a moderator wallet' };
+  if (!(await isModerator(session.address))) return { status: 403, error: 'This wallet is not a moderator' };
+  return { moderator: session.address };
+};
+
+// Who may see a fundraiser's data: everyone, only its signed-in owner (hidden, but the owner
+// may still need to withdraw), or nobody (hidden)
+export const fundraiserVisibility = async (
+  req: { cookies: Partial<Record<string, string>> },
+  fundraiser: Pick<Fundraiser, 'id' | 'owner'>
+): Promise<'public' | 'owner' | 'hidden'> => {
+  if (!isHidden(await getModerationStore().getEntries(), fundraiser)) return 'public';
+  const session = getAuthSession(req);
+  return session && sameAddress(session.address, fundraiser.owner) ? 'owner' : 'hidden';
+};
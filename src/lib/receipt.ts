@@ -0,0 +1,83 @@
+import { DEFAULT_CHAIN_ID, defaultDeployment, explorerTxUrl, getDeployment } from './deployments';
+import { formatUsdc } from './usdc';
+
+// Defaults to the chain the server indexes
+export const transactionUrl = (hash: string, chainId: number = DEFAULT_CHAIN_ID) =>
+  explorerTxUrl(getDeployment(chainId) ?? defaultDeployment, hash);
+
+export interface DonationReceipt {
+  chainId: number;
+  donor: string;
+  fundraiserId: number;
+  fundraiserTitle: string;
+  // USDC base units
+  amount: bigint;
+  // Seconds since epoch
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Self-contained HTML page; the browser's "Save as PDF" turns it into a PDF receipt
+export const renderReceiptHtml = (receipt: DonationReceipt) => {
+  const deployment = getDeployment(receipt.chainId) ?? defaultDeployment;
+  const url = explorerTxUrl(deployment, receipt.transactionHash);
+  const rows: Array<[string, string]> = [
+    ['Fundraiser', `${receipt.fundraiserTitle} (#${receipt.fundraiserId})`],
+    ['Amount', `${formatUsdc(receipt.amount, { maximumFractionDigits: 6 })} USDC`],
+    ['Date', new Date(receipt.timestamp * 1000).toUTCString()],
+    ['Donor', receipt.donor],
+    ['Network', deployment.name],
+    ['Contract', deployment.fundraiser],
+    ['Block', String(receipt.blockNumber)],
+    ['Transaction', receipt.transactionHash],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Helping Hand donation receipt ${escapeHtml(receipt.transactionHash.slice(0, 10))}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 640px; margin: 40px auto; padding: 0 16px; }
+  h1 { color: #166534; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  td { word-break: break-all; }
+  .note { color: #6b7280; font-size: 14px; }
+</style>
+</head>
+<body>
+<h1>Helping Hand</h1>
+<p>Donation receipt</p>
+<table>
+${rows.map(([label, value]) => `  <tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+<p class="note">Verify this donation at <a href="${url}">${escapeHtml(url)}</a>.</p>
+</body>
+</html>`;
+};
+
+export const downloadReceipt = (receipt: DonationReceipt) => {
+  const blob = new Blob([renderReceiptHtml(receipt)], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `helping-hand-receipt-${receipt.transactionHash.slice(0, 10)}.html`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const printReceipt = (receipt: DonationReceipt) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups for this site to print the receipt.');
+  }
+  printWindow.document.write(renderReceiptHtml(receipt));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -0,0 +1,253 @@
+import { JsonRpcProvider, Network } from 'ethers';
+import { DEFAULT_CHAIN_ID, requireDeployment } from './deployments';
+
+export interface EndpointHealth {
+  url: string;
+  // Exponentially weighted averages; latency is null until the first success
+  latencyMs: number | null;
+  errorRate: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError?: string;
+}
+
+export interface RpcPoolOptions {
+  chainId?: number;
+  // Per-request timeout before an endpoint is counted as failed
+  timeoutMs?: number;
+  // Consecutive failures before an endpoint is benched
+  maxConsecutiveFailures?: number;
+  cooldownMs?: number;
+  createProvider?: (url: string) => JsonRpcProvider;
+  now?: () => number;
+}
+
+export interface QuorumOptions {
+  // How many endpoints must return the same value
+  quorum?: number;
+}
+
+// blockTag is set for cross-checked reads, which every endpoint must answer at the same block
+export type RpcCall<T> = (provider: JsonRpcProvider, blockTag?: number) => Promise<T>;
+
+export interface RpcPool {
+  urls: string[];
+  // Healthiest endpoint's provider, for callers that need a plain runner
+  getProvider: () => JsonRpcProvider;
+  // Run on the healthiest endpoint, rotating to the next one on failure
+  read: <T>(call: RpcCall<T>) => Promise<T>;
+  // Run on several endpoints at one block and only resolve once `quorum` of them agree
+  quorumRead: <T>(call: RpcCall<T>, options?: QuorumOptions) => Promise<T>;
+  // Ping every endpoint once so the ranking reflects current conditions
+  probe: () => Promise<EndpointHealth[]>;
+  getHealth: () => EndpointHealth[];
+}
+
+// Weight given to the newest sample in the moving averages
+const SAMPLE_WEIGHT = 0.3;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, url: string) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`RPC request to ${url} timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      err => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+
+// Stable fingerprint for comparing results across endpoints (bigints included)
+const fingerprint = (value: unknown) =>
+  JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? `${v.toString()}n` : v));
+
+const describeError = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+export const createRpcPool = (urls: string[], options: RpcPoolOptions = {}): RpcPool => {
+  if (urls.length === 0) {
+    throw new Error('An RPC pool needs at least one endpoint');
+  }
+
+  const {
+    chainId = DEFAULT_CHAIN_ID,
+    timeoutMs = 8000,
+    maxConsecutiveFailures = 3,
+    cooldownMs = 30_000,
+    now = Date.now,
+  } = options;
+
+  const network = Network.from(chainId);
+  const createProvider =
+    options.createProvider ?? ((url: string) => new JsonRpcProvider(url, network, { staticNetwork: network }));
+
+  const providers = new Map<string, JsonRpcProvider>();
+  const health = new Map<string, EndpointHealth>(
+    urls.map(url => [
+      url,
+      { url, latencyMs: null, errorRate: 0, successes: 0, failures: 0, consecutiveFailures: 0, cooldownUntil: 0 },
+    ])
+  );
+
+  const providerFor = (url: string) => {
+    let provider = providers.get(url);
+    if (!provider) {
+      provider = createProvider(url);
+      providers.set(url, provider);
+    }
+    return provider;
+  };
+
+  const recordSuccess = (url: string, latencyMs: number) => {
+    const entry = health.get(url)!;
+    entry.successes++;
+    entry.consecutiveFailures = 0;
+    entry.cooldownUntil = 0;
+    entry.errorRate = entry.errorRate * (1 - SAMPLE_WEIGHT);
+    entry.latencyMs =
+      entry.latencyMs === null ? latencyMs : entry.latencyMs * (1 - SAMPLE_WEIGHT) + latencyMs * SAMPLE_WEIGHT;
+  };
+
+  const recordFailure = (url: string, err: unknown) => {
+    const entry = health.get(url)!;
+    entry.failures++;
+    entry.consecutiveFailures++;
+    entry.errorRate = entry.errorRate * (1 - SAMPLE_WEIGHT) + SAMPLE_WEIGHT;
+    entry.lastError = describeError(err);
+    if (entry.consecutiveFailures >= maxConsecutiveFailures) {
+      // Back off harder each time the endpoint keeps failing
+      const strikes = entry.consecutiveFailures - maxConsecutiveFailures;
+      entry.cooldownUntil = now() + Math.min(cooldownMs * 2 ** strikes, 10 * cooldownMs);
+    }
+  };
+
+  // Lower is better. Untried endpoints score 0 so they get a chance early on.
+  const score = (entry: EndpointHealth) => (entry.latencyMs ?? 0) * (1 + 4 * entry.errorRate) + entry.errorRate * 1000;
+
+  // Endpoints ordered best-first; benched ones go last rather than being dropped,
+  // so a pool where everything is cooling down still makes an attempt.
+  const ranked = () => {
+    const time = now();
+    return urls
+      .map((url, index) => ({ entry: health.get(url)!, index }))
+      .sort((a, b) => {
+        const aBenched = a.entry.cooldownUntil > time;
+        const bBenched = b.entry.cooldownUntil > time;
+        if (aBenched !== bBenched) return aBenched ? 1 : -1;
+        return score(a.entry) - score(b.entry) || a.index - b.index;
+      })
+      .map(({ entry }) => entry.url);
+  };
+
+  const runOn = async <T>(url: string, call: RpcCall<T>) => {
+    const startedAt = now();
+    try {
+      const value = await withTimeout(call(providerFor(url)), timeoutMs, url);
+      recordSuccess(url, now() - startedAt);
+      return value;
+    } catch (err) {
+      recordFailure(url, err);
+      throw err;
+    }
+  };
+
+  const read = async <T>(call: RpcCall<T>) => {
+    const failures: string[] = [];
+    for (const url of ranked()) {
+      try {
+        return await runOn(url, call);
+      } catch (err) {
+        console.warn(`RPC endpoint ${url} failed, rotating:`, err);
+        failures.push(`${url}: ${describeError(err)}`);
+      }
+    }
+    throw new Error(`All RPC endpoints failed:\n${failures.join('\n')}`);
+  };
+
+  // Warned once per pool rather than on every read
+  let warnedAboutQuorum = false;
+
+  const quorumRead = async <T>(call: RpcCall<T>, { quorum = 2 }: QuorumOptions = {}) => {
+    const order = ranked();
+    const required = Math.min(quorum, order.length);
+    if (required < quorum && !warnedAboutQuorum) {
+      warnedAboutQuorum = true;
+      console.warn(
+        `A quorum of ${quorum} needs ${quorum} RPC endpoints but only ${order.length} ${order.length === 1 ? 'is' : 'are'} configured; cross-checked reads are not cross-checked`
+      );
+    }
+
+    // "latest" moves between requests, so values like amountRaised would disagree for no
+    // real reason. One block behind the head, so endpoints lagging a block still have it.
+    const head = await read(provider => provider.getBlockNumber());
+    const blockTag = Math.max(head - 1, 0);
+
+    const tallies = new Map<string, { value: T; count: number }>();
+    const failures: string[] = [];
+    let next = 0;
+
+    while (next < order.length) {
+      const best = Math.max(0, ...Array.from(tallies.values()).map(tally => tally.count));
+      // Only ask as many extra endpoints as could still complete the quorum
+      const batch = order.slice(next, next + (required - best));
+      next += batch.length;
+
+      const results = await Promise.allSettled(batch.map(url => runOn(url, provider => call(provider, blockTag))));
+      results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+          failures.push(`${batch[i]}: ${describeError(result.reason)}`);
+          return;
+        }
+        const key = fingerprint(result.value);
+        const tally = tallies.get(key) ?? { value: result.value, count: 0 };
+        tally.count++;
+        tallies.set(key, tally);
+      });
+
+      for (const tally of Array.from(tallies.values())) {
+        if (tally.count >= required) return tally.value;
+      }
+    }
+
+    if (tallies.size > 1) {
+      throw new Error(`RPC endpoints disagree (${tallies.size} different answers, needed ${required} matching)`);
+    }
+    throw new Error(`Could not reach ${required} RPC endpoints for a cross-checked read:\n${failures.join('\n')}`);
+  };
+
+  const probe = async () => {
+    await Promise.allSettled(urls.map(url => runOn(url, provider => provider.getBlockNumber())));
+    return getHealth();
+  };
+
+  const getHealth = () => ranked().map(url => ({ ...health.get(url)! }));
+
+  return {
+    urls,
+    getProvider: () => providerFor(ranked()[0]),
+    read,
+    quorumRead,
+    probe,
+    getHealth,
+  };
+};
+
+// One shared read-only pool per deployment; providers are only created on first use
+const pools = new Map<number, RpcPool>();
+
+export const rpcPoolFor = (chainId: number) => {
+  let pool = pools.get(chainId);
+  if (!pool) {
+    pool = createRpcPool(requireDeployment(chainId).rpcUrls, { chainId });
+    pools.set(chainId, pool);
+  }
+  return pool;
+};
+
+// The default deployment's pool, which the server-side API and indexer read from
+export const defaultRpcPool = rpcPoolFor(DEFAULT_CHAIN_ID);
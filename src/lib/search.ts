@@ -0,0 +1,98 @@
+// ============================
+//   Full-text search
+// ============================
+//
+// A small inverted index over fundraiser text. Every word of the query has to match a
+// word of the fundraiser, either exactly or as its beginning ("educ" finds "education"),
+// and matches in the title count more than matches in the story.
+
+// Whitespace, ASCII punctuation and the general / CJK punctuation blocks; letters of any
+// script stay part of their word
+const SEPARATORS = /[\s!-\/:-@\[-`{-~\u00a0-\u00bf\u2000-\u206f\u3000-\u303f]+/;
+// Accents left over after NFKD, so "café" and "cafe" are the same word
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+// Exact matches outrank prefix matches
+const PREFIX_SCORE = 0.5;
+
+export const tokenize = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(COMBINING_MARKS, '')
+    .toLowerCase()
+    .split(SEPARATORS)
+    .filter(Boolean);
+
+export interface SearchField {
+  text: string;
+  // How much a match in this field counts
+  weight: number;
+}
+
+export interface SearchDocument {
+  id: number;
+  fields: SearchField[];
+}
+
+export interface SearchIndex {
+  // Matching ids with their score, higher is better; null when the query has no words
+  search: (query: string) => Map<number, number> | null;
+}
+
+export const createSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  // word -> document id -> summed field weight
+  const postings = new Map<string, Map<number, number>>();
+  documents.forEach(({ id, fields }) =>
+    fields.forEach(({ text, weight }) =>
+      tokenize(text).forEach(word => {
+        let scores = postings.get(word);
+        if (!scores) postings.set(word, (scores = new Map()));
+        scores.set(id, (scores.get(id) ?? 0) + weight);
+      })
+    )
+  );
+  // Sorted, so the words starting with a prefix sit next to each other
+  const vocabulary = Array.from(postings.keys()).sort();
+
+  const wordsStartingWith = (prefix: string) => {
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    const words: string[] = [];
+    for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(prefix); i++) words.push(vocabulary[i]);
+    return words;
+  };
+
+  // Best score per document for one query word
+  const matchWord = (queryWord: string) => {
+    const matches = new Map<number, number>();
+    wordsStartingWith(queryWord).forEach(word => {
+      const factor = word === queryWord ? 1 : PREFIX_SCORE;
+      postings.get(word)!.forEach((weight, id) => {
+        matches.set(id, Math.max(matches.get(id) ?? 0, weight * factor));
+      });
+    });
+    return matches;
+  };
+
+  return {
+    search: query => {
+      const words = Array.from(new Set(tokenize(query)));
+      if (words.length === 0) return null;
+
+      // Every word has to match; the scores add up
+      return words.reduce<Map<number, number> | null>((results, word) => {
+        const next = new Map<number, number>();
+        matchWord(word).forEach((score, id) => {
+          if (!results) next.set(id, score);
+          else if (results.has(id)) next.set(id, results.get(id)! + score);
+        });
+        return next;
+      }, null);
+    },
+  };
+};
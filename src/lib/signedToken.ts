@@ -0,0 +1,63 @@
+// Server-only: stateless signed tokens for cookies. A token is
+// base64url(JSON payload) + "." + base64url(HMAC-SHA256), so the server can trust what it
+// issued without keeping session state. Payloads carry their own expiresAt and the kind of
+// token they are, so one cookie's token is never accepted as another's.
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Without a configured secret, tokens only survive until the server restarts
+let fallbackSecret: Buffer | null = null;
+
+const getSecret = () => {
+  const configured = process.env.SESSION_SECRET;
+  if (configured) return configured;
+  if (!fallbackSecret) {
+    console.warn('SESSION_SECRET is not set; sessions end when the server restarts');
+    fallbackSecret = randomBytes(32);
+  }
+  return fallbackSecret;
+};
+
+export type TokenKind = 'siwe' | 'siwe-nonce' | 'verification';
+
+const sign = (payload: string) => createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+export const signToken = <T extends { expiresAt: number }>(kind: TokenKind, data: T) => {
+  const payload = Buffer.from(JSON.stringify({ ...data, kind })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// The payload of a token (without its kind), or null if it is malformed, tampered with,
+// expired or of another kind. Callers still check the payload's own fields.
+export const readToken = <T extends { expiresAt: number }>(
+  kind: TokenKind,
+  token: string | undefined,
+  now = Date.now()
+): T | null => {
+  if (!token) return null;
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { kind: tokenKind, ...data } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (tokenKind !== kind) return null;
+    return typeof data.expiresAt === 'number' && data.expiresAt > now ? (data as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const tokenCookie = (name: string, token: string, expiresAt: number) =>
+  [
+    `${name}=${token}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${Math.max(0, Math.floor((expiresAt - Date.now()) / 1000))}`,
+    ...(process.env.NODE_ENV === 'production' ? ['Secure'] : []),
+  ].join('; ');
+
+export const clearedCookie = (name: string) => `${name}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
@@ -0,0 +1,95 @@
+import { Contract, type ContractRunner } from 'ethers';
+import { defaultDeployment } from './deployments';
+
+// ============================
+//   USDC unit policy
+// ============================
+//
+// Everywhere in the app USDC amounts are bigints in base units (6 decimals).
+// The FundraiserFactory views report whole USDC, and addFundraiser / recordDonation /
+// withdraw / distributeYield take whole USDC and multiply by 1e6 themselves, so the
+// conversions at the contract boundary live here and nowhere else.
+
+export const USDC_DECIMALS = 6;
+export const USDC_UNIT = BigInt(1_000_000);
+
+// The USDC the default deployment pulls donations from; other chains use their
+// deployment's usdc
+export const USDC_ADDRESS = defaultDeployment.usdc;
+
+// The subset of FiatTokenV2 the app uses
+export const USDC_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 value) returns (bool)',
+  'function transfer(address to, uint256 value) returns (bool)',
+];
+
+export const getUsdcContract = (runner: ContractRunner | null, address: string = USDC_ADDRESS) =>
+  new Contract(address, USDC_ABI, runner);
+
+const ZERO = BigInt(0);
+
+// Whole USDC as reported by the contract views -> base units
+export const fromContractUsdc = (wholeUsdc: bigint) => wholeUsdc * USDC_UNIT;
+
+// Base units -> whole USDC for contract writes. The contract scales the argument by
+// 1e6 itself, so amounts with cents cannot be expressed and are rejected here.
+export const toContractUsdc = (baseUnits: bigint) => {
+  if (baseUnits % USDC_UNIT !== ZERO) {
+    throw new Error('The contract only accepts whole USDC amounts (no cents).');
+  }
+  return baseUnits / USDC_UNIT;
+};
+
+// Parses user input like "12", "12.5" or ".25" into base units.
+// Throws on anything that is not a plain non-negative decimal with at most 6 places.
+export const parseUsdc = (input: string): bigint => {
+  const value = input.trim();
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`"${input}" is not a valid USDC amount.`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > USDC_DECIMALS) {
+    throw new Error(`USDC amounts can have at most ${USDC_DECIMALS} decimal places.`);
+  }
+
+  return BigInt(whole || '0') * USDC_UNIT + BigInt(fraction.padEnd(USDC_DECIMALS, '0'));
+};
+
+export interface FormatUsdcOptions {
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+  // Prefix with "$"
+  symbol?: boolean;
+}
+
+// Formats base units without going through floating point, e.g. 1234500000n -> "$1,234.50".
+// Rounds half up at maximumFractionDigits.
+export const formatUsdc = (
+  baseUnits: bigint,
+  { minimumFractionDigits = 2, maximumFractionDigits = 2, symbol = true }: FormatUsdcOptions = {}
+) => {
+  const maxDigits = Math.min(Math.max(maximumFractionDigits, 0), USDC_DECIMALS);
+  const minDigits = Math.min(Math.max(minimumFractionDigits, 0), maxDigits);
+
+  const negative = baseUnits < ZERO;
+  let amount = negative ? -baseUnits : baseUnits;
+
+  const droppedDigits = USDC_DECIMALS - maxDigits;
+  if (droppedDigits > 0) {
+    const step = BigInt(`1${'0'.repeat(droppedDigits)}`);
+    amount = ((amount + step / BigInt(2)) / step) * step;
+  }
+
+  const whole = (amount / USDC_UNIT).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  let fraction = (amount % USDC_UNIT).toString().padStart(USDC_DECIMALS, '0').slice(0, maxDigits);
+  while (fraction.length > minDigits && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  const sign = negative && amount !== ZERO ? '-' : '';
+  return `${sign}${symbol ? '$' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
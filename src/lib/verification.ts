@@ -0,0 +1,35 @@
+import { getAddress, isAddress } from 'ethers';
+import type { VerificationSessionJson } from './fundraiserApi';
+
+// did:ethr:0x…, or did:ethr:<network>:0x…
+export const DID_ETHR = /^did:ethr:(?:[\w-]+:)?(0x[0-9a-fA-F]{40})$/;
+
+const toAddress = (value: unknown) => {
+  if (typeof value !== 'string') return null;
+  const candidate = DID_ETHR.exec(value)?.[1] ?? value;
+  return isAddress(candidate) ? getAddress(candidate) : null;
+};
+
+// The wallet a verifiable credential was issued to: `subject_address` in Humanity's
+// verification result, or the did:ethr id of the credential subject. Accepts the
+// credential itself or the { credential } wrapper Humanity issues.
+export const credentialSubjectAddress = (vc: unknown): string | null => {
+  const data = vc as any;
+  if (!data || typeof data !== 'object') return null;
+  return (
+    toAddress(data.subject_address) ??
+    toAddress(data.credentialSubject?.id) ??
+    toAddress(data.credential?.credentialSubject?.id) ??
+    null
+  );
+};
+
+export const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Whether the session proves `address` is verified right now
+export const isSessionFor = (
+  session: VerificationSessionJson | null,
+  address: string | undefined,
+  now = Date.now()
+): session is VerificationSessionJson =>
+  !!session && !!address && sameAddress(session.address, address) && session.expiresAt > now;
@@ -0,0 +1,92 @@
+// Server-only: signed, expiring proof that a wallet passed verification, and the
+// eligibility rules evaluated against the claims it carries.
+import { getAddress, isAddress } from 'ethers';
+import type { GetServerSideProps } from 'next';
+import type { VerificationSessionJson } from './fundraiserApi';
+import { SignedInProps, requireSignIn } from './auth';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  EligibilityOutcome,
+  EligibilityRule,
+  MISCONFIGURED,
+  askForHelpPath,
+  evaluateEligibility,
+  parseEligibilityRules,
+} from './eligibility';
+import { clearedCookie, readToken, signToken, tokenCookie } from './signedToken';
+import { sameAddress } from './verification';
+
+export const SESSION_COOKIE = 'hh_verification';
+
+export const SESSION_TTL_MS = 24 * 60 * 60_000;
+
+// Nested claims are dropped so the cookie stays small
+const sessionClaims = (claims: Record<string, unknown>) => {
+  const kept: VerificationSessionJson['claims'] = {};
+  Object.entries(claims).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') kept[key] = value;
+  });
+  return kept;
+};
+
+export const createSessionToken = (address: string, claims: Record<string, unknown>, now = Date.now()) => {
+  const session: VerificationSessionJson = {
+    address: getAddress(address),
+    claims: sessionClaims(claims),
+    issuedAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  };
+  return { token: signToken('verification', session), session };
+};
+
+// The session in a token, or null if it is malformed, tampered with or expired
+export const readSessionToken = (token: string | undefined, now = Date.now()) => {
+  const session = readToken<VerificationSessionJson>('verification', token, now);
+  if (!session || !isAddress(session.address) || typeof session.issuedAt !== 'number') return null;
+  // A session without claims proves nothing about eligibility
+  const { claims } = session;
+  if (!claims || typeof claims !== 'object' || Array.isArray(claims)) return null;
+  return session;
+};
+
+export const sessionCookie = (token: string, expiresAt: number) => tokenCookie(SESSION_COOKIE, token, expiresAt);
+
+export const clearedSessionCookie = () => clearedCookie(SESSION_COOKIE);
+
+let parsedRules: { spec: string; rules: EligibilityRule[] | null } | null = null;
+
+// ELIGIBILITY_RULES: e.g. "kyc,minAge=18,region=US|CA"; read per call so edits apply to
+// existing sessions, and parsed once per value. null when the value cannot be read.
+export const eligibilityRules = () => {
+  const spec = process.env.ELIGIBILITY_RULES ?? DEFAULT_ELIGIBILITY_RULES;
+  if (parsedRules?.spec !== spec) {
+    try {
+      parsedRules = { spec, rules: parseEligibilityRules(spec) };
+    } catch (err) {
+      console.error('ELIGIBILITY_RULES is invalid; no wallet is eligible until it is fixed:', err);
+      parsedRules = { spec, rules: null };
+    }
+  }
+  return parsedRules.rules;
+};
+
+export const sessionEligibility = (session: VerificationSessionJson | null): EligibilityOutcome => {
+  const rules = eligibilityRules();
+  if (session && !rules) return MISCONFIGURED;
+  return evaluateEligibility(session?.claims ?? null, rules ?? []);
+};
+
+// getServerSideProps for pages only eligible wallets may use: sign-in first, then a
+// verification session for the same wallet whose claims pass the rules
+export const requireEligibility: GetServerSideProps<SignedInProps> = async context => {
+  const signedIn = await requireSignIn(context);
+  if (!('props' in signedIn)) return signedIn;
+
+  const { session: auth } = await signedIn.props;
+  const session = readSessionToken(context.req.cookies[SESSION_COOKIE]);
+  const { status } = sessionEligibility(session && sameAddress(session.address, auth.address) ? session : null);
+  if (status !== 'eligible') {
+    return { redirect: { destination: askForHelpPath(status), permanent: false } };
+  }
+  return signedIn;
+};
@@ -0,0 +1,35 @@
+import type { AdminStatus } from './admin';
+
+// ============================
+//   Aave yield accounting
+// ============================
+//
+// FundraiserFactory supplies deposits (minus the emergency reserve) to Aave and tracks
+// the principal as totalDeposited. Whatever aUSDC accrues above that is yield the
+// owner can distribute. All amounts are USDC base units, but getContractStatus reports
+// whole USDC with the fraction dropped, so they are always multiples of USDC_UNIT and
+// yield under 1 USDC reads as 0.
+
+export interface YieldSnapshot {
+  // Seconds since epoch
+  timestamp: number;
+  // USDC supplied to Aave
+  principal: bigint;
+  // getContractStatus only reports the surplus, so this is principal + availableYield.
+  // When accounting is unsafe the real balance is below principal by an unknown amount.
+  aTokenBalance: bigint;
+  availableYield: bigint;
+  contractBalance: bigint;
+  isAaveEnabled: boolean;
+  isAccountingSafe: boolean;
+}
+
+export const toYieldSnapshot = (status: AdminStatus, timestamp: number): YieldSnapshot => ({
+  timestamp,
+  principal: status.totalDeposits,
+  aTokenBalance: status.totalDeposits + status.availableYield,
+  availableYield: status.availableYield,
+  contractBalance: status.contractUsdcBalance,
+  isAaveEnabled: status.isAaveEnabled,
+  isAccountingSafe: status.isAccountingSafe,
+});
@@ -0,0 +1,153 @@
+// Server-only: samples getContractStatus on a timer and keeps the principal / aUSDC
+// history on disk. src/instrumentation.ts starts the sampler when the server boots, so
+// the chart covers the time before anyone opened the page.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { toAdminStatus } from './admin';
+import { createPooledFundraiserReader, type FundraiserReader } from './fundraiserClient';
+import { defaultRpcPool } from './rpcPool';
+import { toYieldSnapshot, type YieldSnapshot } from './yield';
+
+// .cache/ is gitignored
+const DEFAULT_HISTORY_PATH = path.join(process.cwd(), '.cache', 'yield-history.json');
+
+export interface YieldHistoryOptions {
+  // Minimum spacing between stored snapshots
+  intervalMs?: number;
+  // Oldest snapshots are dropped beyond this
+  maxSnapshots?: number;
+  // How long a status read is reused for getCurrent()
+  currentTtlMs?: number;
+}
+
+export interface YieldHistory {
+  // Reads the status now and stores it if the last stored snapshot is older than intervalMs
+  sample: () => Promise<YieldSnapshot>;
+  // Latest status, at most currentTtlMs old; null if the contract has never been reachable
+  getCurrent: () => Promise<YieldSnapshot | null>;
+  // Oldest first
+  getSnapshots: () => Promise<YieldSnapshot[]>;
+  start: () => void;
+  stop: () => void;
+}
+
+const serialize = (snapshots: YieldSnapshot[]) =>
+  JSON.stringify(snapshots, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+
+const deserialize = (json: string): YieldSnapshot[] =>
+  (JSON.parse(json) as any[]).map(item => ({
+    ...item,
+    principal: BigInt(item.principal),
+    aTokenBalance: BigInt(item.aTokenBalance),
+    availableYield: BigInt(item.availableYield),
+    contractBalance: BigInt(item.contractBalance),
+  }));
+
+export const createYieldHistory = (
+  filePath: string,
+  reader: FundraiserReader,
+  { intervalMs = 15 * 60_000, maxSnapshots = 30 * 24 * 4, currentTtlMs = 30_000 }: YieldHistoryOptions = {}
+): YieldHistory => {
+  let snapshotsPromise: Promise<YieldSnapshot[]> | null = null;
+  let latest: YieldSnapshot | null = null;
+  let sampling: Promise<YieldSnapshot> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let polling = false;
+
+  const load = () => {
+    if (!snapshotsPromise) {
+      snapshotsPromise = fs
+        .readFile(filePath, 'utf8')
+        .then(deserialize)
+        .catch(err => {
+          if (err.code === 'ENOENT') return [];
+          // Try the file again next time instead of caching the failure
+          snapshotsPromise = null;
+          throw err;
+        });
+    }
+    return snapshotsPromise;
+  };
+
+  const save = async (snapshots: YieldSnapshot[]) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated file behind
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, serialize(snapshots));
+    await fs.rename(tmpPath, filePath);
+  };
+
+  const runSample = async () => {
+    const status = toAdminStatus(await reader.getContractStatus());
+    const snapshot = toYieldSnapshot(status, Math.floor(Date.now() / 1000));
+    latest = snapshot;
+
+    const snapshots = await load();
+    const last = snapshots[snapshots.length - 1];
+    if (!last || snapshot.timestamp - last.timestamp >= intervalMs / 1000) {
+      snapshots.push(snapshot);
+      snapshots.splice(0, Math.max(0, snapshots.length - maxSnapshots));
+      await save(snapshots);
+    }
+    return snapshot;
+  };
+
+  // Concurrent callers share one read
+  const sample = () => {
+    if (!sampling) {
+      sampling = runSample().finally(() => {
+        sampling = null;
+      });
+    }
+    return sampling;
+  };
+
+  const getCurrent = async () => {
+    if (latest && Date.now() / 1000 - latest.timestamp < currentTtlMs / 1000) return latest;
+    try {
+      return await sample();
+    } catch (err) {
+      console.error('Error reading contract status for yield:', err);
+      return latest;
+    }
+  };
+
+  const poll = () => {
+    sample()
+      .catch(err => console.error('Yield snapshot failed:', err))
+      .finally(() => {
+        if (polling) timer = setTimeout(poll, intervalMs);
+      });
+  };
+
+  return {
+    sample,
+    getCurrent,
+    getSnapshots: async () => (await load()).slice(),
+    start: () => {
+      if (polling) return;
+      polling = true;
+      poll();
+    },
+    stop: () => {
+      polling = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
+
+// Survive Next.js dev hot reloads without starting a second poller
+const globalForYield = globalThis as typeof globalThis & { yieldHistory?: YieldHistory };
+
+export const getYieldHistory = () => {
+  if (!globalForYield.yieldHistory) {
+    const history = createYieldHistory(
+      process.env.YIELD_HISTORY_PATH || DEFAULT_HISTORY_PATH,
+      createPooledFundraiserReader(defaultRpcPool)
+    );
+    history.start();
+    globalForYield.yieldHistory = history;
+  }
+  return globalForYield.yieldHistory;
+};
@@ -5,6 +5,7 @@ import type { AppProps } from 'next/app';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { WagmiProvider } from 'wagmi';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
+import { AuthProvider } from '@/contexts/AuthContext';
 import { VerificationProvider } from '@/contexts/VerificationContext';
 
 import { config } from '../wagmi';
@@ -13,15 +14,18 @@ const client = new QueryClient();
 
 function MyApp({ Component, pageProps }: AppProps) {
   return (
-    <VerificationProvider>
-      <WagmiProvider config={config}>
-        <QueryClientProvider client={client}>
+    <WagmiProvider config={config}>
+      <QueryClientProvider client={client}>
+        <AuthProvider>
           <RainbowKitProvider>
-            <Component {...pageProps} />
+            {/* Inside wagmi: verification follows the connected account */}
+            <VerificationProvider>
+              <Component {...pageProps} />
+            </VerificationProvider>
           </RainbowKitProvider>
-        </QueryClientProvider>
-      </WagmiProvider>
-    </VerificationProvider>
+        </AuthProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
   );
 }
 
@@ -0,0 +1,491 @@
+import Head from 'next/head';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAccount } from 'wagmi';
+import Link from 'next/link';
+import { isAddress } from 'ethers';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { CircularProgress } from '@mui/material';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { ConfirmActionDialog } from '@/components/ConfirmActionDialog';
+import { useVerification } from '@/contexts/VerificationContext';
+import { useRequireSignIn } from '@/contexts/AuthContext';
+import {
+  AdminAction,
+  AdminStatus,
+  AUDIT_EVENT_LABELS,
+  describeAuditEntry,
+  isSignedInOwner,
+  sendAdminAction,
+  toAdminStatus,
+} from '@/lib/admin';
+import { contentHash, describeContent, encodeContent, normalizeContent, parseContent } from '@/lib/content';
+import { AuditLogResponse, fetchAuditLog } from '@/lib/fundraiserApi';
+import { decodeContractError } from '@/lib/contractErrors';
+import { SignedInProps, requireSignIn } from '@/lib/auth';
+import { transactionUrl } from '@/lib/receipt';
+import { requireDeployment } from '@/lib/deployments';
+import { sameAddress } from '@/lib/verification';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useWalletSigner } from '@/hooks/useWalletSigner';
+import { useContractOwner, useContractStatus } from '@/hooks/useFundraiserContract';
+import { formatUsdc } from '@/lib/usdc';
+
+interface SessionEntry {
+  title: string;
+  summary: string;
+  txHash: string | null;
+  // The chain the transaction was sent on
+  chainId: number;
+  state: 'pending' | 'confirmed' | 'failed';
+  error?: string;
+  at: Date;
+}
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-8)}`;
+
+const StatusItem = ({ label, value, warn }: { label: string; value: string; warn?: boolean }) => (
+  <div>
+    <div className="text-sm text-gray-500">{label}</div>
+    <div className={`font-semibold ${warn ? 'text-red-600' : ''}`}>{value}</div>
+  </div>
+);
+
+// The console is only served to a signed-in wallet; the contract still enforces onlyOwner
+export const getServerSideProps = requireSignIn;
+
+export default function Admin({ session: signedIn }: SignedInProps) {
+  useRequireSignIn();
+  const { isVerified } = useVerification();
+  const { address, isConnected } = useAccount();
+  const { chainId } = useDeployment();
+  const getSigner = useWalletSigner();
+  // Read from the connected chain's deployment and cached; refetched after every action
+  const ownerQuery = useContractOwner();
+  const statusQuery = useContractStatus();
+  const owner = ownerQuery.data ?? null;
+  const status = useMemo<AdminStatus | null>(
+    () => (statusQuery.data ? toAdminStatus(statusQuery.data) : null),
+    [statusQuery.data]
+  );
+  const loading = ownerQuery.isLoading || statusQuery.isLoading;
+  const loadError = ownerQuery.error ?? statusQuery.error;
+  const error = loadError ? decodeContractError(loadError, 'admin').message : '';
+  const [audit, setAudit] = useState<AuditLogResponse | null>(null);
+
+  const [reserve, setReserve] = useState('');
+  const [sweepRecipient, setSweepRecipient] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [registryText, setRegistryText] = useState('');
+  const [formError, setFormError] = useState('');
+
+  const [pending, setPending] = useState<AdminAction | null>(null);
+  const [sending, setSending] = useState(false);
+  const [session, setSession] = useState<SessionEntry[]>([]);
+
+  const isOwner = isSignedInOwner(owner, address, signedIn.address);
+
+  // The audit log comes from the event index and may lag a few blocks behind
+  const loadAudit = useCallback(() => {
+    fetchAuditLog()
+      .then(setAudit)
+      .catch(err => console.error('Error loading the audit log:', err));
+  }, []);
+
+  useEffect(() => {
+    loadAudit();
+  }, [loadAudit]);
+
+  const refresh = async () => {
+    await Promise.all([ownerQuery.refetch(), statusQuery.refetch()]);
+    loadAudit();
+  };
+
+  useEffect(() => {
+    if (status) setReserve(String(status.reservePercentage));
+  }, [status]);
+
+  const ask = (action: AdminAction) => {
+    setFormError('');
+    setPending(action);
+  };
+
+  const updateSession = (at: Date, changes: Partial<SessionEntry>) =>
+    setSession(prev => prev.map(entry => (entry.at === at ? { ...entry, ...changes } : entry)));
+
+  const handleConfirm = async (action: AdminAction) => {
+    const at = new Date();
+    setPending(null);
+    setSending(true);
+    setSession(prev => [
+      { title: action.title, summary: action.summary, txHash: null, chainId, state: 'pending', at },
+      ...prev,
+    ]);
+
+    try {
+      const { fundraiser } = requireDeployment(chainId);
+      await sendAdminAction(action, await getSigner(), fundraiser, txHash => updateSession(at, { txHash }));
+      updateSession(at, { state: 'confirmed' });
+      await refresh();
+    } catch (err) {
+      console.error(`Error running "${action.title}":`, err);
+      updateSession(at, { state: 'failed', error: decodeContractError(err, 'admin').message });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // ============================
+  //   Actions
+  // ============================
+
+  const requestReserve = () => {
+    const percentage = Number(reserve);
+    if (!/^\d+$/.test(reserve.trim()) || percentage > 100) {
+      setFormError('The reserve percentage must be a whole number between 0 and 100.');
+      return;
+    }
+    ask({
+      title: 'Set emergency reserve',
+      summary: `Keep ${percentage}% of deposits out of Aave (currently ${status?.reservePercentage}%).`,
+      send: writer => writer.setEmergencyReservePercentage(percentage),
+    });
+  };
+
+  const requestSweep = () => {
+    if (!isAddress(sweepRecipient)) {
+      setFormError('Enter a valid recipient address for the emergency withdrawal.');
+      return;
+    }
+    ask({
+      title: 'Emergency withdraw all funds',
+      summary: `Pull everything out of Aave and send the contract's entire USDC balance to ${sweepRecipient}. Fundraisers will no longer be able to withdraw.`,
+      danger: true,
+      send: writer => writer.emergencyWithdraw(sweepRecipient),
+    });
+  };
+
+  const requestTransferOwnership = () => {
+    if (!isAddress(newOwner) || (owner && sameAddress(newOwner, owner))) {
+      setFormError('Enter a valid address that is not the current owner.');
+      return;
+    }
+    ask({
+      title: 'Transfer ownership',
+      summary: `Make ${newOwner} the contract owner. This wallet loses every admin permission immediately.`,
+      danger: true,
+      send: writer => writer.transferOwnership(newOwner),
+    });
+  };
+
+  const requestRegisterContent = () => {
+    const raw = registryText.trim();
+    if (!raw) {
+      setFormError('Enter the content to register.');
+      return;
+    }
+    // Content JSON is re-canonicalized so it hashes the same as it would from the create form;
+    // anything else is registered verbatim, like a plain-text subject or description
+    let text = raw;
+    const parsed = parseContent(raw);
+    if (parsed) {
+      try {
+        text = encodeContent(normalizeContent(parsed)).text;
+      } catch (err: any) {
+        setFormError(err.message);
+        return;
+      }
+    }
+    const hash = contentHash(text);
+    ask({
+      title: 'Register content',
+      summary: `Store ${describeContent(text)} in the content registry under ${hash}.`,
+      send: writer => writer.registerContent(hash, text),
+    });
+  };
+
+  const toggles = useMemo<AdminAction[]>(() => {
+    if (!status) return [];
+    return [
+      status.isPaused
+        ? { title: 'Unpause', summary: 'Resume donations, new fundraisers and withdrawals.', send: writer => writer.unpause() }
+        : {
+            title: 'Pause',
+            summary: 'Stop donations, new fundraisers and withdrawals until unpaused.',
+            send: writer => writer.pause(),
+          },
+      {
+        title: status.isAaveEnabled ? 'Disable Aave' : 'Enable Aave',
+        summary: status.isAaveEnabled
+          ? 'Stop depositing new donations into Aave. Existing deposits stay where they are.'
+          : 'Deposit new donations into Aave, minus the emergency reserve.',
+        send: writer => writer.setAaveEnabled(!status.isAaveEnabled),
+      },
+      {
+        title: status.isEmergencyWithdrawalEnabled ? 'Disable emergency withdrawals' : 'Enable emergency withdrawals',
+        summary: status.isEmergencyWithdrawalEnabled
+          ? 'Donors can no longer pull their contributions back while the platform is paused.'
+          : 'Let donors pull their contributions back even while the platform is paused.',
+        send: writer => writer.setEmergencyWithdrawalsEnabled(!status.isEmergencyWithdrawalEnabled),
+      },
+      {
+        title: 'Emergency withdraw from Aave',
+        summary: `Bring all ${formatUsdc(status.totalDeposits)} deposited in Aave back into the contract.`,
+        send: writer => writer.emergencyWithdrawFromAave(),
+      },
+    ];
+  }, [status]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>Admin Console - Helping Hand</title>
+        <meta content="Contract administration for Helping Hand" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8 max-w-4xl">
+        <h1 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-green-800 to-green-500 bg-clip-text text-transparent">
+          Admin Console
+        </h1>
+
+        {!isConnected && (
+          <Card className="p-6 flex flex-col items-center gap-4 text-center">
+            <p className="text-gray-600">Connect the contract owner wallet to manage the platform.</p>
+            <ConnectButton />
+          </Card>
+        )}
+
+        {isConnected && loading && (
+          <div className="flex justify-center py-16">
+            <CircularProgress color="success" />
+          </div>
+        )}
+
+        {isConnected && error && (
+          <div className="p-3 mb-6 bg-red-100 border border-red-400 text-red-700 rounded-md">{error}</div>
+        )}
+
+        {isConnected && !loading && owner && !isOwner && (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600">
+              Only the contract owner ({owner}) can use the admin console. You are connected as {address}.
+            </p>
+          </Card>
+        )}
+
+        {isOwner && status && (
+          <>
+            <Card className="p-6 mb-6">
+              <div className="flex items-baseline justify-between mb-4">
+                <h2 className="text-xl font-semibold">Contract status</h2>
+                <Button variant="outline" size="sm" onClick={refresh} disabled={sending}>
+                  Refresh
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatusItem label="Platform" value={status.isPaused ? 'Paused' : 'Active'} warn={status.isPaused} />
+                <StatusItem label="Aave" value={status.isAaveEnabled ? 'Enabled' : 'Disabled'} />
+                <StatusItem
+                  label="Emergency withdrawals"
+                  value={status.isEmergencyWithdrawalEnabled ? 'Enabled' : 'Disabled'}
+                />
+                <StatusItem label="Reserve" value={`${status.reservePercentage}%`} />
+                <StatusItem label="Deposited in Aave" value={formatUsdc(status.totalDeposits)} />
+                <StatusItem label="Contract balance" value={formatUsdc(status.contractUsdcBalance)} />
+                <StatusItem label="Available yield" value={formatUsdc(status.availableYield)} />
+                <StatusItem
+                  label="Accounting"
+                  value={status.isAccountingSafe ? 'Safe' : 'aUSDC below deposits'}
+                  warn={!status.isAccountingSafe}
+                />
+              </div>
+            </Card>
+
+            <Card className="p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">Actions</h2>
+
+              {formError && (
+                <div className="p-3 mb-4 bg-red-100 border border-red-400 text-red-700 rounded-md">{formError}</div>
+              )}
+
+              <div className="flex flex-wrap gap-2 mb-6">
+                {toggles.map(action => (
+                  <Button key={action.title} variant="outline" onClick={() => ask(action)} disabled={sending}>
+                    {action.title}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="font-semibold mb-2">Emergency reserve</h3>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      value={reserve}
+                      onChange={e => setReserve(e.target.value)}
+                      className="flex-1 p-2 border rounded-md"
+                    />
+                    <Button onClick={requestReserve} disabled={sending}>
+                      Set %
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2">Aave yield</h3>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {formatUsdc(status.availableYield)} available to distribute.
+                  </p>
+                  <Button variant="outline" asChild>
+                    <Link href="/yield">Open yield view</Link>
+                  </Button>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2">Moderation</h3>
+                  <p className="text-sm text-gray-600 mb-2">
+                    Hide or flag fundraisers and owners, and review what users reported.
+                  </p>
+                  <Button variant="outline" asChild>
+                    <Link href="/moderation">Open moderation</Link>
+                  </Button>
+                </div>
+
+                <div className="md:col-span-2">
+                  <h3 className="font-semibold mb-2">Register content</h3>
+                  <p className="text-sm text-gray-600 mb-2">
+                    Content JSON or plain text. It is stored under its keccak256 hash and published in a ContentAdded event.
+                  </p>
+                  <textarea
+                    value={registryText}
+                    onChange={e => setRegistryText(e.target.value)}
+                    rows={3}
+                    className="w-full p-2 border rounded-md font-mono text-sm mb-2"
+                  />
+                  <Button onClick={requestRegisterContent} disabled={sending}>
+                    Register
+                  </Button>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2 text-red-700">Emergency withdraw all funds</h3>
+                  <div className="flex gap-2">
+                    <input
+                      value={sweepRecipient}
+                      onChange={e => setSweepRecipient(e.target.value)}
+                      placeholder="Recipient address"
+                      className="flex-1 p-2 border rounded-md"
+                    />
+                    <Button variant="destructive" onClick={requestSweep} disabled={sending}>
+                      Withdraw
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2 text-red-700">Transfer ownership</h3>
+                  <div className="flex gap-2">
+                    <input
+                      value={newOwner}
+                      onChange={e => setNewOwner(e.target.value)}
+                      placeholder="New owner address"
+                      className="flex-1 p-2 border rounded-md"
+                    />
+                    <Button variant="destructive" onClick={requestTransferOwnership} disabled={sending}>
+                      Transfer
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </Card>
+
+            <Card className="p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">Audit log</h2>
+
+              {session.length > 0 && (
+                <>
+                  <h3 className="font-semibold mb-2">This session</h3>
+                  <ul className="divide-y mb-6">
+                    {session.map(entry => (
+                      <li key={entry.at.getTime()} className="py-2 text-sm">
+                        <div className="flex justify-between gap-2">
+                          <span className="font-medium">{entry.title}</span>
+                          <span
+                            className={
+                              entry.state === 'failed'
+                                ? 'text-red-600'
+                                : entry.state === 'confirmed'
+                                  ? 'text-green-700'
+                                  : 'text-gray-500'
+                            }
+                          >
+                            {entry.state}
+                          </span>
+                        </div>
+                        <div className="text-gray-600">{entry.summary}</div>
+                        {entry.error && <div className="text-red-600">{entry.error}</div>}
+                        {entry.txHash && (
+                          <a
+                            href={transactionUrl(entry.txHash, entry.chainId)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-green-700 hover:underline"
+                          >
+                            {shortHash(entry.txHash)}
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+
+              <h3 className="font-semibold mb-2">On-chain history</h3>
+              {!audit && <p className="text-sm text-gray-500">Loading…</p>}
+              {audit && audit.entries.length === 0 && (
+                <p className="text-sm text-gray-500">No admin actions have been recorded yet.</p>
+              )}
+              {audit && audit.entries.length > 0 && (
+                <ul className="divide-y">
+                  {audit.entries.map(entry => (
+                    <li key={`${entry.transactionHash}-${entry.logIndex}`} className="py-2 text-sm">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium">{AUDIT_EVENT_LABELS[entry.name]}</span>
+                        <span className="text-gray-500">{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+                      </div>
+                      <div className="text-gray-600 break-all">{describeAuditEntry(entry)}</div>
+                      <a
+                        href={transactionUrl(entry.transactionHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-green-700 hover:underline"
+                      >
+                        {shortHash(entry.transactionHash)}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {audit?.indexedThroughBlock != null && (
+                <p className="text-xs text-gray-500 mt-4">Includes actions up to block {audit.indexedThroughBlock}.</p>
+              )}
+            </Card>
+          </>
+        )}
+      </main>
+
+      <ConfirmActionDialog action={pending} onCancel={() => setPending(null)} onConfirm={handleConfirm} />
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, AuditLogResponse } from "@/lib/fundraiserApi";
+import { getAuditLog } from "@/lib/fundraiserRepository";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AuditLogResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    res.setHeader('Cache-Control', 'public, s-maxage=15, stale-while-revalidate=60');
+    res.status(200).json(await getAuditLog());
+  } catch (err) {
+    console.error('Error loading the admin audit log:', err);
+    res.status(500).json({ error: 'Could not load the audit log' });
+  }
+}
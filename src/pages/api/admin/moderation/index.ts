@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, ModerationEntryJson, ModerationQueueResponse } from "@/lib/fundraiserApi";
+import { parseModerationEntry } from "@/lib/moderation";
+import { authorizeModerator, getModerationStore } from "@/lib/moderationStore";
+
+// GET  - the denylist and open reports
+// POST - ModerationEntryRequestBody: hide or flag a fundraiser or owner
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ModerationQueueResponse | ModerationEntryJson | ApiError>,
+) {
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const check = await authorizeModerator(req);
+  if ('error' in check) {
+    return res.status(check.status).json({ error: check.error });
+  }
+
+  const store = getModerationStore();
+  if (req.method === 'GET') {
+    try {
+      const [entries, reports] = await Promise.all([store.getEntries(), store.getReports()]);
+      return res.status(200).json({ entries, reports });
+    } catch (err) {
+      console.error('Error loading the moderation queue:', err);
+      return res.status(500).json({ error: 'Could not load the moderation queue' });
+    }
+  }
+
+  let entry;
+  try {
+    entry = parseModerationEntry(req.body);
+  } catch (err: any) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  try {
+    res.status(200).json(await store.addEntry(entry, check.moderator));
+  } catch (err) {
+    console.error('Error saving a moderation entry:', err);
+    res.status(500).json({ error: 'Could not save the moderation entry' });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, ModerationQueueResponse } from "@/lib/fundraiserApi";
+import { authorizeModerator, getModerationStore } from "@/lib/moderationStore";
+
+// DELETE - dismiss a report without acting on it; answers with the updated queue
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ModerationQueueResponse | ApiError>,
+) {
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', 'DELETE');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const check = await authorizeModerator(req);
+  if ('error' in check) {
+    return res.status(check.status).json({ error: check.error });
+  }
+
+  const { id } = req.query;
+  const store = getModerationStore();
+  try {
+    if (typeof id !== 'string' || !(await store.dismissReport(id))) {
+      return res.status(404).json({ error: 'No such report' });
+    }
+    const [entries, reports] = await Promise.all([store.getEntries(), store.getReports()]);
+    res.status(200).json({ entries, reports });
+  } catch (err) {
+    console.error(`Error dismissing report ${id}:`, err);
+    res.status(500).json({ error: 'Could not dismiss the report' });
+  }
+}
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, AuthNonceResponse } from "@/lib/fundraiserApi";
+import { issueNonce } from "@/lib/auth";
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AuthNonceResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // The nonce is also kept in a signed cookie, so the sign-in can be checked without server state
+  const { nonce, cookie } = issueNonce();
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.setHeader('Set-Cookie', cookie);
+  res.status(200).json({ nonce });
+}
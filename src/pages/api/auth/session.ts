@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, AuthSessionResponse } from "@/lib/fundraiserApi";
+import { authCookies, clearedAuthCookie, expectedDomain, getAuthSession, signInWithEthereum } from "@/lib/auth";
+
+// GET    - the signed-in wallet, if any
+// POST   - { message, signature }: verify a SIWE signature and start a session
+// DELETE - sign out
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AuthSessionResponse | ApiError>,
+) {
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ session: getAuthSession(req) });
+  }
+
+  if (req.method === 'DELETE') {
+    res.setHeader('Set-Cookie', clearedAuthCookie());
+    return res.status(200).json({ session: null });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { message, signature } = (req.body ?? {}) as { message?: unknown; signature?: unknown };
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return res.status(400).json({ error: 'Expected a signed sign-in message' });
+  }
+
+  try {
+    const session = signInWithEthereum(
+      { message, signature },
+      { cookies: req.cookies, domain: expectedDomain(req) }
+    );
+    res.setHeader('Set-Cookie', authCookies(session));
+    res.status(200).json({ session });
+  } catch (err: any) {
+    res.status(401).json({ error: err.message || 'Sign-in failed' });
+  }
+}
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isAddress } from "ethers";
+import type { ApiError, DonorResponse } from "@/lib/fundraiserApi";
+import { getDonor } from "@/lib/fundraiserRepository";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DonorResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { address } = req.query;
+  if (typeof address !== 'string' || !isAddress(address)) {
+    return res.status(400).json({ error: 'A valid wallet address is required' });
+  }
+
+  try {
+    res.setHeader('Cache-Control', 'public, s-maxage=15, stale-while-revalidate=60');
+    res.status(200).json(await getDonor(address));
+  } catch (err) {
+    console.error(`Error loading donations by ${address}:`, err);
+    res.status(500).json({ error: 'Could not load donations' });
+  }
+}
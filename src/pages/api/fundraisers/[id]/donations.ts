@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, FundraiserDonationsResponse } from "@/lib/fundraiserApi";
+import { getFundraiser, getFundraiserDonations } from "@/lib/fundraiserRepository";
+import { fundraiserVisibility } from "@/lib/moderationStore";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FundraiserDonationsResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (typeof id !== 'string' || !/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Fundraiser id must be a non-negative integer' });
+  }
+
+  try {
+    const fundraiser = await getFundraiser(Number(id));
+    if (!fundraiser) {
+      return res.status(404).json({ error: `Fundraiser #${id} does not exist` });
+    }
+    // Like the fundraiser itself, its donations are gone once the moderators hide it; the
+    // signed-in owner still sees them. Either answer depends on the session cookie, so a
+    // shared cache may keep neither.
+    const visibility = await fundraiserVisibility(req, fundraiser);
+    res.setHeader(
+      'Cache-Control',
+      visibility === 'public' ? 'public, s-maxage=15, stale-while-revalidate=60' : 'private, no-store'
+    );
+    if (visibility === 'hidden') {
+      return res.status(410).json({ error: `Fundraiser #${id} was removed by the moderators` });
+    }
+    res.status(200).json(await getFundraiserDonations(Number(id)));
+  } catch (err) {
+    console.error(`Error loading donations for fundraiser #${id}:`, err);
+    res.status(500).json({ error: 'Could not load donations' });
+  }
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ApiError, FundraiserJson, toFundraiserJson } from "@/lib/fundraiserApi";
+import { getFundraiser } from "@/lib/fundraiserRepository";
+import { fundraiserVisibility } from "@/lib/moderationStore";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FundraiserJson | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (typeof id !== 'string' || !/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Fundraiser id must be a non-negative integer' });
+  }
+
+  try {
+    const fundraiser = await getFundraiser(Number(id));
+    if (!fundraiser) {
+      return res.status(404).json({ error: `Fundraiser #${id} does not exist` });
+    }
+    // Hidden fundraisers are still served to their signed-in owner. The answer then depends
+    // on the session cookie, so neither it nor the 410 may be kept by a shared cache.
+    const visibility = await fundraiserVisibility(req, fundraiser);
+    res.setHeader(
+      'Cache-Control',
+      visibility === 'public' ? 'public, s-maxage=15, stale-while-revalidate=60' : 'private, no-store'
+    );
+    if (visibility === 'hidden') {
+      return res.status(410).json({ error: `Fundraiser #${id} was removed by the moderators` });
+    }
+    res.status(200).json(toFundraiserJson(fundraiser));
+  } catch (err) {
+    console.error(`Error loading fundraiser #${id}:`, err);
+    res.status(502).json({ error: 'Could not load the fundraiser from the blockchain' });
+  }
+}
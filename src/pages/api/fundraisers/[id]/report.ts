@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, FundraiserReportJson } from "@/lib/fundraiserApi";
+import { getAuthSession } from "@/lib/auth";
+import { getFundraiser } from "@/lib/fundraiserRepository";
+import { parseReason } from "@/lib/moderation";
+import { getModerationStore } from "@/lib/moderationStore";
+
+// POST - { reason }: report the fundraiser to the moderators; needs a signed-in wallet
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FundraiserReportJson | ApiError>,
+) {
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = getAuthSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'Sign in with your wallet to report a fundraiser' });
+  }
+
+  const { id } = req.query;
+  if (typeof id !== 'string' || !/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Fundraiser id must be a non-negative integer' });
+  }
+
+  let reason: string;
+  try {
+    reason = parseReason((req.body ?? {}).reason);
+  } catch (err: any) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  try {
+    if (!(await getFundraiser(Number(id)))) {
+      return res.status(404).json({ error: `Fundraiser #${id} does not exist` });
+    }
+    res.status(200).json(await getModerationStore().addReport(Number(id), reason, session.address));
+  } catch (err) {
+    console.error(`Error reporting fundraiser #${id}:`, err);
+    res.status(500).json({ error: 'Could not file the report' });
+  }
+}
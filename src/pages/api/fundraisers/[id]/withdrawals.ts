@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, FundraiserWithdrawalsResponse } from "@/lib/fundraiserApi";
+import { getFundraiser, getFundraiserWithdrawals } from "@/lib/fundraiserRepository";
+import { fundraiserVisibility } from "@/lib/moderationStore";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FundraiserWithdrawalsResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (typeof id !== 'string' || !/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Fundraiser id must be a non-negative integer' });
+  }
+
+  try {
+    const fundraiser = await getFundraiser(Number(id));
+    if (!fundraiser) {
+      return res.status(404).json({ error: `Fundraiser #${id} does not exist` });
+    }
+    // Hidden like the fundraiser itself, except for its signed-in owner; neither answer may
+    // be kept by a shared cache
+    const visibility = await fundraiserVisibility(req, fundraiser);
+    res.setHeader(
+      'Cache-Control',
+      visibility === 'public' ? 'public, s-maxage=15, stale-while-revalidate=60' : 'private, no-store'
+    );
+    if (visibility === 'hidden') {
+      return res.status(410).json({ error: `Fundraiser #${id} was removed by the moderators` });
+    }
+    res.status(200).json(await getFundraiserWithdrawals(Number(id)));
+  } catch (err) {
+    console.error(`Error loading withdrawals for fundraiser #${id}:`, err);
+    res.status(500).json({ error: 'Could not load withdrawals' });
+  }
+}
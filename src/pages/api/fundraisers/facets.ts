@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, FundraiserFacetsResponse } from "@/lib/fundraiserApi";
+import { fundraiserFacets, getFundraisers } from "@/lib/fundraiserRepository";
+import { isHidden } from "@/lib/moderation";
+import { getModerationStore } from "@/lib/moderationStore";
+
+// Fundraisers per category and the most used tags, for the category pages and filter chips
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FundraiserFacetsResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const [fundraisers, moderation] = await Promise.all([getFundraisers(), getModerationStore().getEntries()]);
+    res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
+    res.status(200).json(fundraiserFacets(fundraisers, { exclude: fundraiser => isHidden(moderation, fundraiser) }));
+  } catch (err) {
+    console.error('Error loading fundraiser facets:', err);
+    res.status(502).json({ error: 'Could not load fundraisers from the blockchain' });
+  }
+}
@@ -0,0 +1,124 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Fundraiser, FundraiserStatus } from "@/lib/fundraiser";
+import type { ApiError, FundraiserListQuery, FundraiserListResponse, FundraiserSort } from "@/lib/fundraiserApi";
+import { getAuthSession } from "@/lib/auth";
+import { getFundraisers, queryFundraisers } from "@/lib/fundraiserRepository";
+import { parseUsdc } from "@/lib/usdc";
+import { CATEGORY_KEYS, FundraiserCategory, isFundraiserCategory, normalizeTag } from "@/lib/categories";
+import { isHidden } from "@/lib/moderation";
+import { getModerationStore } from "@/lib/moderationStore";
+import { sameAddress } from "@/lib/verification";
+
+const STATUSES: Array<FundraiserStatus | 'all'> = ['all', 'active', 'goalReached', 'ended', 'completed'];
+const SORTS: FundraiserSort[] = ['relevance', 'newest', 'oldest', 'endingSoon', 'goal', 'raised', 'progress', 'closestToGoal'];
+
+const single = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+const parsePositiveInt = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new Error(`"${name}" must be a positive integer`);
+  }
+  return Number(value);
+};
+
+// Kept as typed; checked here so the repository can parse it without failing
+const parseUsdcParam = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  try {
+    parseUsdc(value);
+  } catch {
+    throw new Error(`"${name}" must be a USDC amount`);
+  }
+  return value;
+};
+
+// A single status, 'all', or several statuses separated by commas
+const parseStatus = (value: string | undefined): FundraiserListQuery['status'] => {
+  if (value === undefined) return undefined;
+  if (value === 'all') return value;
+  const statuses = value.split(',') as FundraiserStatus[];
+  if (!statuses.every(status => status as string !== 'all' && STATUSES.includes(status))) {
+    throw new Error(`"status" must be all, or one or more of ${STATUSES.slice(1).join(', ')}`);
+  }
+  return statuses.length === 1 ? statuses[0] : statuses;
+};
+
+const parseQuery = (query: NextApiRequest['query']): FundraiserListQuery => {
+  const sort = single(query.sort);
+  if (sort !== undefined && !SORTS.includes(sort as FundraiserSort)) {
+    throw new Error(`"sort" must be one of ${SORTS.join(', ')}`);
+  }
+
+  const cursor = single(query.cursor);
+  if (cursor !== undefined && !/^\d+$/.test(cursor)) {
+    throw new Error('"cursor" must be the nextCursor of a previous page');
+  }
+
+  const category = single(query.category);
+  if (category !== undefined && !isFundraiserCategory(category)) {
+    throw new Error(`"category" must be one of ${CATEGORY_KEYS.join(', ')}`);
+  }
+
+  // Tags are stored normalized, so "#Clean Water" finds "clean-water"
+  const tag = single(query.tag);
+  if (tag !== undefined && !normalizeTag(tag)) {
+    throw new Error('"tag" must contain letters or digits');
+  }
+
+  const minGoal = parseUsdcParam(single(query.minGoal), 'minGoal');
+  const maxGoal = parseUsdcParam(single(query.maxGoal), 'maxGoal');
+  if (minGoal !== undefined && maxGoal !== undefined && parseUsdc(minGoal) > parseUsdc(maxGoal)) {
+    throw new Error('"minGoal" cannot be above "maxGoal"');
+  }
+
+  return {
+    status: parseStatus(single(query.status)),
+    sort: sort as FundraiserSort | undefined,
+    q: single(query.q),
+    owner: single(query.owner),
+    category: category as FundraiserCategory | undefined,
+    tag: tag !== undefined ? normalizeTag(tag) : undefined,
+    minGoal,
+    maxGoal,
+    endsWithinDays: parsePositiveInt(single(query.endsWithinDays), 'endsWithinDays'),
+    page: parsePositiveInt(single(query.page), 'page'),
+    pageSize: parsePositiveInt(single(query.pageSize), 'pageSize'),
+    cursor,
+  };
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FundraiserListResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let query: FundraiserListQuery;
+  try {
+    query = parseQuery(req.query);
+  } catch (err: any) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  try {
+    const [fundraisers, moderation] = await Promise.all([getFundraisers(), getModerationStore().getEntries()]);
+    // Hidden fundraisers stay listed for their owner, who may still need to withdraw, but
+    // only when the owner filter is the signed-in wallet's own address. Whether it is depends
+    // on the session cookie, so owner listings are never kept by a shared cache.
+    const session = getAuthSession(req);
+    const ownView = !!query.owner && !!session && sameAddress(session.address, query.owner);
+    const exclude = ownView ? undefined : (fundraiser: Fundraiser) => isHidden(moderation, fundraiser);
+    res.setHeader(
+      'Cache-Control',
+      query.owner ? 'private, no-store' : 'public, s-maxage=15, stale-while-revalidate=60'
+    );
+    res.status(200).json(queryFundraisers(fundraisers, query, { exclude }));
+  } catch (err) {
+    console.error('Error loading fundraisers:', err);
+    res.status(502).json({ error: 'Could not load fundraisers from the blockchain' });
+  }
+}
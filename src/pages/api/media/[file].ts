@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError } from "@/lib/fundraiserApi";
+import { readMedia } from "@/lib/mediaStore";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Buffer | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { file } = req.query;
+  if (typeof file !== 'string') {
+    return res.status(400).json({ error: 'Missing file name' });
+  }
+
+  try {
+    const data = await readMedia(file);
+    if (!data) {
+      return res.status(404).json({ error: `No media named ${file}` });
+    }
+    // Names are content hashes, so the bytes behind a URL never change
+    res.setHeader('Content-Type', 'image/webp');
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.status(200).send(data);
+  } catch (err) {
+    console.error(`Error reading media ${file}:`, err);
+    res.status(500).json({ error: 'Could not read the image' });
+  }
+}
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import busboy from "busboy";
+import { getAuthSession } from "@/lib/auth";
+import type { ApiError, MediaUploadResponse } from "@/lib/fundraiserApi";
+import { ACCEPTED_IMAGE_TYPES, MAX_UPLOADS_PER_DAY, MAX_UPLOAD_BYTES } from "@/lib/media";
+import { inspectImage, storeImage, takeUploadQuota } from "@/lib/mediaStore";
+
+// busboy reads the multipart stream itself
+export const config = {
+  api: { bodyParser: false },
+};
+
+type Upload =
+  | { ok: true; data: Buffer; mimeType: string }
+  | { ok: false; status: number; error: string };
+
+// The first file part, buffered up to MAX_UPLOAD_BYTES
+const readUpload = (req: NextApiRequest) =>
+  new Promise<Upload>((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers, limits: { files: 1, fileSize: MAX_UPLOAD_BYTES, fields: 0 } });
+    } catch {
+      // Missing or malformed multipart Content-Type
+      resolve({ ok: false, status: 400, error: 'Send the image as multipart/form-data' });
+      return;
+    }
+
+    let upload: Promise<Upload> | null = null;
+    parser.on('file', (_name, stream, { mimeType }) => {
+      const chunks: Buffer[] = [];
+      upload = new Promise<Upload>((done, fail) => {
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('error', fail);
+        stream.on('end', () =>
+          done(
+            stream.truncated
+              ? { ok: false, status: 413, error: `Images must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB` }
+              : { ok: true, data: Buffer.concat(chunks), mimeType }
+          )
+        );
+      });
+    });
+    parser.on('error', reject);
+    parser.on('close', () => {
+      if (!upload) resolve({ ok: false, status: 400, error: 'No file was uploaded' });
+      else upload.then(resolve, reject);
+    });
+    req.pipe(parser);
+  });
+
+// POST - multipart image: stores it as WebP variants; needs a signed-in wallet, and each
+// wallet gets MAX_UPLOADS_PER_DAY uploads
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<MediaUploadResponse | ApiError>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = getAuthSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'Sign in with your wallet to upload images' });
+  }
+
+  try {
+    const upload = await readUpload(req);
+    if (!upload.ok) {
+      return res.status(upload.status).json({ error: upload.error });
+    }
+
+    // The declared type is only a first filter; the bytes are checked by sharp
+    const size = ACCEPTED_IMAGE_TYPES.includes(upload.mimeType) ? await inspectImage(upload.data) : null;
+    if (!size) {
+      return res.status(415).json({ error: 'Only JPEG, PNG, WebP and GIF images are accepted' });
+    }
+
+    if (!(await takeUploadQuota(session.address))) {
+      return res.status(429).json({ error: `Each wallet can upload ${MAX_UPLOADS_PER_DAY} images a day; try again later` });
+    }
+
+    res.status(201).json(await storeImage(upload.data, size));
+  } catch (err) {
+    console.error('Error storing an uploaded image:', err);
+    res.status(500).json({ error: 'Could not process the image' });
+  }
+}
@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+
+// Offline stand-in for Humanity's /credentials/verify, for development and tests.
+// Point HUMANITY_VERIFY_URL at http://localhost:3000/api/mock/humanity/verify and set
+// HUMANITY_MOCK=1. Any credential with a subject and a proof that has not expired passes;
+// a credentialStatus with revoked: true or a credentialSubject.kyc other than "passed" fails.
+
+type MockResponse = { isValid: boolean; message: string } | { error: string };
+
+const checkCredential = (credential: any): { isValid: boolean; message: string } => {
+  if (!credential || typeof credential !== 'object') {
+    return { isValid: false, message: 'Missing credential' };
+  }
+  const types: unknown = credential.type;
+  if (!Array.isArray(types) || !types.includes('VerifiableCredential')) {
+    return { isValid: false, message: 'Not a verifiable credential' };
+  }
+  if (!credential.credentialSubject || !credential.proof) {
+    return { isValid: false, message: 'Credential has no subject or proof' };
+  }
+  // validUntil in VC 2.0, expirationDate in VC 1.1
+  const expiry = credential.validUntil || credential.expirationDate;
+  if (expiry && Date.parse(expiry) < Date.now()) {
+    return { isValid: false, message: 'Credential has expired' };
+  }
+  if (credential.credentialStatus?.revoked === true) {
+    return { isValid: false, message: 'Credential has been revoked' };
+  }
+  if (credential.credentialSubject.kyc !== undefined && credential.credentialSubject.kyc !== 'passed') {
+    return { isValid: false, message: 'KYC not passed' };
+  }
+  return { isValid: true, message: 'Credential verified (mock)' };
+};
+
+export default function handler(req: NextApiRequest, res: NextApiResponse<MockResponse>) {
+  if (process.env.HUMANITY_MOCK !== '1') {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!req.headers['x-api-token']) {
+    return res.status(401).json({ error: 'Missing X-API-Token' });
+  }
+
+  // The sample file wraps the credential as { credential: {...} }
+  const body = req.body ?? {};
+  const result = checkCredential(body.credential ?? body);
+  res.status(result.isValid ? 200 : 400).json(result);
+}
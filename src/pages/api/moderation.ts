@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ApiError, ModerationListResponse } from "@/lib/fundraiserApi";
+import { getModerationStore } from "@/lib/moderationStore";
+
+// The denylist pages check fundraisers they read from the chain against
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ModerationListResponse | ApiError>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const entries = await getModerationStore().getEntries();
+    res.setHeader('Cache-Control', 'public, s-maxage=15, stale-while-revalidate=60');
+    res.status(200).json({ entries });
+  } catch (err) {
+    console.error('Error loading the moderation list:', err);
+    res.status(500).json({ error: 'Could not load the moderation list' });
+  }
+}
@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isAddress } from "ethers";
+import type { ApiError, VerificationStatusResponse, VerifyResponse } from "@/lib/fundraiserApi";
+import { getAuthSession } from "@/lib/auth";
+import { describeReport } from "@/lib/credentials";
+import { UNVERIFIED } from "@/lib/eligibility";
+import { verifyCredentialInput } from "@/lib/credentialVerifier";
+import { sameAddress } from "@/lib/verification";
+import {
+  SESSION_COOKIE,
+  clearedSessionCookie,
+  createSessionToken,
+  readSessionToken,
+  sessionCookie,
+  sessionEligibility,
+} from "@/lib/verificationSession";
+
+// GET    - the current session from the cookie, if it is still valid, and what it is
+//          eligible for
+// POST   - { address, credential }: check the credential (format, issuer, expiry, claims,
+//          proof) and start a session for address, which has to be the wallet signed in
+//          with SIWE. The response carries the report of every check.
+// DELETE - end the session
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<VerifyResponse | VerificationStatusResponse | ApiError>,
+) {
+  // Sessions are per browser
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  if (req.method === 'GET') {
+    const session = readSessionToken(req.cookies[SESSION_COOKIE]);
+    return res.status(200).json({ session, eligibility: sessionEligibility(session) });
+  }
+
+  if (req.method === 'DELETE') {
+    res.setHeader('Set-Cookie', clearedSessionCookie());
+    return res.status(200).json({ session: null, eligibility: UNVERIFIED });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { address, credential } = (req.body ?? {}) as { address?: unknown; credential?: unknown };
+  if (typeof address !== 'string' || !isAddress(address)) {
+    return res.status(400).json({ error: 'Connect a wallet before verifying' });
+  }
+  const signedIn = getAuthSession(req);
+  if (!signedIn || !sameAddress(signedIn.address, address)) {
+    return res.status(401).json({ error: 'Sign in with this wallet before verifying' });
+  }
+  if (!credential || (typeof credential !== 'object' && typeof credential !== 'string')) {
+    return res.status(400).json({ error: 'The credential file must contain a JSON object or a JWT' });
+  }
+
+  try {
+    const report = await verifyCredentialInput(credential, { subject: address });
+    if (!report.isValid) {
+      return res
+        .status(200)
+        .json({ isValid: false, message: describeReport(report), report, session: null, eligibility: UNVERIFIED });
+    }
+
+    const { token, session } = createSessionToken(address, report.claims);
+    res.setHeader('Set-Cookie', sessionCookie(token, session.expiresAt));
+    res.status(200).json({
+      isValid: true,
+      message: describeReport(report),
+      report,
+      session,
+      eligibility: sessionEligibility(session),
+    });
+  } catch (err) {
+    console.error('Error verifying a credential:', err);
+    res.status(502).json({ error: 'The verification service is unavailable. Please try again later.' });
+  }
+}
@@ -1,12 +1,32 @@
 import Head from 'next/head';
 import Navbar from '../components/Navbar';
 import { useEffect, useState } from 'react';
-import { BrowserProvider, Contract } from 'ethers';
-import { useRouter } from 'next/router';
-import contractABI from '../contractABI.json';
-
-const CONTRACT_ADDRESS = '0x308A7629a5C39f9073D4617A4e95A205d4474E07';
-const MAX_FUNDRAISERS = 50;
+import Router, { useRouter } from 'next/router';
+import {
+  FUNDRAISER_STATUS_LABELS,
+  FundraiserStatus,
+  fundraiserImage,
+  fundraiserStory,
+  fundraiserTitle,
+  progressPercent,
+} from '@/lib/fundraiser';
+import type { FundraiserSort } from '@/lib/fundraiserApi';
+import {
+  EMPTY_FILTERS,
+  FundraiserFilters,
+  filterErrors,
+  filtersFromQuery,
+  filtersToListQuery,
+  filtersToQuery,
+  sameQuery,
+} from '@/lib/fundraiserFilters';
+import { mediaSrcSet } from '@/lib/media';
+import { formatUsdc } from '@/lib/usdc';
+import { useFundraiserListing } from '@/hooks/useFundraiserListing';
+import { useModeration } from '@/hooks/useModeration';
+import { LoadMore } from '@/components/LoadMore';
+import { FundraiserFilterChips } from '@/components/FundraiserFilterChips';
+import { FundraiserMetadata } from '@/components/FundraiserMetadata';
 
 const FUNDRAISER_IMAGES = [
   '/image 1.svg', // For fundraiser with ID 6
@@ -20,86 +40,76 @@ const FUNDRAISER_IMAGES = [
   '/image 9.svg'
 ];
 
-type FilterType = 'all' | 'active' | 'completed';
+const SORT_OPTIONS: Array<{ value: FundraiserSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'endingSoon', label: 'Ending soon' },
+  { value: 'raised', label: 'Most funded' },
+  { value: 'closestToGoal', label: 'Closest to goal' },
+];
+
+const ENDS_WITHIN_OPTIONS = [
+  { value: '', label: 'Any time left' },
+  { value: '1', label: 'Ends within a day' },
+  { value: '7', label: 'Ends within a week' },
+  { value: '30', label: 'Ends within a month' },
+];
+
+const INPUT_CLASS =
+  'px-4 py-2 rounded bg-gray-100 text-black placeholder-gray-500 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-green-400';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
 
-function formatGoal(amount: number) {
-  return Math.round(amount).toLocaleString();
+function formatGoal(amount: bigint) {
+  return formatUsdc(amount, { minimumFractionDigits: 0, maximumFractionDigits: 0, symbol: false });
 }
 
-function formatRaised(amount: number) {
-  if (Number.isInteger(amount)) {
-    return amount.toLocaleString();
-  } else {
-    return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-  }
+function formatRaised(amount: bigint) {
+  return formatUsdc(amount, { minimumFractionDigits: 0, symbol: false });
 }
 
 export default function Browse() {
   const router = useRouter();
   
-  const [fundraisers, setFundraisers] = useState<any[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<FilterType>('all');
+  // What the form shows, and the settled copy the listing and the URL follow
+  const [draft, setDraft] = useState<FundraiserFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<FundraiserFilters | null>(null);
+  const errors = filterErrors(draft);
 
+  // A shared link's search fills the form once the query string is known
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      fetchAllFundraisers();
-    }
-  }, []);
-
-  async function fetchAllFundraisers() {
-    try {
-      if (!window.ethereum) {
-        console.error('MetaMask is not installed.');
-        return;
-      }
-      const provider = new BrowserProvider(window.ethereum);
-      const contract = new Contract(CONTRACT_ADDRESS, contractABI, provider);
-
-      const fetched: any[] = [];
-      for (let i = 0; i < MAX_FUNDRAISERS; i++) {
-        // Skip fundraiser IDs less than 7 or ID equal to 16
-        if (i < 7 || i === 16) continue;
-
-        try {
-          const data = await contract.getFundraiser(i);
-          const ownerAddr = data[0];
-          if (ownerAddr === '0x0000000000000000000000000000000000000000') continue;
-
-          const subject = data[3];
-          const details = data[4];
-          const goal = Number(data[5]) / 1e6;
-          const raised = Number(data[6]) / 1e6;
-
-          fetched.push({
-            id: i,
-            owner: ownerAddr,
-            title: subject || `Fundraiser #${i}`,
-            description: details || 'No description provided',
-            goal,
-            raised
-          });
-        } catch (err) {
-          console.log(`Skipping ID ${i} due to error:`, err);
-        }
-      }
-      setFundraisers(fetched);
-    } catch (err) {
-      console.error('Error fetching fundraisers:', err);
-    }
-  }
+    if (!router.isReady || filters) return;
+    const initial = filtersFromQuery(router.query);
+    setDraft(initial);
+    setFilters(initial);
+  }, [router.isReady, router.query, filters]);
 
-  const searchedFundraisers = fundraisers.filter((f) => {
-    const combined = (f.title + f.description).toLowerCase();
-    return combined.includes(searchTerm.toLowerCase());
-  });
+  // Only a change to the form settles it. The router from useRouter changes with every
+  // replace, so this goes through the singleton instead of depending on it.
+  const ready = filters !== null;
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setTimeout(() => {
+      setFilters(draft);
+      const query = filtersToQuery(draft);
+      // Even a replace with the same URL re-renders the whole app
+      if (sameQuery(query, Router.query)) return;
+      Router.replace({ pathname: Router.pathname, query }, undefined, {
+        shallow: true,
+        scroll: false,
+      });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, ready]);
 
-  let finalFundraisers = searchedFundraisers;
-  if (filterType === 'active') {
-    finalFundraisers = finalFundraisers.filter((f) => f.raised < f.goal);
-  } else if (filterType === 'completed') {
-    finalFundraisers = finalFundraisers.filter((f) => f.raised >= f.goal);
-  }
+  const update = (changes: Partial<FundraiserFilters>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  // Searched, filtered and sorted by the API a page at a time, without the fundraisers
+  // moderators hid; more load as the grid is scrolled
+  const listing = useFundraiserListing(filtersToListQuery(filters ?? EMPTY_FILTERS), { enabled: !!filters });
+  const { fundraisers } = listing;
+  const { verdict } = useModeration();
 
   function handleViewFundraiser(id: number) {
     router.push(`/lend?fundraiserId=${id}`);
@@ -118,42 +128,119 @@ export default function Browse() {
         <div className="max-w-7xl mx-auto px-4 py-8 w-full">
           <div className="text-center mb-8">
             <h1 className="text-3xl font-bold mb-4">Browse Fundraisers</h1>
-            <div className="flex flex-col md:flex-row justify-center items-center gap-4">
+            <div className="flex flex-col md:flex-row justify-center items-center gap-4 mb-4">
               <input
-                type="text"
-                placeholder="Search fundraisers by title..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full md:w-1/2 px-4 py-2 rounded bg-gray-100 text-black placeholder-gray-500 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-green-400"
+                type="search"
+                placeholder="Search fundraisers..."
+                value={draft.q}
+                onChange={(e) => update({ q: e.target.value })}
+                className={`w-full md:w-1/2 ${INPUT_CLASS}`}
               />
 
-              <div>
-                <select
-                  value={filterType}
-                  onChange={(e) => setFilterType(e.target.value as FilterType)}
-                  className="px-4 py-2 rounded bg-gray-100 text-black border border-gray-300 focus:outline-none focus:ring-2 focus:ring-green-400"
-                >
-                  <option value="all">All</option>
-                  <option value="active">Active</option>
-                  <option value="completed">Completed</option>
-                </select>
+              <select
+                value={draft.sort || (draft.q.trim() ? 'relevance' : 'newest')}
+                onChange={(e) => update({ sort: e.target.value as FundraiserSort })}
+                className={INPUT_CLASS}
+              >
+                {draft.q.trim() && <option value="relevance">Best match</option>}
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex flex-wrap justify-center items-start gap-4">
+              <select
+                value={draft.status}
+                onChange={(e) => update({ status: e.target.value as FundraiserFilters['status'] })}
+                className={INPUT_CLASS}
+              >
+                <option value="all">All</option>
+                {(Object.keys(FUNDRAISER_STATUS_LABELS) as FundraiserStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {FUNDRAISER_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                value={draft.endsWithinDays}
+                onChange={(e) => update({ endsWithinDays: e.target.value })}
+                className={INPUT_CLASS}
+              >
+                {ENDS_WITHIN_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+
+              {(['minGoal', 'maxGoal'] as const).map((key) => (
+                <div key={key} className="flex flex-col items-start">
+                  <input
+                    inputMode="decimal"
+                    placeholder={key === 'minGoal' ? 'Min goal (USDC)' : 'Max goal (USDC)'}
+                    value={draft[key]}
+                    onChange={(e) => update({ [key]: e.target.value })}
+                    className={`w-40 ${INPUT_CLASS}`}
+                  />
+                  {errors[key] && <span className="text-xs text-red-400 mt-1">{errors[key]}</span>}
+                </div>
+              ))}
+
+              <div className="flex flex-col items-start">
+                <input
+                  placeholder="Owner address (0x…)"
+                  value={draft.owner}
+                  onChange={(e) => update({ owner: e.target.value })}
+                  className={`w-72 ${INPUT_CLASS}`}
+                />
+                {errors.owner && <span className="text-xs text-red-400 mt-1">{errors.owner}</span>}
               </div>
+
+              <button
+                onClick={() => setDraft(EMPTY_FILTERS)}
+                className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600"
+              >
+                Clear
+              </button>
             </div>
+
+            <FundraiserFilterChips
+              tone="dark"
+              category={draft.category || null}
+              tag={draft.tag || null}
+              onChange={({ category, tag }) => update({ category: category ?? '', tag: tag ?? '' })}
+              className="mt-4"
+            />
+
+            {listing.total !== null && (
+              <p className="text-sm text-gray-400 mt-4">
+                {listing.total} {listing.total === 1 ? 'fundraiser' : 'fundraisers'}
+              </p>
+            )}
           </div>
 
-          {finalFundraisers.length === 0 ? (
+          {listing.isPending ? (
+            <p className="text-center">Loading fundraisers...</p>
+          ) : listing.error && fundraisers.length === 0 ? (
+            <p className="text-center text-red-400">Could not load fundraisers. Please try again later.</p>
+          ) : fundraisers.length === 0 ? (
             <p className="text-center">No fundraisers found.</p>
           ) : (
             <div className="grid w-full grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
-              {finalFundraisers.map((fund) => {
-                const progressRaw = fund.goal > 0 ? (fund.raised / fund.goal) * 100 : 0;
-                const progress = Math.min(progressRaw, 100);
+              {fundraisers.map((fund) => {
+                const progress = progressPercent(fund);
+                const { flagged } = verdict(fund);
                 const imageIndex = fund.id - 7;
-                const imageUrl = FUNDRAISER_IMAGES[imageIndex] || '/images/placeholder.jpg';
+                const imageUrl = fundraiserImage(fund) || FUNDRAISER_IMAGES[imageIndex] || '/images/placeholder.jpg';
 
-                const truncatedDesc = fund.description.length > 200
-                  ? fund.description.slice(0, 200) + '...'
-                  : fund.description;
+                const description = fundraiserStory(fund) || 'No description provided';
+                const truncatedDesc = description.length > 200
+                  ? description.slice(0, 200) + '...'
+                  : description;
 
                 return (
                   <div
@@ -163,12 +250,26 @@ export default function Browse() {
                     <div className="mb-4 h-48 overflow-hidden rounded">
                       <img
                         src={imageUrl}
+                        srcSet={mediaSrcSet(imageUrl)}
+                        sizes="(min-width: 768px) 33vw, (min-width: 640px) 50vw, 100vw"
                         alt={`Fundraiser ${fund.id}`}
                         className="w-full h-full object-cover"
                       />
                     </div>
 
-                    <h2 className="text-xl font-bold mb-2">{fund.title}</h2>
+                    <h2 className="text-xl font-bold mb-2">{fundraiserTitle(fund)}</h2>
+                    <FundraiserMetadata
+                      fundraiser={fund}
+                      tone="dark"
+                      onTagClick={(tag) => update({ tag })}
+                      className="mb-2"
+                    />
+                    {fund.content?.verified === false && (
+                      <p className="text-xs text-amber-400 mb-2">This text does not match what was recorded on-chain.</p>
+                    )}
+                    {flagged && (
+                      <p className="text-xs text-amber-400 mb-2">Flagged by the moderators: {flagged.reason}</p>
+                    )}
                     <p className="text-sm text-gray-300 mb-4 flex-1">
                       {truncatedDesc}
                     </p>
@@ -180,7 +281,7 @@ export default function Browse() {
                       ></div>
                     </div>
                     <p className="text-sm mb-4">
-                      ${formatRaised(fund.raised)} raised of ${formatGoal(fund.goal)} goal
+                      ${formatRaised(fund.amountRaised)} raised of ${formatGoal(fund.goal)} goal
                     </p>
 
                     <button
@@ -194,6 +295,15 @@ export default function Browse() {
               })}
             </div>
           )}
+
+          {!listing.isPending && (
+            <LoadMore
+              hasMore={listing.hasNextPage}
+              loading={listing.isFetchingNextPage}
+              failed={listing.error !== null}
+              onLoadMore={listing.fetchNextPage}
+            />
+          )}
         </div>
       </main>
     </>
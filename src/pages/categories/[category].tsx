@@ -0,0 +1,147 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+import type { GetStaticPaths, GetStaticProps } from 'next';
+import { CircularProgress } from '@mui/material';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { LoadMore } from '@/components/LoadMore';
+import { FundraiserMetadata } from '@/components/FundraiserMetadata';
+import { useVerification } from '@/contexts/VerificationContext';
+import { useFundraiserListing } from '@/hooks/useFundraiserListing';
+import { useModeration } from '@/hooks/useModeration';
+import { CATEGORY_KEYS, FUNDRAISER_CATEGORIES, FundraiserCategory, isFundraiserCategory } from '@/lib/categories';
+import { FUNDRAISER_STATUS_LABELS, fundraiserStory, fundraiserTitle, progressPercent } from '@/lib/fundraiser';
+import { formatUsdc } from '@/lib/usdc';
+
+interface CategoryPageProps {
+  category: FundraiserCategory;
+}
+
+// One page per category, built ahead of time; the fundraisers load in the browser
+export const getStaticPaths: GetStaticPaths = () => ({
+  paths: CATEGORY_KEYS.map(category => ({ params: { category } })),
+  fallback: false,
+});
+
+export const getStaticProps: GetStaticProps<CategoryPageProps> = ({ params }) => {
+  const category = params?.category;
+  if (!isFundraiserCategory(category)) return { notFound: true };
+  return { props: { category } };
+};
+
+export default function CategoryPage({ category }: CategoryPageProps) {
+  const router = useRouter();
+  const { isVerified } = useVerification();
+  const { label, description } = FUNDRAISER_CATEGORIES[category];
+  const [tag, setTag] = useState<string | null>(null);
+
+  // Hidden fundraisers are left out by the API; flagged ones show the moderators' reason
+  const listing = useFundraiserListing({ category, tag: tag ?? undefined });
+  const { verdict } = useModeration();
+  const browseQuery = tag ? { category, tag } : { category };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>{`${label} fundraisers - Helping Hand`}</title>
+        <meta content={description} name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8">
+        <div className="text-center mb-8">
+          <Link href="/categories" className="text-sm text-green-700 hover:underline">
+            All categories
+          </Link>
+          <h1 className="text-4xl font-bold mt-2 mb-2 bg-gradient-to-r from-green-800 to-green-500 bg-clip-text text-transparent">
+            {label}
+          </h1>
+          <p className="text-gray-600">{description}</p>
+          <div className="flex flex-wrap justify-center items-center gap-4 mt-4 text-sm">
+            {listing.total !== null && (
+              <span className="text-gray-500">
+                {listing.total} {listing.total === 1 ? 'fundraiser' : 'fundraisers'}
+              </span>
+            )}
+            {tag && (
+              <Button variant="outline" size="sm" onClick={() => setTag(null)}>
+                #{tag} ✕
+              </Button>
+            )}
+            <Link href={{ pathname: '/browse', query: browseQuery }} className="text-green-700 hover:underline">
+              Search and filter these
+            </Link>
+          </div>
+        </div>
+
+        {listing.isPending && (
+          <div className="flex justify-center py-16">
+            <CircularProgress color="success" />
+          </div>
+        )}
+
+        {!listing.isPending && listing.error && listing.fundraisers.length === 0 && (
+          <Card className="p-6 text-center text-gray-600">Could not load fundraisers. Please try again later.</Card>
+        )}
+
+        {!listing.isPending && !listing.error && listing.fundraisers.length === 0 && (
+          <Card className="p-6 text-center text-gray-600">
+            No {label.toLowerCase()} fundraisers yet.{' '}
+            <Link href="/helpme" className="text-green-700 hover:underline">
+              Ask for help
+            </Link>
+          </Card>
+        )}
+
+        {listing.fundraisers.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {listing.fundraisers.map(fundraiser => {
+              const { flagged } = verdict(fundraiser);
+              const progress = progressPercent(fundraiser);
+              return (
+                <Card
+                  key={fundraiser.id}
+                  className="p-4 flex flex-col cursor-pointer hover:shadow-lg transition-shadow duration-300"
+                  onClick={() => router.push(`/helprequest?helpRequestId=${fundraiser.id}`)}
+                >
+                  <div className="flex justify-between items-baseline gap-2 mb-1">
+                    <h2 className="text-xl font-semibold">{fundraiserTitle(fundraiser)}</h2>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {FUNDRAISER_STATUS_LABELS[fundraiser.status]}
+                    </span>
+                  </div>
+                  <FundraiserMetadata fundraiser={fundraiser} onTagClick={setTag} className="mb-2" />
+                  {flagged && <p className="text-amber-700 text-sm mb-2">Flagged by the moderators: {flagged.reason}</p>}
+                  <p className="text-gray-600 mb-4 line-clamp-3 flex-1">{fundraiserStory(fundraiser)}</p>
+                  <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                    <div className="bg-green-500 h-2 rounded-full" style={{ width: `${progress}%` }} />
+                  </div>
+                  <p className="text-sm text-green-700 font-semibold">
+                    {formatUsdc(fundraiser.amountRaised)} raised of {formatUsdc(fundraiser.goal)}
+                  </p>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {!listing.isPending && (
+          <LoadMore
+            hasMore={listing.hasNextPage}
+            loading={listing.isFetchingNextPage}
+            failed={listing.error !== null}
+            onLoadMore={listing.fetchNextPage}
+          />
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
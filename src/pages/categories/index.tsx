@@ -0,0 +1,49 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { Card } from "@/components/ui/card";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { useVerification } from '@/contexts/VerificationContext';
+import { useFundraiserFacets } from '@/hooks/useFundraiserFacets';
+import { CATEGORY_KEYS, FUNDRAISER_CATEGORIES } from '@/lib/categories';
+
+export default function Categories() {
+  const { isVerified } = useVerification();
+  const facets = useFundraiserFacets();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>Categories - Helping Hand</title>
+        <meta content="Browse fundraisers by category" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8">
+        <h1 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-green-800 to-green-500 bg-clip-text text-transparent">
+          Browse by category
+        </h1>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {CATEGORY_KEYS.map(key => (
+            <Link key={key} href={`/categories/${key}`}>
+              <Card className="p-6 h-full hover:shadow-lg transition-shadow duration-300">
+                <h2 className="text-xl font-semibold mb-2">{FUNDRAISER_CATEGORIES[key].label}</h2>
+                <p className="text-gray-600 text-sm mb-4">{FUNDRAISER_CATEGORIES[key].description}</p>
+                {facets && (
+                  <p className="text-green-700 text-sm font-semibold">
+                    {facets.categories[key]} {facets.categories[key] === 1 ? 'fundraiser' : 'fundraisers'}
+                  </p>
+                )}
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,21 +1,31 @@
 import { useState, useEffect, ChangeEvent } from 'react';
-import { ethers, Contract } from 'ethers';
-import contractABI from './abi.json';
+import { ethers } from 'ethers';
 import { Box, TextField, Typography, Container, Paper, Grid } from '@mui/material';
 import Head from 'next/head';
+import Link from 'next/link';
 import { Button } from "@/components/ui/button";
+import { ApprovalModePicker, DonationProgress } from '@/components/DonationProgress';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
-import { useRouter } from 'next/navigation';
-
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
+import {
+  FundraiserReader,
+  FundraiserWriter,
+  createFundraiserReader,
+  createFundraiserWriter,
+} from '@/lib/fundraiserClient';
+import { getUsdcContract, parseUsdc, toContractUsdc } from '@/lib/usdc';
+import { contractErrorMessage } from '@/lib/contractErrors';
+import { ApprovalMode, approvalAmount, approveUsdc } from '@/lib/donationPipeline';
+import { useAccount } from 'wagmi';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { useDonate } from '@/hooks/useFundraiserContract';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useWalletSigner } from '@/hooks/useWalletSigner';
+import { requireDeployment } from '@/lib/deployments';
 
 const ContractPage = () => {
-  const [contract, setContract] = useState<Contract | null>(null);
+  const [contract, setContract] = useState<FundraiserWriter | null>(null);
+  const [reader, setReader] = useState<FundraiserReader | null>(null);
   
   // Form states
   const [amount, setAmount] = useState('');
@@ -28,39 +38,38 @@ const ContractPage = () => {
   const [error, setError] = useState<string>('');
   const [isVerified, setIsVerified] = useState(false);
 
-  const router = useRouter();
-
-  const [connectedAccount, setConnectedAccount] = useState<string>('');
+  const { address: connectedAccount, isConnected } = useAccount();
+  const { openConnectModal } = useConnectModal();
 
-  const USDC_ADDRESS = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
-  const USDC_ABI = [
-    'function transfer(address to, uint256 value) returns (bool)',
-    'function approve(address spender, uint256 value) returns (bool)',
-    'function balanceOf(address account) view returns (uint256)'
-  ];
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('exact');
+  const donation = useDonate();
+  const { chainId, deployment } = useDeployment();
+  const getSigner = useWalletSigner();
 
-  // Initialize contract instance
+  // Initialize contract instance on the connected chain's deployment, signed by whichever
+  // wallet is connected
   useEffect(() => {
-    const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as string;
-    if (window.ethereum) {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      provider.getSigner().then(signer => {
-        const contractInstance = new Contract(contractAddress, contractABI, signer);
-        setContract(contractInstance);
-      }).catch(err => {
-        console.error('Error getting signer:', err);
-        setError('Failed to initialize contract');
-      });
+    if (!deployment || !isConnected) {
+      setContract(null);
+      setReader(null);
+      return;
     }
-  }, []);
+    getSigner().then(signer => {
+      setContract(createFundraiserWriter(signer, deployment.fundraiser));
+      setReader(createFundraiserReader(signer, deployment.fundraiser));
+    }).catch(err => {
+      console.error('Error getting signer:', err);
+      setError('Failed to initialize contract');
+    });
+  }, [deployment, isConnected, connectedAccount, getSigner]);
 
   const handleCheckAllowance = async () => {
     try {
-      if (!contract) throw new Error('Contract not initialized');
-      const allowance = await contract.checkAllowance();
+      if (!reader) throw new Error('Contract not initialized');
+      const allowance = await reader.checkAllowance();
       setResult(ethers.formatEther(allowance));
     } catch (err: any) {
-      setError(err.message);
+      setError(contractErrorMessage(err));
     }
   };
 
@@ -71,104 +80,69 @@ const ContractPage = () => {
       const receipt = await tx.wait();
       setResult(receipt);
     } catch (err: any) {
-      setError(err.message);
+      setError(contractErrorMessage(err, 'admin'));
     }
   };
 
   const handleGetAmountInBaseUnits = async () => {
     try {
-      if (!contract) throw new Error('Contract not initialized');
-      const result = await contract.getAmountInBaseUnits(ethers.parseEther(amount));
-      setResult(ethers.formatEther(result));
+      if (!reader) throw new Error('Contract not initialized');
+      const result = await reader.getAmountInBaseUnits(toContractUsdc(parseUsdc(amount)));
+      setResult(result.toString());
     } catch (err: any) {
-      setError(err.message);
+      setError(contractErrorMessage(err));
     }
   };
 
   const handleCheckUSDCBalance = async () => {
     try {
-      if (!window.ethereum) throw new Error('No wallet detected');
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
+      const signer = await getSigner();
       const address = await signer.getAddress();
       
-      // Create USDC contract instance
-      const usdcContract = new Contract(USDC_ADDRESS, USDC_ABI, signer);
-      
       // Get balance
-      const balance = await usdcContract.balanceOf(address);
+      const balance = await getUsdcContract(signer, requireDeployment(chainId).usdc).balanceOf(address);
       setResult(`USDC Balance: ${ethers.formatUnits(balance, 6)} USDC`);
       
     } catch (err: any) {
-      setError(err.message);
+      setError(contractErrorMessage(err));
     }
   };
 
-  const handleRecordDonation = async () => {
+  const handleRecordDonation = () => {
     try {
-      if (!contract) throw new Error('Contract not initialized');
       if (!donationAmount || !fundraiserId) {
         throw new Error('Please fill in all donation fields');
       }
-      
-      // Convert amount to USDC's 6 decimal places using BigNumber
-      const amountInUSDC = ethers.getBigInt(
-        Math.floor(parseFloat(donationAmount) * 1_000_000).toString()
-      );
+      const amount = parseUsdc(donationAmount);
+      toContractUsdc(amount);
 
-      // Get the current signer
-      if (!window.ethereum) throw new Error('No wallet detected');
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const address = await signer.getAddress();
-      
-      // Create USDC contract instance
-      const usdcContract = new Contract(USDC_ADDRESS, USDC_ABI, signer);
-      
-      // Check USDC balance
-      const balance = await usdcContract.balanceOf(address);
-      if (balance < amountInUSDC) {
-        throw new Error(`Insufficient USDC balance. You have ${ethers.formatUnits(balance, 6)} USDC but trying to send ${donationAmount} USDC`);
-      }
-      
-      // Create and send the USDC transfer transaction
-      const tx = await usdcContract.transfer(contract.target, amountInUSDC);
-      const receipt = await tx.wait();
-      setResult(receipt);
-      
-      // After successful transfer, record the donation
-      const donationTx = await contract.recordDonation(
-        ethers.getBigInt(fundraiserId),
-        amountInUSDC
-      );
-      const donationReceipt = await donationTx.wait();
-      setResult(donationReceipt);
-      
+      // Balance, allowance, approval, recordDonation and confirmation all happen in the pipeline,
+      // against the connected chain's deployment like everything else on this page
+      donation.start({ fundraiserId: Number(fundraiserId), chainId, amount, approvalMode });
     } catch (err: any) {
-      setError(err.message);
+      setError(contractErrorMessage(err, 'donate'));
     }
   };
 
   const handleApproveUSDC = async () => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      
+      // An exact approval covers the donation amount entered below
+      const amount = approvalMode === 'exact' ? parseUsdc(donationAmount || '0') : BigInt(0);
+      if (approvalMode === 'exact' && amount === BigInt(0)) {
+        throw new Error('Enter a donation amount to approve exactly that much');
+      }
+
       // Get the current signer
-      if (!window.ethereum) throw new Error('No wallet detected');
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      
-      // Create USDC contract instance
-      const usdcContract = new Contract(USDC_ADDRESS, USDC_ABI, signer);
-      
-      // Approve max uint256
-      const maxUint256 = ethers.MaxUint256;
-      const tx = await usdcContract.approve(contract.target, maxUint256);
-      const receipt = await tx.wait();
-      setResult(receipt);
-      
+      const signer = await getSigner();
+
+      const hash = await approveUsdc(signer, approvalAmount(approvalMode, amount), {
+        spender: contract.address,
+        usdcAddress: requireDeployment(chainId).usdc,
+      });
+      setResult(`Approval confirmed: ${hash}`);
     } catch (err: any) {
-      setError(err.message);
+      setError(contractErrorMessage(err, 'approve'));
     }
   };
 
@@ -178,44 +152,28 @@ const ContractPage = () => {
     setter(e.target.value);
   };
 
-  const handleLendAHand = () => {
-    if (!isVerified) {
-      router.push('/verify');
-      return;
-    }
-    router.push('/helprequest');
-  };
-
   const handleOpenWallet = async () => {
     try {
-      if (!window.ethereum) throw new Error('No wallet detected');
-      
-      // Get accounts
-      const accounts = await window.ethereum.request({ method: 'eth_accounts' });
-      if (accounts.length === 0) {
-        // If no account connected, request connection
-        await window.ethereum.request({ method: 'eth_requestAccounts' });
+      // If no account connected, request connection through RainbowKit
+      if (!isConnected) {
+        openConnectModal?.();
+        return;
       }
       
-      // Get current account
-      const currentAccounts = await window.ethereum.request({ method: 'eth_accounts' });
-      setConnectedAccount(currentAccounts[0]);
-      
       // Try to send a test transaction
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
+      const signer = await getSigner();
       
       // Create a simple transaction (0 ETH transfer to self)
       const tx = {
-        to: currentAccounts[0],
+        to: await signer.getAddress(),
         value: "0x0"
       };
       
-      // This will trigger MetaMask
+      // This will trigger the wallet
       await signer.sendTransaction(tx);
       
     } catch (err: any) {
-      setError(err.message);
+      setError(contractErrorMessage(err));
     }
   };
 
@@ -230,12 +188,16 @@ const ContractPage = () => {
         <link href="/favicon.ico" rel="icon" />
       </Head>
 
-      <Navigation isVerified={isVerified} onAskForHelp={handleLendAHand} />
+      <Navigation isVerified={isVerified} />
 
       <Container maxWidth="md" sx={{ py: 4 }}>
         <Typography variant="h4" gutterBottom>
           Smart Contract Interaction
         </Typography>
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          Pausing, Aave, the emergency reserve, yield and ownership are managed in the{' '}
+          <Link href="/admin" className="underline">admin console</Link>.
+        </Typography>
         
         {error && (
           <Paper sx={{ p: 2, mb: 2, bgcolor: '#ffebee' }}>
@@ -261,6 +223,11 @@ const ContractPage = () => {
           <Grid item xs={12} md={6}>
             <Paper sx={{ p: 2 }}>
               <Typography variant="h6" gutterBottom>Record Donation</Typography>
+              <ApprovalModePicker
+                value={approvalMode}
+                onChange={setApprovalMode}
+                className="mb-4"
+              />
               <Button
                 className="w-full mb-4"
                 onClick={handleApproveUSDC}
@@ -293,8 +260,8 @@ const ContractPage = () => {
                 onChange={handleInputChange(setDonationAmount)}
                 sx={{ mb: 2 }}
                 inputProps={{
-                  step: "0.000001",
-                  min: "0"
+                  step: "1",
+                  min: "1"
                 }}
               />
               <Button
@@ -303,6 +270,15 @@ const ContractPage = () => {
               >
                 Record Donation
               </Button>
+              {donation.state && (
+                <DonationProgress
+                  state={donation.state}
+                  onCancel={donation.cancel}
+                  onRetry={donation.retry}
+                  onDismiss={donation.reset}
+                  className="mt-4"
+                />
+              )}
             </Paper>
           </Grid>
 
@@ -342,7 +318,7 @@ const ContractPage = () => {
               <Typography variant="h6" gutterBottom>Get Amount in Base Units</Typography>
               <TextField
                 fullWidth
-                label="Amount (ETH)"
+                label="Amount (USDC)"
                 type="number"
                 value={amount}
                 onChange={handleInputChange(setAmount)}
@@ -0,0 +1,81 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useEffect } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { CircularProgress } from '@mui/material';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { useVerification } from '@/contexts/VerificationContext';
+import { askForHelpPath } from '@/lib/eligibility';
+
+// Explains which eligibility rules the verified credential meets and which it misses
+export default function Eligibility() {
+  const router = useRouter();
+  const { isVerified, isChecking, eligibility } = useVerification();
+
+  // Nothing to explain without a session; eligible wallets go straight on
+  useEffect(() => {
+    if (!isChecking && eligibility.status !== 'ineligible') {
+      router.replace(askForHelpPath(eligibility.status));
+    }
+  }, [isChecking, eligibility.status, router]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>Eligibility - Helping Hand</title>
+        <meta content="Who can ask for help on Helping Hand" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8 max-w-xl">
+        <Card className="p-6 flex flex-col gap-4">
+          <h1 className="text-2xl font-bold">You can&apos;t ask for help yet</h1>
+          {isChecking ? (
+            <div className="flex justify-center">
+              <CircularProgress color="success" />
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-600">{eligibility.reason}</p>
+              <ul className="space-y-2">
+                {eligibility.results.map(result => (
+                  <li key={result.label} className="flex items-start gap-2">
+                    {result.passed ? (
+                      <CheckCircle className="h-5 w-5 text-green-600 shrink-0" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-red-600 shrink-0" />
+                    )}
+                    <div>
+                      <p className="font-medium">{result.label}</p>
+                      <p className="text-sm text-muted-foreground">{result.reason}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-sm text-gray-600">
+                If you hold a credential with the missing claims, verify again with it. You can still donate to any
+                fundraiser.
+              </p>
+              <div className="flex gap-2">
+                <Button asChild>
+                  <Link href="/verify">Verify another credential</Link>
+                </Button>
+                <Button variant="outline" asChild>
+                  <Link href="/lendahand">Lend a Hand</Link>
+                </Button>
+              </div>
+            </>
+          )}
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
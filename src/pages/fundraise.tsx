@@ -1,22 +1,59 @@
 import Head from 'next/head';
 import Navbar from '../components/Navbar';
 import { useState } from 'react';
-import { BrowserProvider, Contract } from 'ethers';
-import contractABI from '../contractABI.json';
-
-const CONTRACT_ADDRESS = '0x308A7629a5C39f9073D4617A4e95A205d4474E07';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCreateFundraiser } from '@/hooks/useFundraiserContract';
+import { parseUsdc, toContractUsdc } from '@/lib/usdc';
+import { contractErrorMessage } from '@/lib/contractErrors';
+import { encodeContent, normalizeContent } from '@/lib/content';
+import { uploadMedia } from '@/lib/fundraiserApi';
+import { ACCEPTED_IMAGE_TYPES, MAX_UPLOAD_BYTES, mediaSrcSet } from '@/lib/media';
 
 export default function Fundraise() {
+  const { createFundraiser } = useCreateFundraiser();
+  // Uploads need a signed-in wallet; pasted URLs do not
+  const { status: authStatus } = useAuth();
+  const { openConnectModal } = useConnectModal();
   // Form fields
   const [fundraiserName, setFundraiserName] = useState('');
   const [fundraiserGoal, setFundraiserGoal] = useState('');
   const [fundraiserStory, setFundraiserStory] = useState('');
   const [fundraiserImage, setFundraiserImage] = useState('');
+  // One URL per line, optional
+  const [fundraiserLinks, setFundraiserLinks] = useState('');
+
+  const [uploading, setUploading] = useState(false);
 
   // For status/error messages
   const [status, setStatus] = useState('');
   const [error, setError] = useState('');
 
+  // Uploads go through /api/media; the returned URL is stored like a pasted one
+  async function handleImageFile(file: File | undefined) {
+    if (!file) return;
+    setError('');
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      setError('Please choose a JPEG, PNG, WebP or GIF image.');
+      return;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setError(`Images must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const media = await uploadMedia(file);
+      setFundraiserImage(media.url);
+    } catch (err: any) {
+      console.error('Error uploading image:', err);
+      setError(err.message || 'Failed to upload the image.');
+    } finally {
+      setUploading(false);
+    }
+  }
+
   // Handler to create fundraiser
   async function handleCreateFundraiser() {
     setStatus('');
@@ -27,43 +64,54 @@ export default function Fundraise() {
       return;
     }
 
+    // The story, image and links go on-chain as canonical JSON in the details string,
+    // so the fundraiser's detailsHash covers all of them
+    let content: ReturnType<typeof encodeContent>;
     try {
-      if (typeof window === 'undefined' || !window.ethereum) {
-        setError('MetaMask not found. Please install it.');
+      content = encodeContent(
+        normalizeContent({
+          title: fundraiserName,
+          story: fundraiserStory,
+          images: [fundraiserImage],
+          links: fundraiserLinks.split('\n').map((url) => ({ label: '', url })),
+        })
+      );
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+
+    try {
+      // The contract takes the goal in whole USDC
+      const goal = parseUsdc(fundraiserGoal);
+      if (toContractUsdc(goal) <= BigInt(0)) {
+        setError('The goal must be at least 1 USDC.');
         return;
       }
 
-      const provider = new BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const contract = new Contract(CONTRACT_ADDRESS, contractABI, signer);
-
-      const goalInMicro = Math.floor(Number(fundraiserGoal) * 1e6);
-
-      setStatus('Creating fundraiser... please confirm the transaction in MetaMask.');
+      setStatus('Creating fundraiser... please confirm the transaction in your wallet.');
 
-      // Example contract call
       const endDate = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60; // 30 days from now
-      const tx = await contract.addFundraiser(
+      const { fundraiserId } = await createFundraiser({
         endDate,
-        fundraiserName,
-        fundraiserStory,
-        goalInMicro
-      );
-
-      await tx.wait();
+        subject: fundraiserName.trim(),
+        details: content.text,
+        goal,
+      });
 
-      setStatus('Fundraiser created successfully!');
+      setStatus(
+        `Fundraiser${fundraiserId === null ? '' : ` #${fundraiserId}`} created successfully! Content hash: ${content.hash}`
+      );
 
       // Clear form
       setFundraiserName('');
       setFundraiserGoal('');
       setFundraiserStory('');
       setFundraiserImage('');
-
-      console.log('Fundraiser image chosen:', fundraiserImage);
+      setFundraiserLinks('');
     } catch (err: any) {
       console.error('Error creating fundraiser:', err);
-      setError(err.message || 'Transaction failed');
+      setError(contractErrorMessage(err, 'createFundraiser'));
     }
   }
 
@@ -197,15 +245,79 @@ export default function Fundraise() {
                 "
                 placeholder="e.g. https://example.com/my-image.jpg"
               />
+              <div className="mt-3 flex items-center gap-3">
+                {authStatus === 'authenticated' ? (
+                  <label className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-md cursor-pointer text-sm">
+                    {uploading ? 'Uploading...' : 'Or upload an image'}
+                    <input
+                      type="file"
+                      accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                      className="hidden"
+                      disabled={uploading}
+                      onChange={(e) => {
+                        handleImageFile(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => openConnectModal?.()}
+                    className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-md text-sm"
+                  >
+                    Sign in to upload an image
+                  </button>
+                )}
+                <span className="text-xs text-gray-400">
+                  JPEG, PNG, WebP or GIF up to {MAX_UPLOAD_BYTES / (1024 * 1024)} MB. Location data is removed.
+                </span>
+              </div>
+              {fundraiserImage.startsWith('/api/media/') && (
+                <img
+                  src={fundraiserImage}
+                  srcSet={mediaSrcSet(fundraiserImage)}
+                  sizes="(min-width: 768px) 48rem, 100vw"
+                  alt="Uploaded fundraiser image"
+                  className="mt-3 max-h-48 rounded object-cover"
+                />
+              )}
+            </div>
+
+            {/* Fundraiser Links */}
+            <div className="mb-6">
+              <label className="block mb-2 font-semibold text-gray-200">Links (optional, one per line)</label>
+              <textarea
+                value={fundraiserLinks}
+                onChange={(e) => setFundraiserLinks(e.target.value)}
+                className="
+                  w-full
+                  px-4
+                  py-2
+                  rounded
+                  bg-white
+                  text-black
+                  placeholder-gray-500
+                  border
+                  border-gray-300
+                  focus:outline-none
+                  focus:ring-2
+                  focus:ring-green-400
+                  focus:border-transparent
+                "
+                rows={3}
+                placeholder="e.g. https://example.com/medical-estimate.pdf"
+              />
             </div>
 
             {/* Display any error/status messages */}
             {error && <p className="text-red-400 mb-4">{error}</p>}
-            {status && <p className="text-green-400 mb-4">{status}</p>}
+            {status && <p className="text-green-400 mb-4 break-all">{status}</p>}
 
             <div className="text-center">
               <button
                 onClick={handleCreateFundraiser}
+                disabled={uploading}
                 className="bg-green-500 hover:bg-green-600 text-white py-2 px-8 rounded-md font-semibold text-lg"
               >
                 Launch Fundraiser
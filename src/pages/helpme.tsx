@@ -1,59 +1,42 @@
-import { useState, useEffect } from 'react';
-import { ethers, Contract } from 'ethers';
-import contractABI from './abi.json';
+import { useState } from 'react';
 import Head from 'next/head';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
-import { useRouter } from 'next/router';
 import { useVerification } from '@/contexts/VerificationContext';
+import { useRequireSignIn } from '@/contexts/AuthContext';
+import { requireEligibility } from '@/lib/verificationSession';
+import { useCreateFundraiser } from '@/hooks/useFundraiserContract';
+import { parseUsdc } from '@/lib/usdc';
+import { contractErrorMessage } from '@/lib/contractErrors';
+import { CONTENT_LIMITS, encodeContent, normalizeContent } from '@/lib/content';
+import { CATEGORY_KEYS, FUNDRAISER_CATEGORIES, FundraiserCategory, parseTags } from '@/lib/categories';
 
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
+// Creating a fundraiser needs a signed-in wallet whose verified claims meet the eligibility rules
+export const getServerSideProps = requireEligibility;
 
 const TempPage = () => {
-  const router = useRouter();
+  useRequireSignIn();
   const { isVerified } = useVerification();
-  const [contract, setContract] = useState<Contract | null>(null);
+  // The fundraiser is created on the connected chain's deployment
+  const { createFundraiser } = useCreateFundraiser();
   
   // Form states
   const [duration, setDuration] = useState<'7' | '30'>('7');
   const [subject, setSubject] = useState('');
   const [details, setDetails] = useState('');
   const [amount, setAmount] = useState('');
+  const [category, setCategory] = useState<FundraiserCategory | ''>('');
+  // Comma-separated
+  const [tags, setTags] = useState('');
+  const [location, setLocation] = useState('');
   
   // Status states
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
 
-  // Initialize contract instance
-  useEffect(() => {
-    const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as string;
-    if (window.ethereum) {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      provider.getSigner().then(signer => {
-        const contractInstance = new Contract(contractAddress, contractABI, signer);
-        setContract(contractInstance);
-      }).catch(err => {
-        console.error('Error getting signer:', err);
-        setError('Failed to initialize contract');
-      });
-    }
-  }, []);
-
-  const handleAskForHelp = () => {
-    if (!isVerified) {
-      router.push('/verify');
-      return;
-    }
-    router.push('/helpme');
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -61,45 +44,48 @@ const TempPage = () => {
     setSuccess('');
 
     try {
-      if (!contract) {
-        throw new Error('Contract not initialized');
+      if (!category) {
+        throw new Error('Choose a category');
       }
+      // The category, tags and location go on-chain with the title and story as canonical
+      // JSON in the details string, so the fundraiser's detailsHash covers them
+      const content = encodeContent(
+        normalizeContent({ title: subject, story: details, category, tags: parseTags(tags), location })
+      );
 
       // Calculate end timestamp based on selected duration
       const durationInDays = parseInt(duration);
       const endTimestamp = Math.floor(Date.now() / 1000) + (durationInDays * 24 * 60 * 60);
       
-      // Convert amount to USDC base units (6 decimals)
-      const amountNumber = parseFloat(amount);
-      if (isNaN(amountNumber)) {
-        throw new Error('Invalid amount');
-      }
-      // Convert to USDC base units (multiply by 10^6)
-      const amountInBaseUnits = Math.floor(amountNumber * 1_000_000);
-      if (amountInBaseUnits <= 0) {
+      // The contract takes the goal in whole USDC
+      const goal = parseUsdc(amount);
+      if (goal <= BigInt(0)) {
         throw new Error('Amount must be greater than 0');
       }
 
-      // Call the addFundraiser function
-      const tx = await contract.addFundraiser(
-        endTimestamp,
-        subject,
-        details,
-        amountInBaseUnits
+      // Resolves once addFundraiser is mined
+      const { fundraiserId } = await createFundraiser({
+        endDate: endTimestamp,
+        subject: subject.trim(),
+        details: content.text,
+        goal,
+      });
+      setSuccess(
+        fundraiserId === null ? 'Fundraiser created successfully!' : `Fundraiser #${fundraiserId} created successfully!`
       );
-
-      await tx.wait();
-      setSuccess('Fundraiser created successfully!');
       
       // Reset form
       setDuration('7');
       setSubject('');
       setDetails('');
       setAmount('');
+      setCategory('');
+      setTags('');
+      setLocation('');
       
     } catch (err: any) {
       console.error('Error creating fundraiser:', err);
-      setError(err.message || 'Failed to create fundraiser');
+      setError(contractErrorMessage(err, 'createFundraiser'));
     } finally {
       setIsSubmitting(false);
     }
@@ -116,7 +102,7 @@ const TempPage = () => {
         <link href="/favicon.ico" rel="icon" />
       </Head>
 
-      <Navigation isVerified={isVerified} onAskForHelp={handleAskForHelp} />
+      <Navigation isVerified={isVerified} />
 
       <main className="container mx-auto py-8">
         <Card className="max-w-2xl mx-auto">
@@ -184,6 +170,63 @@ const TempPage = () => {
                 />
               </div>
 
+              <div>
+                <label htmlFor="category" className="block text-sm font-medium mb-1">
+                  Category
+                </label>
+                <select
+                  id="category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value as FundraiserCategory | '')}
+                  className="w-full p-2 border rounded-md"
+                  required
+                >
+                  <option value="" disabled>
+                    Choose a category
+                  </option>
+                  {CATEGORY_KEYS.map((key) => (
+                    <option key={key} value={key}>
+                      {FUNDRAISER_CATEGORIES[key].label}
+                    </option>
+                  ))}
+                </select>
+                {category && (
+                  <p className="text-xs text-gray-500 mt-1">{FUNDRAISER_CATEGORIES[category].description}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="tags" className="block text-sm font-medium mb-1">
+                  Tags (optional)
+                </label>
+                <input
+                  type="text"
+                  id="tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="e.g. surgery, children, kenya"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Up to {CONTENT_LIMITS.tags}, separated by commas. Donors can filter by them.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="location" className="block text-sm font-medium mb-1">
+                  Location (optional)
+                </label>
+                <input
+                  type="text"
+                  id="location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="e.g. Nairobi, Kenya"
+                  maxLength={CONTENT_LIMITS.location}
+                />
+              </div>
+
               <div>
                 <label htmlFor="amount" className="block text-sm font-medium mb-1">
                   Amount Needed (USDC)
@@ -195,8 +238,8 @@ const TempPage = () => {
                   onChange={(e) => setAmount(e.target.value)}
                   className="w-full p-2 border rounded-md"
                   placeholder="Enter amount in USDC"
-                  min="0"
-                  step="0.000001"
+                  min="1"
+                  step="1"
                   required
                 />
               </div>
@@ -1,555 +1,127 @@
-import { useState, useEffect, ChangeEvent, useCallback } from 'react';
-import { ethers, Contract } from 'ethers';
-import contractABI from './abi.json';
+import { useState, useEffect, ChangeEvent } from 'react';
 import { Box, TextField, Typography, Container, Paper, Grid, LinearProgress, CircularProgress, Alert } from '@mui/material';
-import usdcABI from '../../abi/testnet/usdc-abi.json';
 import Head from 'next/head';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { Button } from "@/components/ui/button";
+import { ApprovalModePicker, DonationProgress } from '@/components/DonationProgress';
+import { ReportFundraiserButton } from '@/components/ReportFundraiserButton';
+import { FundraiserMetadata } from '@/components/FundraiserMetadata';
 import { useRouter } from 'next/router';
 import { useVerification } from '@/contexts/VerificationContext';
-
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
-
-// Multiple RPC providers for better reliability
-const RPC_PROVIDERS = [
-  "https://ethereum-sepolia-rpc.publicnode.com",
-  "https://gateway.tenderly.co/public/sepolia",
-  "https://rpc.sepolia.ethpandaops.io",
-  "https://sepolia.gateway.tenderly.co"
-];
-
-// Delay helper for retries
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import { useAccount } from 'wagmi';
+import {
+  FUNDRAISER_STATUS_LABELS,
+  acceptsDonations,
+  fundraiserImage,
+  fundraiserStory,
+  fundraiserTitle,
+  progressPercent,
+} from '@/lib/fundraiser';
+import { USDC_UNIT, formatUsdc, parseUsdc, toContractUsdc } from '@/lib/usdc';
+import { decodeContractError } from '@/lib/contractErrors';
+import { ApprovalMode, isDonationActive } from '@/lib/donationPipeline';
+import { useDonate, useFundraiser } from '@/hooks/useFundraiserContract';
+import { useModeration } from '@/hooks/useModeration';
+
+// A named revert (e.g. InvalidInput(1) for an id that was never created) explains itself;
+// anything else is a connection problem
+const fundraiserErrorMessage = (err: unknown) => {
+  const decoded = decodeContractError(err);
+  return decoded.kind === 'revert' && decoded.name
+    ? decoded.message
+    : "We're having trouble connecting to the blockchain. Please try refreshing the page.";
+};
 
 const HelpRequestPage = () => {
-  const [contract, setContract] = useState<Contract | null>(null);
   const { isVerified } = useVerification();
+  const { isConnected } = useAccount();
 
   // Form states
   const [fundraiserId, setFundraiserId] = useState<string>('0');
   const [showDonationInput, setShowDonationInput] = useState(false);
   const [donationAmount, setDonationAmount] = useState<string>('');
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-
-  // USDC contract address
-  const USDC_ADDRESS = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
-
-  // Result states
-  const [result, setResult] = useState<any>(null);
-  const [error, setError] = useState<string>('');
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('exact');
   const [donationError, setDonationError] = useState<string>('');
 
   const router = useRouter();
 
   // ============================
-  //   Initialize Contract
+  //   Fundraiser
   // ============================
-  const connectWithFallbackProviders = (contractAddress: string) => {
-    for (let i = 0; i < RPC_PROVIDERS.length; i++) {
-      try {
-        console.log(`Trying provider ${i+1}/${RPC_PROVIDERS.length}: ${RPC_PROVIDERS[i]}`);
-        const provider = new ethers.JsonRpcProvider(RPC_PROVIDERS[i]);
-        provider.getBlockNumber()
-          .then(() => {
-            const contractInstance = new Contract(contractAddress, contractABI, provider);
-            setContract(contractInstance);
-            console.log(`Successfully connected using provider ${i+1}`);
-            return;
-          })
-          .catch((error) => {
-            console.error(`Provider test failed:`, error);
-          });
-      } catch (providerErr) {
-        console.error(`Provider ${i+1} failed:`, providerErr);
-      }
-    }
-    console.error("All providers failed to connect");
-    setError("Failed to connect to blockchain network. Please check your internet connection.");
-    setIsLoading(false);
-  };
+  // Cached by React Query and refetched after a donation confirms
+  const { helpRequestId } = router.query;
+  const requestedId =
+    typeof helpRequestId === 'string' && /^\d+$/.test(helpRequestId) ? Number(helpRequestId) : null;
+  const fundraiser = useFundraiser(requestedId);
+  const result = fundraiser.data ?? null;
+  const isLoading = fundraiser.isLoading;
+  const error = fundraiser.error
+    ? fundraiserErrorMessage(fundraiser.error)
+    : helpRequestId !== undefined && requestedId === null
+      ? 'Fundraiser ids are whole numbers.'
+      : '';
+
+  // Read from the chain, so the moderators' denylist is checked here
+  const { verdict } = useModeration();
+  const moderation = result ? verdict(result) : null;
 
   useEffect(() => {
-    const initializeContract = () => {
-      try {
-        const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as string;
-        if (typeof window !== 'undefined') {
-          if (window.ethereum) {
-            console.log("Found Web3 provider - using BrowserProvider");
-            try {
-              const provider = new ethers.BrowserProvider(window.ethereum);
-              provider.getSigner()
-                .then(signer => {
-                  const contractInstance = new Contract(contractAddress, contractABI, signer);
-                  setContract(contractInstance);
-                })
-                .catch(signerErr => {
-                  console.error("Error getting signer:", signerErr);
-                  connectWithFallbackProviders(contractAddress);
-                });
-            } catch (providerErr) {
-              console.error("Error creating provider:", providerErr);
-              connectWithFallbackProviders(contractAddress);
-            }
-          } else {
-            console.log("No Web3 provider found - using read-only provider");
-            connectWithFallbackProviders(contractAddress);
-          }
-        }
-      } catch (err) {
-        console.error('Error initializing contract:&apos;', err);
-        setError('Failed to initialize contract. Please check your connection.');
-        setIsLoading(false);
-      }
-    };
-
-    initializeContract();
-  }, []);
+    if (requestedId !== null) setFundraiserId(String(requestedId));
+  }, [requestedId]);
 
-  // ===================================
-  //    Fetch Fundraiser Data / Retry
-  // ===================================
-  const fetchFundraiserData = (id: string) => {
-    setIsLoading(true);
-    setError('');
-
-    if (!contract) {
-      setError("Contract not initialized. Please try again later.");
-      setIsLoading(false);
-      return;
-    }
-
-    const maxRetries = 3;
-    let attempt = 1;
-
-    const tryFetch = () => {
-      console.log(`Calling contract.getFundraiser - Attempt ${attempt}/${maxRetries}`);
-      contract.getFundraiser(id)
-        .then(result => {
-          console.log("Fundraiser result:", result);
-          /**
-           * We see logs like:
-           * 0: '0xDA917e14c9BC38d...'
-           * 1: 1740779640n  <-- some bigInt
-           * 2: 1772329580000n
-           * 3: 'test'
-           * 4: 'test'
-           * 5: 4n    // goal in final USDC (NOT base units)
-           * 6: 5n    // amountRaised in final USDC (NOT base units)
-           * 7: true
-           * 8: true
-           */
-
-          const owner = result[0];
-          // parse start/end times
-          const startDate = new Date(Number(result[1]) * 1000);
-          const endDate = new Date(Number(result[2]) * 1000);
-
-          const subject = result[3];
-          const details = result[4];
-
-          // Because your logs show result[5] & [6] are already final USDC amounts (e.g. 4, 5)
-          // we do NOT call ethers.formatUnits(...) here. 
-          // Instead, treat them as whole-dollar amounts:
-          const goalUSDC = Number(result[5]);         // e.g. 4
-          const amountRaisedUSDC = Number(result[6]); // e.g. 5
-
-          const isCompleted = result[7];
-          const goalReached = result[8];
-
-          setResult({
-            id: Number(id),
-            owner,
-            startDate,
-            endDate,
-            subject,
-            details,
-            goal: goalUSDC,            // e.g. 4 means "4 USDC"
-            amountRaised: amountRaisedUSDC,  // e.g. 5 means "5 USDC"
-            isCompleted,
-            goalReached
-          });
-
-          setIsLoading(false);
-        })
-        .catch(contractErr => {
-          console.error(`Error fetching fundraiser (attempt ${attempt}/${maxRetries}):`, contractErr);
-
-          if (attempt < maxRetries) {
-            const backoffTime = Math.pow(2, attempt) * 1000;
-            console.log(`Waiting ${backoffTime}ms before retry...`);
-            delay(backoffTime)
-              .then(() => {
-                if (typeof window !== 'undefined' && !window.ethereum) {
-                  tryNextProvider(contract?.target as string)
-                    .then(() => {
-                      attempt++;
-                      tryFetch();
-                    })
-                    .catch(() => {
-                      attempt++;
-                      tryFetch();
-                    });
-                } else {
-                  attempt++;
-                  tryFetch();
-                }
-              });
-          } else {
-            if (contractErr.message && contractErr.message.includes('missing revert data')) {
-              setError(`Couldn't parse contract data, please click the refresh button.`);
-            } else {
-              setError(`We're having trouble connecting to the blockchain. Please try refreshing the page.`);
-            }
-            setIsLoading(false);
-          }
-        });
-    };
-
-    tryFetch();
-
-  };
-
-  // Switch to next provider if needed
-  const tryNextProvider = (contractAddress: string) => {
-    if (!contractAddress) return Promise.reject(false);
-
-    return new Promise((resolve, reject) => {
-      let attempted = 0;
-      const tryProvider = (index: number) => {
-        if (index >= RPC_PROVIDERS.length) {
-          reject(false);
-          return;
-        }
-        try {
-          console.log(`Trying alternative provider ${index+1}/${RPC_PROVIDERS.length}`);
-          const provider = new ethers.JsonRpcProvider(RPC_PROVIDERS[index]);
-          provider.getBlockNumber()
-            .then(() => {
-              const contractInstance = new Contract(contractAddress, contractABI, provider);
-              setContract(contractInstance);
-              console.log(`Successfully switched to provider ${index+1}`);
-              resolve(true);
-            })
-            .catch(err => {
-              console.error(`Failed to use provider ${index+1}:`, err);
-              tryProvider(index + 1);
-            });
-        } catch (err) {
-          console.error(`Failed to initialize provider ${index+1}:`, err);
-          tryProvider(index + 1);
-        }
-      };
-      tryProvider(0);
-    });
-  };
-
-  // Handle manual search
-  const handleGetFundraiser = () => {
-    setIsLoading(true);
-    setError('');
-    fetchFundraiserData(fundraiserId);
-  };
-  // Update data if we have helpRequestId
-  useEffect(() => {
-    const { helpRequestId } = router.query;
-    if (helpRequestId && typeof helpRequestId === 'string') {
-      setFundraiserId(helpRequestId);
-      setError('');
-      setIsLoading(true);
-      fetchFundraiserData(helpRequestId);
-    }
-  }, [router.query, contract]);
-
-  // Dummy
-  const overrideRpcProvider = () => Promise.resolve();
-
-  // Force Sepolia
-  const checkAndSwitchToSepoliaNetwork = () => {
-    if (!window.ethereum) return Promise.resolve(false);
-    return new Promise((resolve, reject) => {
-      window.ethereum.request({ method: 'eth_chainId' })
-        .then((chainId: string) => {
-          if (chainId !== '0xaa36a7') {
-            window.ethereum.request({
-              method: 'wallet_switchEthereumChain',
-              params: [{ chainId: '0xaa36a7' }],
-            })
-              .then(() => {
-                overrideRpcProvider().then(() => resolve(true)).catch(() => resolve(true));
-              })
-              .catch((switchError: any) => {
-                if (switchError.code === 4902) {
-                  window.ethereum.request({
-                    method: 'wallet_addEthereumChain',
-                    params: [
-                      {
-                        chainId: '0xaa36a7',
-                        chainName: 'Sepolia Test Network',
-                        nativeCurrency: {
-                          name: 'Sepolia ETH',
-                          symbol: 'SEP',
-                          decimals: 18
-                        },
-                        rpcUrls: [
-                          'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-                          'https://eth-sepolia.public.blastapi.io',
-                          'https://ethereum-sepolia.blockpi.network/v1/rpc/public',
-                          'https://rpc.sepolia.org'
-                        ],
-                        blockExplorerUrls: ['https://sepolia.etherscan.io']
-                      }
-                    ],
-                  })
-                    .then(() => resolve(true))
-                    .catch((addError: any) => {
-                      console.error('Error adding Sepolia network:', addError);
-                      resolve(false);
-                    });
-                } else {
-                  console.error('Error switching to Sepolia network:', switchError);
-                  resolve(false);
-                }
-              });
-          } else {
-            overrideRpcProvider().then(() => resolve(true)).catch(() => resolve(true));
-          }
-        })
-        .catch((error: any) => {
-          console.error('Error checking network:', error);
-          resolve(false);
-        });
-    });
-  };
+  const donation = useDonate({
+    onConfirmed: () => {
+      setDonationAmount('');
+      setShowDonationInput(false);
+    },
+  });
+  const isSubmitting = isDonationActive(donation.state);
 
   // ================================
-  //   USDC ALLOWANCE / APPROVAL
+  //   DONATION
   // ================================
-  // Because the contract does ( _amount * 1e6 ), we only allow integer amounts in the UI
-  const checkUSDCAllowance = async (integerDonation: number) => {
-    if (!window.ethereum) {
-      throw new Error("No wallet detected");
-    }
-
-    const provider = new ethers.BrowserProvider(window.ethereum);
-    const signer = await provider.getSigner();
-    const userAddress = await signer.getAddress();
-
-    const usdcContract = new Contract(USDC_ADDRESS, usdcABI, provider);
-    const contractAddress = contract?.target?.toString() || "";
-    const allowanceRaw = await usdcContract.allowance(userAddress, contractAddress);
-
-    // "allowanceRaw" is a BigInt of base units
-    // The contract will do integerDonation * 10^6 => so we compare to that
-    const neededBaseUnits = BigInt(integerDonation) * BigInt(1_000_000);
-    const allowanceFormatted = ethers.formatUnits(allowanceRaw, 6);
-
-    console.log(`USDC Allowance: ${allowanceFormatted} USDC (${allowanceRaw} base units)`);
-    console.log(`Needed base units for donation: ${neededBaseUnits}`);
-
-    const hasEnoughAllowance = allowanceRaw >= neededBaseUnits;
-
-    return {
-      hasEnoughAllowance,
-      allowance: allowanceFormatted,
-      allowanceRaw
-    };
-  };
-
-  // Approve enough base units
-  const approveUSDC = async () => {
+  // Because the contract does ( _amount * 1e6 ), we only allow whole USDC amounts in the UI.
+  // Returns the donation in base units; throws with a user-facing message otherwise.
+  const parseDonationAmount = () => {
+    let baseUnits: bigint;
     try {
-      setIsSubmitting(true);
-      setDonationError('');
-
-      if (!window.ethereum) {
-        throw new Error("No wallet detected");
-      }
-
-      const userAmountFloat = parseFloat(donationAmount);
-      if (isNaN(userAmountFloat) || userAmountFloat <= 0) {
-        throw new Error("Please enter a valid amount (minimum 1 USDC, no decimals).");
-      }
-
-      const integerDonation = Math.floor(userAmountFloat);
-      if (integerDonation < 1) {
-        throw new Error("Please enter at least 1 USDC donation.");
-      }
-
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const usdcContract = new Contract(USDC_ADDRESS, usdcABI, signer);
-      // e.g. if user typed 5 => we must approve (5 * 1e6) base units
-      const baseUnitsToApprove = BigInt(integerDonation) * BigInt(1_000_000);
-
-      const contractAddress = contract?.target?.toString();
-      if (!contractAddress) {
-        throw new Error("Contract address is missing");
-      }
-
-      console.log(`Approving integerDonation = ${integerDonation} => ${baseUnitsToApprove} base units`);
-
-      const tx = await usdcContract.approve(contractAddress, baseUnitsToApprove);
-      console.log("Approval transaction submitted:", tx.hash);
-
-      await tx.wait();
-      console.log("Approval confirmed!");
-
-      // Check updated allowance
-      const { allowance } = await checkUSDCAllowance(integerDonation);
-      alert(`Successfully approved ${integerDonation} USDC for donation. Current allowance: ${allowance} USDC`);
-      
-      setIsSubmitting(false);
-    } catch (error) {
-      console.error("Error approving USDC:", error);
-      setDonationError(`Failed to approve USDC: ${error instanceof Error ? error.message : String(error)}`);
-      setIsSubmitting(false);
+      baseUnits = parseUsdc(donationAmount);
+      toContractUsdc(baseUnits);
+    } catch {
+      throw new Error("Please enter a valid amount (minimum 1 USDC, no decimals).");
     }
+    if (baseUnits < USDC_UNIT) {
+      throw new Error("Please enter at least 1 USDC donation.");
+    }
+    return baseUnits;
   };
 
-  // Submit donation
   const handleDonationSubmit = () => {
-    setIsSubmitting(true);
     setDonationError('');
-
-    try {
-      if (typeof window === 'undefined' || !window.ethereum) {
-        setDonationError('A Web3 wallet like MetaMask is required');
-        setIsSubmitting(false);
-        return;
-      }
-      if (!contract) {
-        setDonationError('Contract not initialized');
-        setIsSubmitting(false);
-        return;
-      }
-      if (!result || !result.id) {
-        setDonationError('No active fundraiser loaded');
-        setIsSubmitting(false);
-        return;
-      }
-
-      const userAmountFloat = parseFloat(donationAmount);
-      if (isNaN(userAmountFloat) || userAmountFloat <= 0) {
-        setDonationError('Please enter a valid amount (minimum 1 USDC, no decimals).');
-        setIsSubmitting(false);
-        return;
-      }
-
-      const integerDonation = Math.floor(userAmountFloat);
-      if (integerDonation < 1) {
-        setDonationError('Minimum 1 USDC donation (whole dollars).');
-        setIsSubmitting(false);
-        return;
-      }
-
-      // Check allowance
-      checkUSDCAllowance(integerDonation)
-        .then(({ hasEnoughAllowance, allowance }) => {
-          if (!hasEnoughAllowance) {
-            setDonationError(`Insufficient USDC allowance. Approved: ${allowance} USDC. Please click 'Approve USDC' first.`);
-            setIsSubmitting(false);
-            return;
-          }
-
-          const provider = new ethers.BrowserProvider(window.ethereum);
-          provider.getNetwork()
-            .then(network => {
-              if (network.chainId !== BigInt(11155111)) {
-                setDonationError('Please switch to Sepolia network in your wallet');
-                setIsSubmitting(false);
-                return;
-              }
-              proceedWithDonation(integerDonation);
-            })
-            .catch(err => {
-              console.error("Error checking network:", err);
-              setDonationError("Failed to check your network. Please ensure you're on Sepolia");
-              setIsSubmitting(false);
-            });
-        })
-        .catch(err => {
-          console.error("Error checking USDC allowance:", err);
-          setDonationError("Failed to check your USDC allowance");
-          setIsSubmitting(false);
-        });
-    } catch (err: any) {
-      console.error('Donation error:', err);
-      setDonationError(err.message || 'Failed to process donation. Please try again.');
-      setIsSubmitting(false);
+    if (!result) {
+      setDonationError('No active fundraiser loaded');
+      return;
     }
-  };
 
-  const proceedWithDonation = (integerDonation: number) => {
-    const currentFundraiserId = result.id;
-    console.log(`Proceeding with donation for fundraiser #${currentFundraiserId}, integer = ${integerDonation}`);
-
-    const provider = new ethers.BrowserProvider(window.ethereum);
+    let amount: bigint;
     try {
-      provider.getSigner()
-        .then(signer => {
-          const contractWithSigner = new Contract(contract?.target?.toString() || '', contractABI, signer);
-
-          // The contract will do _amount * 1e6, so we pass integerDonation
-          console.log(`Calling recordDonation(${currentFundraiserId}, ${integerDonation})...`);
-          contractWithSigner.recordDonation(currentFundraiserId, integerDonation)
-            .then(tx => {
-              console.log("Donation transaction submitted:", tx.hash);
-              alert(`Donation transaction submitted! Hash: ${tx.hash}\n\nPlease wait for confirmation...`);
-
-              tx.wait()
-                .then(() => {
-                  console.log("Donation confirmed");
-                  setDonationAmount('');
-                  setShowDonationInput(false);
-                  setIsSubmitting(false);
-                  fetchFundraiserData(currentFundraiserId.toString());
-                  alert('Your donation has been successfully processed!');
-                })
-                .catch((confirmErr: Error) => {
-                  console.log("Could not confirm donation status, please check etherscan", confirmErr);
-                  setDonationAmount('');
-                  setShowDonationInput(false);
-                  setIsSubmitting(false);
-                  fetchFundraiserData(currentFundraiserId.toString());
-                });
-            })
-            .catch(err => {
-              console.error("Error processing donation:", err);
-              if (err.message && err.message.includes("user rejected")) {
-                setDonationError("Transaction was rejected by your wallet");
-              } else {
-                setDonationError(`Transaction failed: ${err.message}`);
-              }
-              setIsSubmitting(false);
-            });
-        })
-        .catch(err => {
-          console.error("Error getting signer:", err);
-          setDonationError(`Failed to access wallet: ${err.message}`);
-          setIsSubmitting(false);
-        });
+      amount = parseDonationAmount();
     } catch (err: any) {
-      console.error("Error processing donation:", err);
-      setDonationError(`Failed to process donation: ${err.message}`);
-      setIsSubmitting(false);
+      setDonationError(err.message);
+      return;
     }
+
+    // Fundraisers are read from the connected chain's deployment, or the default one on an
+    // unsupported chain; the pipeline switches the wallet to wherever this one was read from
+    donation.start({ fundraiserId: result.id, chainId: result.chainId, amount, approvalMode });
   };
 
   // Navigate to a new fundraiser
   const navigateToFundraiser = (id: string) => {
-    if (id === fundraiserId && result && result.id === id) {
+    if (id === fundraiserId && result && result.id.toString() === id) {
       return;
     }
-    setResult(null);
-    setError('');
-    setIsLoading(true);
     setFundraiserId(id);
     const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
     window.location.href = `${baseUrl}/helprequest?helpRequestId=${id}`;
@@ -561,20 +133,6 @@ const HelpRequestPage = () => {
     setter(e.target.value);
   };
 
-  const handleAskForHelp = () => {
-    if (!isVerified) {
-      router.push('/verify');
-      return;
-    }
-    router.push('/helpme');
-  };
-
-  // We interpret goal & raised as final USDC values from the contract
-  // Just format them to e.g. "$4.00"
-  const formatWholeUSDC = (val: number) => {
-    return `$${val.toFixed(2)}`;
-  };
-
   // For debugging
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -597,7 +155,7 @@ const HelpRequestPage = () => {
         <link href="/favicon.ico" rel="icon" />
       </Head>
 
-      <Navigation isVerified={isVerified} onAskForHelp={handleAskForHelp} />
+      <Navigation isVerified={isVerified} />
 
       <Container maxWidth="md" sx={{ py: 4 }}>
         {error && (
@@ -607,8 +165,6 @@ const HelpRequestPage = () => {
             <Box sx={{ mt: 2 }}>
               <Button 
                 onClick={() => {
-                  setResult(null);
-                  setError('');
                   const baseUrl = window.location.origin;
                   window.location.href = `${baseUrl}/helprequest?helpRequestId=0`;
                 }}
@@ -645,13 +201,22 @@ const HelpRequestPage = () => {
           </Paper>
         )}
 
-        {result && (
+        {moderation?.hidden && (
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6">Fundraiser removed</Typography>
+            <Typography>
+              Fundraiser #{result?.id} was removed by the moderators: {moderation.hidden.reason}
+            </Typography>
+          </Paper>
+        )}
+
+        {result && !moderation?.hidden && (
           <>
             <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between' }}>
               <Button
                 onClick={() => {
                   if (result && result.id >= 1) {
-                    const prevId = parseInt(result.id) - 1;
+                    const prevId = result.id - 1;
                     navigateToFundraiser(prevId.toString());
                   }
                 }}
@@ -668,7 +233,7 @@ const HelpRequestPage = () => {
               <Button
                 onClick={() => {
                   if (result && result.id >= 0) {
-                    const nextId = parseInt(result.id) + 1;
+                    const nextId = result.id + 1;
                     navigateToFundraiser(nextId.toString());
                   }
                 }}
@@ -682,26 +247,47 @@ const HelpRequestPage = () => {
             <Grid container spacing={4}>
               <Grid item xs={12} md={8}>
                 <Typography variant="h4" gutterBottom>
-                  {result.subject}
+                  {fundraiserTitle(result)}
                 </Typography>
 
-                <Box 
-                  sx={{ 
-                    width: '100%', 
-                    height: 300, 
-                    bgcolor: 'grey.200', 
-                    mb: 3,
-                    borderRadius: 1,
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    color: 'grey.500'
-                  }}
-                >
-                  <Typography variant="body1">
-                    Fundraiser Image
-                  </Typography>
-                </Box>
+                <FundraiserMetadata
+                  fundraiser={result}
+                  onTagClick={tag => router.push({ pathname: '/browse', query: { tag } })}
+                  className="text-sm mb-4"
+                />
+
+                {moderation?.flagged && (
+                  <Alert severity="warning" sx={{ mb: 3 }}>
+                    Flagged by the moderators: {moderation.flagged.reason}
+                  </Alert>
+                )}
+
+                {fundraiserImage(result) ? (
+                  <Box
+                    component="img"
+                    src={fundraiserImage(result)!}
+                    alt={fundraiserTitle(result)}
+                    sx={{ width: '100%', height: 300, objectFit: 'cover', mb: 3, borderRadius: 1 }}
+                  />
+                ) : (
+                  <Box 
+                    sx={{ 
+                      width: '100%', 
+                      height: 300, 
+                      bgcolor: 'grey.200', 
+                      mb: 3,
+                      borderRadius: 1,
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      color: 'grey.500'
+                    }}
+                  >
+                    <Typography variant="body1">
+                      Fundraiser Image
+                    </Typography>
+                  </Box>
+                )}
 
                 <Paper elevation={1} sx={{ p: 3, mb: 4, bgcolor: 'background.paper' }}>
                   <Typography variant="subtitle1" gutterBottom>
@@ -717,9 +303,11 @@ const HelpRequestPage = () => {
                   </Typography>
 
                   <Typography variant="subtitle2" gutterBottom>
-                    <strong>Status:</strong> {result.isCompleted ? 'Completed' : 'Active'} 
-                    {result.goalReached && ' (Goal Reached)'}
+                    <strong>Status:</strong> {FUNDRAISER_STATUS_LABELS[result.status]}
+                    {result.goalReached && result.status !== 'goalReached' && ' (Goal Reached)'}
                   </Typography>
+
+                  <ReportFundraiserButton key={result.id} fundraiserId={result.id} />
                 </Paper>
 
                 <Paper elevation={2} sx={{ p: 0, mb: 3, overflow: 'hidden' }}>
@@ -736,8 +324,19 @@ const HelpRequestPage = () => {
                   </Box>
                   <Box sx={{ p: 3 }}>
                     <Typography variant="body1" sx={{ whiteSpace: 'pre-line' }}>
-                      {result.details}
+                      {fundraiserStory(result)}
                     </Typography>
+                    {result.content && result.content.links.length > 0 && (
+                      <Box component="ul" sx={{ mt: 2, pl: 2 }}>
+                        {result.content.links.map(link => (
+                          <li key={link.url}>
+                            <a href={link.url} target="_blank" rel="noopener noreferrer">
+                              {link.label}
+                            </a>
+                          </li>
+                        ))}
+                      </Box>
+                    )}
                   </Box>
                 </Paper>
               </Grid>
@@ -751,24 +350,20 @@ const HelpRequestPage = () => {
                     bgcolor: 'background.paper',
                   }}
                 >
-                  {/* formatWholeUSDC => show e.g. $5.00 */}
+                  {/* formatUsdc => show e.g. $5.00 */}
                   <Typography variant="h4" gutterBottom>
-                    {formatWholeUSDC(result.amountRaised)}
+                    {formatUsdc(result.amountRaised)}
                   </Typography>
 
                   <Box sx={{ mb: 2 }}>
                     <Typography variant="body2" color="text.secondary" gutterBottom>
-                      collected of {formatWholeUSDC(result.goal)}
+                      collected of {formatUsdc(result.goal)}
                     </Typography>
 
                     <Box sx={{ width: '100%', mb: 1 }}>
                       <LinearProgress
                         variant="determinate"
-                        value={(() => {
-                          if (!result.goal || result.goal <= 0) return 0;
-                          const percent = (result.amountRaised / result.goal) * 100;
-                          return isNaN(percent) ? 0 : Math.min(percent, 100);
-                        })()}
+                        value={progressPercent(result)}
                         sx={{
                           height: 8,
                           borderRadius: 4,
@@ -783,16 +378,12 @@ const HelpRequestPage = () => {
 
                     <Box sx={{ mb: 2 }}>
                       <Typography variant="body2" color="text.secondary">
-                        {(() => {
-                          if (!result.goal || result.goal <= 0) return '0';
-                          const percent = Math.round((result.amountRaised / result.goal) * 100);
-                          return isNaN(percent) ? '0' : percent;
-                        })()}% completed
+                        {Math.round(progressPercent(result, { capped: false }))}% completed
                       </Typography>
                     </Box>
                   </Box>
 
-                  {!result.isCompleted && (
+                  {acceptsDonations(result) && (
                     <>
                       {showDonationInput && (
                         <>
@@ -815,21 +406,14 @@ const HelpRequestPage = () => {
                             </Typography>
                           </Alert>
 
-                          <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
-                            <Button
-                              className="w-full py-6 text-lg font-semibold"
-                              size="lg"
-                              onClick={approveUSDC}
-                              disabled={isSubmitting || !window.ethereum || !donationAmount}
-                            >
-                              {isSubmitting ? 'Processing...' : 'Approve USDC'}
-                            </Button>
+                          <ApprovalModePicker value={approvalMode} onChange={setApprovalMode} disabled={isSubmitting} />
 
+                          <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
                             <Button
                               className="w-full py-6 text-lg font-semibold"
                               size="lg"
                               onClick={handleDonationSubmit}
-                              disabled={isSubmitting || !window.ethereum || !donationAmount}
+                              disabled={isSubmitting || !isConnected || !donationAmount}
                             >
                               {isSubmitting ? 'Processing...' : 'Donate'}
                             </Button>
@@ -842,20 +426,30 @@ const HelpRequestPage = () => {
                           className="w-full mt-2 py-6 text-lg font-semibold"
                           size="lg"
                           onClick={() => setShowDonationInput(true)}
-                          disabled={isSubmitting || !window.ethereum}
+                          disabled={isSubmitting || !isConnected}
                         >
                           Help
                         </Button>
                       )}
 
-                      {!window.ethereum && (
+                      {!isConnected && (
                         <Typography color="error" variant="caption" sx={{ mt: 1, display: 'block', textAlign: 'center' }}>
-                          A Web3 wallet like MetaMask is required for donations
+                          Connect a wallet to donate
                         </Typography>
                       )}
                     </>
                   )}
 
+                  {donation.state && (
+                    <DonationProgress
+                      state={donation.state}
+                      onCancel={donation.cancel}
+                      onRetry={donation.retry}
+                      onDismiss={donation.reset}
+                      className="mt-4"
+                    />
+                  )}
+
                   {donationError && (
                     <Typography color="error" sx={{ mt: 2 }}>
                       {donationError}
@@ -1,18 +1,19 @@
 import Head from 'next/head';
 import Navbar from '../components/Navbar';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/router';
-import { BrowserProvider, Contract, parseUnits } from 'ethers';
-import contractABI from '../contractABI.json';
-
-// ===== ADDED: Minimal USDC ABI for allowance/approve checks =====
-const USDC_ABI = [
-  "function allowance(address owner, address spender) external view returns (uint256)",
-  "function approve(address spender, uint256 amount) external returns (bool)"
-];
-
-const CONTRACT_ADDRESS = '0x308A7629a5C39f9073D4617A4e95A205d4474E07';
-const USDC_ADDRESS = '0xf08A50178dfcDe18524640EA6618a1f965821715';
+import type { ResolvedContent } from '@/lib/content';
+import { fundraiserStory, fundraiserTitle, progressPercent } from '@/lib/fundraiser';
+import { fetchFundraiser } from '@/lib/fundraiserApi';
+import { mediaSrcSet } from '@/lib/media';
+import { USDC_UNIT, formatUsdc, parseUsdc, toContractUsdc } from '@/lib/usdc';
+import { ApprovalMode, isDonationActive } from '@/lib/donationPipeline';
+import { useDonate } from '@/hooks/useFundraiserContract';
+import { useFundraiserListing } from '@/hooks/useFundraiserListing';
+import { useModeration } from '@/hooks/useModeration';
+import { ApprovalModePicker, DonationProgress } from '@/components/DonationProgress';
+import { ReportFundraiserButton } from '@/components/ReportFundraiserButton';
+import { FundraiserMetadata } from '@/components/FundraiserMetadata';
 
 // The same array of images, no changes to your design
 const FUNDRAISER_IMAGES = [
@@ -27,191 +28,134 @@ const FUNDRAISER_IMAGES = [
   '/image 9.svg'  // For fundraiser with ID 15 (and so on...)
 ];
 
+// Load the next page of fundraisers once the carousel is this close to the last loaded one
+const PREFETCH_AHEAD = 3;
+
 export default function Lend() {
   const router = useRouter();
   const { fundraiserId } = router.query;
-  const [fundraiserIds, setFundraiserIds] = useState<number[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
+  // The fundraiserId link the carousel was last moved to
+  const [shownLink, setShownLink] = useState<string>();
+
+  // Fundraisers load a page at a time, as the carousel nears the end of the loaded ones;
+  // the ones moderators hid are not listed
+  const listing = useFundraiserListing({ sort: 'oldest' });
+  const fundraiserIds = useMemo(() => listing.fundraisers.map((fundraiser) => fundraiser.id), [listing.fundraisers]);
+  const currentFundraiserId = fundraiserIds[currentIndex] as number | undefined;
+  const { verdict } = useModeration();
+  const currentFundraiser = listing.fundraisers[currentIndex];
+  const flagged = currentFundraiser ? verdict(currentFundraiser).flagged : null;
+  // A failed page is not retried automatically, or the effects below would keep asking for it
+  const hasNextPage = listing.hasNextPage && !listing.error;
+  const { isFetchingNextPage, fetchNextPage } = listing;
 
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [amountCollected, setAmountCollected] = useState<number>(0);
-  const [amountNeeded, setAmountNeeded] = useState<number>(0);
+  // Images, links and the integrity verdict; title and description are taken from it too
+  const [content, setContent] = useState<ResolvedContent | null>(null);
+  // USDC base units
+  const [amountCollected, setAmountCollected] = useState<bigint>(BigInt(0));
+  const [amountNeeded, setAmountNeeded] = useState<bigint>(BigInt(0));
 
   // This donationAmount is typed by the user, and the design remains the same
   const [donationAmount, setDonationAmount] = useState('10');
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('exact');
+  const [donationError, setDonationError] = useState('');
 
   const [showFullDesc, setShowFullDesc] = useState(false);
 
-  // ======== Original init code (unchanged) ========
+  // A linked fundraiser may be on a later page; load pages until it turns up
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      initFundraisers();
+    const link = Array.isArray(fundraiserId) ? fundraiserId[0] : fundraiserId;
+    if (!link || link === shownLink || listing.isPending) return;
+    const idx = fundraiserIds.findIndex((id) => id === Number(link));
+    if (idx === -1 && hasNextPage) {
+      if (!isFetchingNextPage) fetchNextPage();
+      return;
     }
-  }, []);
+    setCurrentIndex(idx === -1 ? 0 : idx);
+    setShownLink(link);
+  }, [fundraiserIds, fundraiserId, shownLink, listing.isPending, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   useEffect(() => {
-    if (fundraiserIds.length > 0 && fundraiserId) {
-      const queryId = Number(fundraiserId);
-      const idx = fundraiserIds.findIndex((id) => id === queryId);
-      if (idx !== -1) {
-        setCurrentIndex(idx);
-      } else {
-        setCurrentIndex(0);
-      }
+    if (hasNextPage && !isFetchingNextPage && currentIndex >= fundraiserIds.length - PREFETCH_AHEAD) {
+      fetchNextPage();
     }
-  }, [fundraiserIds, fundraiserId]);
+  }, [currentIndex, fundraiserIds.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   useEffect(() => {
-    if (fundraiserIds.length > 0) {
-      fetchFundraiserData(fundraiserIds[currentIndex]);
-    }
-  }, [currentIndex, fundraiserIds]);
-
-  async function initFundraisers() {
-    try {
-      if (!window.ethereum) {
-        console.error('MetaMask is not installed.');
-        return;
-      }
-      const provider = new BrowserProvider(window.ethereum);
-      const contract = new Contract(CONTRACT_ADDRESS, contractABI, provider);
-      const data = await contract.batchGetFundraisers(0, 100);
-      console.log('Batch response:', data);
-
-      const validIds: number[] = [];
-      for (let i = 0; i < data.owners.length; i++) {
-        // Skip IDs < 7 and skip ID === 16
-        if (i < 7 || i === 16) continue;
-        const ownerAddr = data.owners[i];
-        if (ownerAddr !== '0x0000000000000000000000000000000000000000') {
-          validIds.push(i);
-        }
-      }
-      if (validIds.length === 0) {
-        console.warn('No valid fundraisers found!');
-      }
-      setFundraiserIds(validIds);
-      if (!fundraiserId) {
-        setCurrentIndex(0);
-      }
-    } catch (err) {
-      console.error('Error fetching fundraiser list:', err);
+    if (currentFundraiserId !== undefined) {
+      fetchFundraiserData(currentFundraiserId);
     }
-  }
+  }, [currentFundraiserId]);
 
   async function fetchFundraiserData(fundraiserId: number) {
     try {
-      if (!window.ethereum) {
-        console.error('MetaMask is not installed.');
-        return;
-      }
-      const provider = new BrowserProvider(window.ethereum);
-      const contract = new Contract(CONTRACT_ADDRESS, contractABI, provider);
-      const info = await contract.getFundraiser(fundraiserId);
-      console.log(`Fundraiser #${fundraiserId} data:`, info);
+      const fundraiser = await fetchFundraiser(fundraiserId);
 
-      const [ , , , subject, details, fundraiserGoal, amountsRaised ] = info;
-      const realGoal = Number(fundraiserGoal) / 1e6;
-      const realRaised = Number(amountsRaised) / 1e6;
-
-      setTitle(subject);
-      setDescription(details);
-      setAmountNeeded(realGoal);
-      setAmountCollected(realRaised);
+      setTitle(fundraiserTitle(fundraiser));
+      setDescription(fundraiserStory(fundraiser));
+      setContent(fundraiser.content);
+      setAmountNeeded(fundraiser.goal);
+      setAmountCollected(fundraiser.amountRaised);
       setShowFullDesc(false);
     } catch (error) {
       console.error('Error fetching fundraiser data:', error);
     }
   }
 
+  // Only wrap around once every page is loaded; until then the next page is on its way
   function handleNext() {
     if (fundraiserIds.length === 0) return;
-    setCurrentIndex((prev) => (prev + 1) % fundraiserIds.length);
+    setCurrentIndex((prev) =>
+      prev < fundraiserIds.length - 1 ? prev + 1 : hasNextPage ? prev : 0
+    );
   }
 
   function handlePrev() {
     if (fundraiserIds.length === 0) return;
-    setCurrentIndex((prev) => (prev === 0 ? fundraiserIds.length - 1 : prev - 1));
-  }
-
-  const rawProgress = amountNeeded > 0 ? (amountCollected / amountNeeded) * 100 : 0;
-  const progress = Math.min(rawProgress, 100);
-
-  // =============== NEW HELPER: check allowance ===============
-  async function checkUSDCAllowance(signerAddress: string, signer: any, neededBaseUnits: bigint) {
-    const usdcContract = new Contract(USDC_ADDRESS, USDC_ABI, signer);
-    const allowanceRaw = await usdcContract.allowance(signerAddress, CONTRACT_ADDRESS);
-
-    console.log("Current USDC allowance (raw):", allowanceRaw.toString());
-    return allowanceRaw >= neededBaseUnits;
-  }
-
-  // =============== NEW HELPER: do an approval ===============
-  async function approveUSDC(signer: any, neededBaseUnits: bigint) {
-    const usdcContract = new Contract(USDC_ADDRESS, USDC_ABI, signer);
-    console.log("Approving USDC for baseUnits:", neededBaseUnits.toString());
-
-    const txApprove = await usdcContract.approve(CONTRACT_ADDRESS, neededBaseUnits);
-    await txApprove.wait();
-    console.log("USDC approval confirmed!");
+    setCurrentIndex((prev) =>
+      prev > 0 ? prev - 1 : hasNextPage ? prev : fundraiserIds.length - 1
+    );
   }
 
-  // =============== REPLACED handleDonateUSDC with working logic ===============
-  async function handleDonateUSDC() {
-    if (!window.ethereum) {
-      alert('Please install MetaMask to donate.');
+  const progress = progressPercent({ goal: amountNeeded, amountRaised: amountCollected });
+
+  // =============== Donation pipeline ===============
+  const donation = useDonate({
+    // The API caches chain reads for a few seconds, so reflect the donation right away
+    onConfirmed: ({ fundraiserId: donatedTo, amount }) => {
+      if (donatedTo === currentFundraiserId) setAmountCollected((prev) => prev + amount);
+    },
+  });
+  const isDonating = isDonationActive(donation.state);
+
+  function handleDonateUSDC() {
+    setDonationError('');
+    // parse the user’s donation into base units; the contract only takes whole USDC
+    let baseUnits: bigint;
+    try {
+      baseUnits = parseUsdc(donationAmount);
+      toContractUsdc(baseUnits);
+    } catch (err: any) {
+      setDonationError(err.message);
       return;
     }
-
-    try {
-      // parse the user’s donation
-      const userAmountFloat = parseFloat(donationAmount);
-      if (isNaN(userAmountFloat) || userAmountFloat <= 0) {
-        alert('Please enter a valid donation amount in USDC.');
-        return;
-      }
-
-      // Convert to base units
-      const baseUnits = parseUnits(donationAmount, 6);
-      console.log(`User typed: ${donationAmount} => baseUnits = ${baseUnits.toString()}`);
-
-      // 1) Connect to user’s wallet
-      const provider = new BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const signerAddress = await signer.getAddress();
-
-      // 2) Check allowance
-      const hasEnoughAllowance = await checkUSDCAllowance(signerAddress, signer, baseUnits);
-      if (!hasEnoughAllowance) {
-        // 2a) If insufficient allowance, do an approval
-        alert(`Not enough USDC allowance. Approving now for ${donationAmount} USDC...`);
-        await approveUSDC(signer, baseUnits);
-      }
-
-      // 3) Donation call
-      const mainContract = new Contract(CONTRACT_ADDRESS, contractABI, signer);
-      const currentFundId = fundraiserIds[currentIndex];
-
-      alert(`Donating ${donationAmount} USDC to fundraiser #${currentFundId}...`);
-      const txDonate = await mainContract.recordDonation(currentFundId, baseUnits);
-      await txDonate.wait();
-      console.log(`Donated ${donationAmount} USDC successfully!`);
-      alert(`Donation of ${donationAmount} USDC confirmed!`);
-
-      // 4) Refresh data
-      fetchFundraiserData(currentFundId);
-    } catch (error: any) {
-      console.error('Error donating USDC:', error);
-      alert(`Donation failed: ${error.message || error}`);
+    if (baseUnits < USDC_UNIT) {
+      setDonationError('Please enter a valid donation amount in USDC.');
+      return;
     }
+
+    if (!currentFundraiser) return;
+    // The listing comes from the server's deployment; the pipeline switches the wallet there
+    donation.start({ fundraiserId: currentFundraiser.id, chainId: currentFundraiser.chainId, amount: baseUnits, approvalMode });
   }
 
   // Map image: subtract 7 so that fundraiser with ID 7 uses the first image in FUNDRAISER_IMAGES
   let imageUrl = '/images/placeholder.jpg';
-  if (fundraiserIds.length > 0) {
-    const currentId = fundraiserIds[currentIndex];
-    imageUrl = FUNDRAISER_IMAGES[currentId - 7] || '/images/placeholder.jpg';
+  if (currentFundraiserId !== undefined) {
+    imageUrl = content?.images[0] || FUNDRAISER_IMAGES[currentFundraiserId - 7] || '/images/placeholder.jpg';
   }
 
   const MAX_CHARS = 300;
@@ -248,6 +192,8 @@ export default function Lend() {
             <div className="md:w-2/3 flex-shrink-0">
               <img
                 src={imageUrl}
+                srcSet={mediaSrcSet(imageUrl)}
+                sizes="(min-width: 768px) 66vw, 100vw"
                 alt="Campaign Banner"
                 className="w-full h-auto md:max-h-96 object-cover"
                 onError={(e) => {
@@ -276,11 +222,31 @@ export default function Lend() {
                     </button>
                   )}
                 </div>
+                {content && <FundraiserMetadata fundraiser={{ content }} tone="dark" className="text-sm mb-4" />}
+                {content && content.links.length > 0 && (
+                  <ul className="mb-4 text-sm">
+                    {content.links.map((link) => (
+                      <li key={link.url}>
+                        <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline">
+                          {link.label}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {content?.verified === false && (
+                  <p className="mb-4 text-sm text-amber-400">
+                    This text does not match what was recorded on-chain when the fundraiser was created.
+                  </p>
+                )}
+                {flagged && (
+                  <p className="mb-4 text-sm text-amber-400">Flagged by the moderators: {flagged.reason}</p>
+                )}
                 <p className="mb-4 text-lg md:text-xl font-bold">
                   <span className="text-green-400">
-                    ${amountCollected.toLocaleString()}
+                    {formatUsdc(amountCollected, { minimumFractionDigits: 0 })}
                   </span>{' '}
-                  collected of ${amountNeeded.toLocaleString()} needed
+                  collected of {formatUsdc(amountNeeded, { minimumFractionDigits: 0 })} needed
                 </p>
                 <div className="w-full bg-gray-700 rounded-full h-4 mb-4">
                   <div
@@ -294,19 +260,45 @@ export default function Lend() {
                 </label>
                 <input
                   type="number"
+                  min="1"
+                  step="1"
                   value={donationAmount}
                   onChange={(e) => setDonationAmount(e.target.value)}
                   placeholder="Enter amount"
                   className="w-full mb-4 px-3 py-2 rounded bg-gray-100 text-black placeholder-gray-500 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-green-400"
                 />
 
+                <ApprovalModePicker
+                  value={approvalMode}
+                  onChange={setApprovalMode}
+                  disabled={isDonating}
+                  className="mb-4"
+                />
+
                 {/* Donate button uses the new logic */}
                 <button
                   onClick={handleDonateUSDC}
-                  className="bg-green-500 hover:bg-green-600 text-white w-full py-2 rounded-md font-semibold"
+                  disabled={isDonating || fundraiserIds.length === 0}
+                  className="bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white w-full py-2 rounded-md font-semibold"
                 >
-                  Donate USDC
+                  {isDonating ? 'Processing...' : 'Donate USDC'}
                 </button>
+
+                {donationError && <p className="mt-2 text-red-400">{donationError}</p>}
+
+                {donation.state && (
+                  <DonationProgress
+                    state={donation.state}
+                    onCancel={donation.cancel}
+                    onRetry={donation.retry}
+                    onDismiss={donation.reset}
+                    className="mt-4 border-gray-600"
+                  />
+                )}
+
+                {currentFundraiserId !== undefined && (
+                  <ReportFundraiserButton key={currentFundraiserId} fundraiserId={currentFundraiserId} className="mt-4 text-gray-400" />
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,274 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { CircularProgress } from '@mui/material';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { useVerification } from '@/contexts/VerificationContext';
+import { useRequireSignIn } from '@/contexts/AuthContext';
+import { SignedInProps, requireSignIn } from '@/lib/auth';
+import {
+  FundraiserReportJson,
+  ModerationAction,
+  ModerationEntryJson,
+  ModerationQueueResponse,
+  addModerationEntry,
+  dismissReport,
+  fetchModerationQueue,
+  removeModerationEntry,
+} from '@/lib/fundraiserApi';
+import { MAX_REASON_LENGTH, MODERATION_ACTION_LABELS, parseModerationEntry } from '@/lib/moderation';
+
+type TargetKind = 'fundraiser' | 'owner';
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+const FundraiserLink = ({ id }: { id: number }) => (
+  <Link href={`/helprequest?helpRequestId=${id}`} className="text-green-700 hover:underline">
+    Fundraiser #{id}
+  </Link>
+);
+
+const EntryTarget = ({ entry }: { entry: ModerationEntryJson }) =>
+  entry.fundraiserId !== null ? (
+    <FundraiserLink id={entry.fundraiserId} />
+  ) : (
+    <span className="break-all">Every fundraiser by {entry.owner}</span>
+  );
+
+// Moderators are the contract owner and the wallets in MODERATOR_ADDRESSES; the API checks
+// the signed-in wallet on every request
+export const getServerSideProps = requireSignIn;
+
+export default function Moderation({ session }: SignedInProps) {
+  useRequireSignIn();
+  const { isVerified } = useVerification();
+  const queryClient = useQueryClient();
+  const [queue, setQueue] = useState<ModerationQueueResponse | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const [targetKind, setTargetKind] = useState<TargetKind>('fundraiser');
+  const [target, setTarget] = useState('');
+  const [action, setAction] = useState<ModerationAction>('hide');
+  const [reason, setReason] = useState('');
+  const [formError, setFormError] = useState('');
+
+  const load = useCallback(() => {
+    setLoadError('');
+    fetchModerationQueue()
+      .then(setQueue)
+      .catch(err => setLoadError(err.message || 'Could not load the moderation queue.'));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Runs a change, then shows the queue it left behind; other pages pick up the new denylist
+  const apply = async (change: () => Promise<ModerationQueueResponse | null>) => {
+    setBusy(true);
+    setFormError('');
+    try {
+      const updated = await change();
+      if (updated) setQueue(updated);
+      else load();
+      await queryClient.invalidateQueries({ queryKey: ['moderation'] });
+      await queryClient.invalidateQueries({ queryKey: ['fundraisers'] });
+      return true;
+    } catch (err: any) {
+      setFormError(err.message || 'The change could not be saved.');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitEntry = async () => {
+    let body;
+    try {
+      body = parseModerationEntry({
+        ...(targetKind === 'fundraiser'
+          ? { fundraiserId: target.trim() ? Number(target.trim()) : NaN }
+          : { owner: target.trim() }),
+        action,
+        reason,
+      });
+    } catch (err: any) {
+      setFormError(err.message);
+      return;
+    }
+    const saved = await apply(async () => {
+      await addModerationEntry(body);
+      return null;
+    });
+    if (saved) {
+      setTarget('');
+      setReason('');
+    }
+  };
+
+  // Fills the form from a report, so the moderator can adjust the reason before saving
+  const actOnReport = (report: FundraiserReportJson, reportAction: ModerationAction) => {
+    setTargetKind('fundraiser');
+    setTarget(String(report.fundraiserId));
+    setAction(reportAction);
+    setReason(report.reason);
+    setFormError('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>Moderation - Helping Hand</title>
+        <meta content="Hide or flag fundraisers and review reports" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8 max-w-4xl">
+        <h1 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-green-800 to-green-500 bg-clip-text text-transparent">
+          Moderation
+        </h1>
+
+        {loadError && (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600">{loadError}</p>
+            <p className="text-sm text-gray-500 mt-2">Signed in as {session.address}.</p>
+          </Card>
+        )}
+
+        {!queue && !loadError && (
+          <div className="flex justify-center py-16">
+            <CircularProgress color="success" />
+          </div>
+        )}
+
+        {queue && (
+          <>
+            <Card className="p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">Hide or flag</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Hidden fundraisers are left out of every listing and detail page, except for their owner. Flagged ones
+                stay visible with the reason as a warning. The contract is not affected.
+              </p>
+
+              {formError && (
+                <div className="p-3 mb-4 bg-red-100 border border-red-400 text-red-700 rounded-md">{formError}</div>
+              )}
+
+              <div className="grid md:grid-cols-3 gap-2 mb-2">
+                <select
+                  value={targetKind}
+                  onChange={e => setTargetKind(e.target.value as TargetKind)}
+                  className="p-2 border rounded-md"
+                >
+                  <option value="fundraiser">Fundraiser id</option>
+                  <option value="owner">Owner address</option>
+                </select>
+                <input
+                  value={target}
+                  onChange={e => setTarget(e.target.value)}
+                  placeholder={targetKind === 'fundraiser' ? 'e.g. 16' : '0x…'}
+                  className="p-2 border rounded-md"
+                />
+                <select
+                  value={action}
+                  onChange={e => setAction(e.target.value as ModerationAction)}
+                  className="p-2 border rounded-md"
+                >
+                  <option value="hide">Hide</option>
+                  <option value="flag">Flag</option>
+                </select>
+              </div>
+              <textarea
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                maxLength={MAX_REASON_LENGTH}
+                placeholder="Reason"
+                rows={2}
+                className="w-full p-2 border rounded-md mb-2"
+              />
+              <Button onClick={submitEntry} disabled={busy}>
+                Save
+              </Button>
+            </Card>
+
+            <Card className="p-6 mb-6">
+              <div className="flex items-baseline justify-between mb-4">
+                <h2 className="text-xl font-semibold">Reports</h2>
+                <Button variant="outline" size="sm" onClick={load} disabled={busy}>
+                  Refresh
+                </Button>
+              </div>
+              {queue.reports.length === 0 && <p className="text-sm text-gray-500">No open reports.</p>}
+              {queue.reports.length > 0 && (
+                <ul className="divide-y">
+                  {queue.reports.map(report => (
+                    <li key={report.id} className="py-3 text-sm">
+                      <div className="flex justify-between gap-2">
+                        <FundraiserLink id={report.fundraiserId} />
+                        <span className="text-gray-500">{formatTime(report.createdAt)}</span>
+                      </div>
+                      <div className="text-gray-700 whitespace-pre-wrap">{report.reason}</div>
+                      <div className="text-gray-500 break-all mb-2">Reported by {report.reporter}</div>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => actOnReport(report, 'hide')} disabled={busy}>
+                          Hide…
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => actOnReport(report, 'flag')} disabled={busy}>
+                          Flag…
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => apply(() => dismissReport(report.id))} disabled={busy}>
+                          Dismiss
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+
+            <Card className="p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">Denylist</h2>
+              {queue.entries.length === 0 && <p className="text-sm text-gray-500">Nothing is hidden or flagged.</p>}
+              {queue.entries.length > 0 && (
+                <ul className="divide-y">
+                  {queue.entries.map(entry => (
+                    <li key={entry.id} className="py-3 text-sm">
+                      <div className="flex justify-between gap-2">
+                        <span>
+                          <span className="font-medium">{MODERATION_ACTION_LABELS[entry.action]}</span>:{' '}
+                          <EntryTarget entry={entry} />
+                        </span>
+                        <span className="text-gray-500">{formatTime(entry.createdAt)}</span>
+                      </div>
+                      <div className="text-gray-700 whitespace-pre-wrap">{entry.reason}</div>
+                      <div className="flex justify-between items-center gap-2">
+                        <span className="text-gray-500 break-all">By {entry.createdBy}</span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => apply(() => removeModerationEntry(entry.id))}
+                          disabled={busy}
+                        >
+                          Lift
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { CircularProgress } from '@mui/material';
+import { AlertTriangle } from 'lucide-react';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { useVerification } from '@/contexts/VerificationContext';
+import { decodeContractError } from '@/lib/contractErrors';
+import { ReclaimableContribution, emergencyUserWithdraw, getReclaimable } from '@/lib/emergencyWithdrawal';
+import { fundraiserTitle } from '@/lib/fundraiser';
+import { DonationJson, DonorResponse, fetchAllFundraisers, fetchDonor } from '@/lib/fundraiserApi';
+import { createPooledFundraiserReader } from '@/lib/fundraiserClient';
+import { rpcPoolFor } from '@/lib/rpcPool';
+import { DEFAULT_CHAIN_ID, defaultDeployment } from '@/lib/deployments';
+import { useEnsureChain } from '@/hooks/useEnsureChain';
+import { useWalletSigner } from '@/hooks/useWalletSigner';
+import { DonationReceipt, downloadReceipt, printReceipt, transactionUrl } from '@/lib/receipt';
+import { formatUsdc, fromContractUsdc } from '@/lib/usdc';
+
+interface FundraiserDonations {
+  fundraiserId: number;
+  title: string;
+  donations: DonationJson[];
+  // USDC base units
+  donated: bigint;
+  refunded: bigint;
+  // getUserContribution, null if the read failed
+  onChain: bigint | null;
+  // Only read while emergency withdrawals are enabled; null otherwise or if the read failed
+  reclaimable: ReclaimableContribution | null;
+}
+
+type Message = { type: 'error' | 'success'; text: string; transactionHash?: string; chainId?: number };
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-8)}`;
+
+export default function MyDonations() {
+  const { isVerified } = useVerification();
+  const { address, isConnected } = useAccount();
+  const ensureChain = useEnsureChain();
+  const getSigner = useWalletSigner();
+
+  const [groups, setGroups] = useState<FundraiserDonations[]>([]);
+  const [donor, setDonor] = useState<DonorResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [emergencyEnabled, setEmergencyEnabled] = useState(false);
+  const [reclaimingId, setReclaimingId] = useState<number | null>(null);
+  const [messages, setMessages] = useState<Record<number, Message>>({});
+
+  useEffect(() => {
+    if (!address) {
+      setGroups([]);
+      setDonor(null);
+      setEmergencyEnabled(false);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const [donorData, fundraisers] = await Promise.all([
+          fetchDonor(address),
+          // Titles are nice to have; the history still renders without them
+          fetchAllFundraisers().catch(err => {
+            console.error('Error loading fundraiser titles:', err);
+            return [];
+          }),
+        ]);
+        const titles = new Map(fundraisers.map(fundraiser => [fundraiser.id, fundraiserTitle(fundraiser)]));
+        // The history is the default deployment's, so its contributions are read there too
+        const reader = createPooledFundraiserReader(rpcPoolFor(DEFAULT_CHAIN_ID), defaultDeployment.fundraiser);
+        // Without the status there is no way to tell whether refunds are open, so keep them hidden
+        const enabled = await reader
+          .getContractStatus()
+          .then(status => status.isEmergencyWithdrawalEnabled)
+          .catch(err => {
+            console.error('Error reading the contract status:', err);
+            return false;
+          });
+
+        const loaded = await Promise.all(
+          donorData.contributions.map(async contribution => {
+            const onChain = await reader
+              .getUserContribution(address, contribution.fundraiserId)
+              .then(fromContractUsdc)
+              .catch(err => {
+                console.error(`Error reading contribution to #${contribution.fundraiserId}:`, err);
+                return null;
+              });
+            const reclaimable = enabled
+              ? await getReclaimable(reader, contribution.fundraiserId, address).catch(err => {
+                  console.error(`Error checking emergency withdrawal for #${contribution.fundraiserId}:`, err);
+                  return null;
+                })
+              : null;
+            return {
+              fundraiserId: contribution.fundraiserId,
+              title: titles.get(contribution.fundraiserId) || `Fundraiser #${contribution.fundraiserId}`,
+              donations: donorData.donations.filter(donation => donation.fundraiserId === contribution.fundraiserId),
+              donated: BigInt(contribution.donated),
+              refunded: BigInt(contribution.refunded),
+              onChain,
+              reclaimable,
+            };
+          })
+        );
+
+        if (!cancelled) {
+          setDonor(donorData);
+          setGroups(loaded);
+          setEmergencyEnabled(enabled);
+        }
+      } catch (err: any) {
+        console.error('Error loading donation history:', err);
+        if (!cancelled) setError(err.message || 'Failed to load your donations');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const setMessage = (id: number, message?: Message) =>
+    setMessages(prev => {
+      const next = { ...prev };
+      if (message) next[id] = message;
+      else delete next[id];
+      return next;
+    });
+
+  const handleReclaim = async (group: FundraiserDonations) => {
+    setMessage(group.fundraiserId);
+    setReclaimingId(group.fundraiserId);
+    try {
+      // Refunds come from the deployment the donations went to, whatever chain the wallet is on
+      const deployment = await ensureChain(DEFAULT_CHAIN_ID);
+      const { transactionHash, amount } = await emergencyUserWithdraw(
+        group.fundraiserId,
+        await getSigner(),
+        deployment.fundraiser
+      );
+
+      // The indexer picks the refund up on its next poll, so reflect it right away
+      setGroups(prev =>
+        prev.map(item =>
+          item.fundraiserId === group.fundraiserId
+            ? {
+                ...item,
+                refunded: item.refunded + amount,
+                onChain: item.onChain !== null && item.onChain > amount ? item.onChain - amount : BigInt(0),
+                reclaimable: { possible: false, amount: BigInt(0) },
+              }
+            : item
+        )
+      );
+      setMessage(group.fundraiserId, {
+        type: 'success',
+        text: `${formatUsdc(amount)} returned to your wallet.`,
+        transactionHash,
+        chainId: DEFAULT_CHAIN_ID,
+      });
+    } catch (err) {
+      console.error('Error performing emergency withdrawal:', err);
+      setMessage(group.fundraiserId, { type: 'error', text: decodeContractError(err, 'emergencyUserWithdraw').message });
+    } finally {
+      setReclaimingId(null);
+    }
+  };
+
+  // Donation history comes from the server's index of the default deployment
+  const toReceipt = (group: FundraiserDonations, donation: DonationJson): DonationReceipt => ({
+    chainId: DEFAULT_CHAIN_ID,
+    donor: donation.donor,
+    fundraiserId: donation.fundraiserId,
+    fundraiserTitle: group.title,
+    amount: BigInt(donation.amount),
+    timestamp: donation.timestamp,
+    blockNumber: donation.blockNumber,
+    transactionHash: donation.transactionHash,
+  });
+
+  const handlePrint = (receipt: DonationReceipt) => {
+    try {
+      printReceipt(receipt);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const totalDonated = groups.reduce((total, group) => total + group.donated, BigInt(0));
+  const totalRefunded = groups.reduce((total, group) => total + group.refunded, BigInt(0));
+  const totalReclaimable = groups.reduce(
+    (total, group) => (group.reclaimable?.possible ? total + group.reclaimable.amount : total),
+    BigInt(0)
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>My Donations - Helping Hand</title>
+        <meta content="Your donation history and receipts on Helping Hand" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8 max-w-4xl">
+        <h1 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-green-800 to-green-500 bg-clip-text text-transparent">
+          My Donations
+        </h1>
+
+        {!isConnected && (
+          <Card className="p-6 flex flex-col items-center gap-4 text-center">
+            <p className="text-gray-600">Connect your wallet to see the fundraisers you have supported.</p>
+            <ConnectButton />
+          </Card>
+        )}
+
+        {isConnected && loading && (
+          <div className="flex justify-center py-16">
+            <CircularProgress color="success" />
+          </div>
+        )}
+
+        {isConnected && error && (
+          <div className="p-3 mb-6 bg-red-100 border border-red-400 text-red-700 rounded-md">{error}</div>
+        )}
+
+        {isConnected && !loading && !error && donor && (
+          <>
+            <Card className="p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">Totals</h2>
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="text-sm text-gray-500">
+                    <th className="pb-2">Token</th>
+                    <th className="pb-2">Donated</th>
+                    <th className="pb-2">Refunded</th>
+                    <th className="pb-2">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td>USDC</td>
+                    <td>{formatUsdc(totalDonated)}</td>
+                    <td>{formatUsdc(totalRefunded)}</td>
+                    <td className="font-semibold">{formatUsdc(totalDonated - totalRefunded)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {donor.indexedThroughBlock !== null && (
+                <p className="text-xs text-gray-500 mt-4">Includes donations up to block {donor.indexedThroughBlock}.</p>
+              )}
+            </Card>
+
+            {emergencyEnabled && (
+              <div className="p-3 mb-6 bg-amber-100 border border-amber-400 text-amber-800 rounded-md flex gap-2">
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                <div>
+                  Emergency withdrawals are enabled. You can take back the part of your donations that fundraiser
+                  owners have not withdrawn yet
+                  {totalReclaimable > BigInt(0) ? ` (about ${formatUsdc(totalReclaimable)} in total).` : '.'}
+                </div>
+              </div>
+            )}
+
+            {groups.length === 0 && (
+              <Card className="p-6 text-center">
+                <p className="text-gray-600 mb-4">You have not donated to any fundraiser yet.</p>
+                <Button asChild>
+                  <Link href="/lendahand">Browse help requests</Link>
+                </Button>
+              </Card>
+            )}
+
+            {groups.map(group => {
+              const message = messages[group.fundraiserId];
+              return (
+                <Card key={group.fundraiserId} className="p-6 mb-6">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                    <Link
+                      href={`/helprequest?helpRequestId=${group.fundraiserId}`}
+                      className="text-xl font-semibold hover:underline"
+                    >
+                      {group.title}
+                    </Link>
+                    <span className="text-green-600 font-semibold">{formatUsdc(group.donated)} donated</span>
+                  </div>
+                  {group.refunded > BigInt(0) && (
+                    <p className="text-sm text-gray-600 mb-2">{formatUsdc(group.refunded)} returned through emergency withdrawal</p>
+                  )}
+                  {group.onChain !== null && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      Contribution recorded by the contract: {formatUsdc(group.onChain)}
+                    </p>
+                  )}
+
+                  {emergencyEnabled && group.reclaimable && (
+                    <div className="mb-4 p-3 rounded-md border border-amber-300 bg-amber-50 flex flex-wrap items-center justify-between gap-2">
+                      {group.reclaimable.possible ? (
+                        <span className="text-sm">
+                          You can reclaim up to <span className="font-semibold">{formatUsdc(group.reclaimable.amount)}</span>
+                          {' '}(the contract rounds down to whole USDC; the exact amount is confirmed after the withdrawal).
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-600">Nothing left to reclaim from this fundraiser.</span>
+                      )}
+                      {group.reclaimable.possible && (
+                        <Button
+                          variant="destructive"
+                          onClick={() => handleReclaim(group)}
+                          disabled={reclaimingId !== null}
+                        >
+                          {reclaimingId === group.fundraiserId ? 'Reclaiming...' : 'Reclaim'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {message && (
+                    <div
+                      className={`mb-4 p-3 rounded-md border ${
+                        message.type === 'error'
+                          ? 'bg-red-100 border-red-400 text-red-700'
+                          : 'bg-green-100 border-green-400 text-green-700'
+                      }`}
+                    >
+                      {message.text}{' '}
+                      {message.transactionHash && (
+                        <a href={transactionUrl(message.transactionHash, message.chainId)} target="_blank" rel="noopener noreferrer" className="underline">
+                          View transaction
+                        </a>
+                      )}
+                    </div>
+                  )}
+
+                  <ul className="divide-y">
+                    {group.donations.map(donation => {
+                      const receipt = toReceipt(group, donation);
+                      return (
+                        <li
+                          key={`${donation.transactionHash}-${donation.logIndex}`}
+                          className="py-3 flex flex-wrap items-center justify-between gap-2"
+                        >
+                          <div>
+                            <div className="font-medium">{formatUsdc(BigInt(donation.amount))} USDC</div>
+                            <div className="text-sm text-gray-500">{formatDate(donation.timestamp)}</div>
+                            <a
+                              href={transactionUrl(donation.transactionHash)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-sm text-green-700 hover:underline"
+                            >
+                              {shortHash(donation.transactionHash)}
+                            </a>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button variant="outline" onClick={() => downloadReceipt(receipt)}>
+                              Download receipt
+                            </Button>
+                            <Button variant="outline" onClick={() => handlePrint(receipt)}>
+                              Print / PDF
+                            </Button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </Card>
+              );
+            })}
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { CircularProgress } from '@mui/material';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Navigation } from '@/components/Navigation';
+import { useNavigation } from '@/hooks/useNavigation';
+import { useEnsureChain } from '@/hooks/useEnsureChain';
+import { useWalletSigner } from '@/hooks/useWalletSigner';
+import { useModeration } from '@/hooks/useModeration';
+import { Footer } from '@/components/Footer';
+import { useVerification } from '@/contexts/VerificationContext';
+import {
+  FUNDRAISER_STATUS_LABELS,
+  Fundraiser,
+  fundraiserTitle,
+  progressPercent,
+  withdrawalsOpen,
+} from '@/lib/fundraiser';
+import { fetchAllFundraisers, fetchFundraiserWithdrawals } from '@/lib/fundraiserApi';
+import { createFundraiserWriter } from '@/lib/fundraiserClient';
+import { decodeContractError } from '@/lib/contractErrors';
+import { formatUsdc, parseUsdc, toContractUsdc, USDC_UNIT } from '@/lib/usdc';
+
+interface OwnedFundraiser {
+  fundraiser: Fundraiser;
+  // USDC base units already claimed through withdraw()
+  withdrawn: bigint;
+}
+
+const ZERO = BigInt(0);
+
+const available = ({ fundraiser, withdrawn }: OwnedFundraiser) =>
+  fundraiser.amountRaised > withdrawn ? fundraiser.amountRaised - withdrawn : ZERO;
+
+// Readable version of the contract's WithdrawalConditionsNotMet check
+const lockedReason = (fundraiser: Fundraiser) =>
+  `Funds unlock once the ${formatUsdc(fundraiser.goal)} goal is reached or after the deadline on ` +
+  `${fundraiser.endDate.toLocaleString()}. ${formatUsdc(fundraiser.amountRaised)} raised so far.`;
+
+const describeWithdrawError = (err: unknown, fundraiser: Fundraiser) => {
+  const decoded = decodeContractError(err, 'withdraw');
+  // Say exactly when the funds unlock instead of the generic wording
+  return decoded.name === 'WithdrawalConditionsNotMet' ? lockedReason(fundraiser) : decoded.message;
+};
+
+export default function MyFundraisers() {
+  const { isVerified } = useVerification();
+  const { handleLendAHand } = useNavigation();
+  const ensureChain = useEnsureChain();
+  const getSigner = useWalletSigner();
+  const { address, isConnected } = useAccount();
+
+  const [owned, setOwned] = useState<OwnedFundraiser[]>([]);
+  const [amounts, setAmounts] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [withdrawingId, setWithdrawingId] = useState<number | null>(null);
+  const [messages, setMessages] = useState<Record<number, { type: 'error' | 'success'; text: string }>>({});
+  // Owners still see (and can withdraw from) fundraisers the moderators hid
+  const { verdict } = useModeration();
+
+  useEffect(() => {
+    if (!address) {
+      setOwned([]);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const fundraisers = await fetchAllFundraisers({ owner: address, sort: 'newest' });
+        const loaded = await Promise.all(
+          fundraisers.map(async fundraiser => {
+            const { totalWithdrawn } = await fetchFundraiserWithdrawals(fundraiser.id);
+            return { fundraiser, withdrawn: BigInt(totalWithdrawn) };
+          })
+        );
+        if (!cancelled) setOwned(loaded);
+      } catch (err: any) {
+        console.error('Error loading your fundraisers:', err);
+        if (!cancelled) setError(err.message || 'Failed to load your fundraisers');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const setMessage = (id: number, message?: { type: 'error' | 'success'; text: string }) =>
+    setMessages(prev => {
+      const next = { ...prev };
+      if (message) next[id] = message;
+      else delete next[id];
+      return next;
+    });
+
+  const handleWithdraw = async (entry: OwnedFundraiser) => {
+    const { fundraiser } = entry;
+    setMessage(fundraiser.id);
+
+    let baseUnits: bigint;
+    let wholeUsdc: bigint;
+    try {
+      baseUnits = parseUsdc(amounts[fundraiser.id] || '');
+      wholeUsdc = toContractUsdc(baseUnits);
+    } catch (err: any) {
+      setMessage(fundraiser.id, { type: 'error', text: err.message });
+      return;
+    }
+    if (baseUnits < USDC_UNIT) {
+      setMessage(fundraiser.id, { type: 'error', text: 'Enter at least 1 USDC.' });
+      return;
+    }
+    if (baseUnits > available(entry)) {
+      setMessage(fundraiser.id, {
+        type: 'error',
+        text: `You can withdraw at most ${formatUsdc(available(entry))}.`,
+      });
+      return;
+    }
+    setWithdrawingId(fundraiser.id);
+    try {
+      // The list comes from the server's deployment; withdraw there, whatever chain the wallet is on
+      const deployment = await ensureChain(fundraiser.chainId);
+      const contract = createFundraiserWriter(await getSigner(), deployment.fundraiser);
+
+      const tx = await contract.withdraw(fundraiser.id, wholeUsdc);
+      await tx.wait();
+
+      // The API caches chain reads for a few seconds, so reflect the withdrawal right away
+      setOwned(prev =>
+        prev.map(item =>
+          item.fundraiser.id === fundraiser.id ? { ...item, withdrawn: item.withdrawn + baseUnits } : item
+        )
+      );
+      setAmounts(prev => ({ ...prev, [fundraiser.id]: '' }));
+      setMessage(fundraiser.id, { type: 'success', text: `Withdrew ${formatUsdc(baseUnits)}.` });
+    } catch (err) {
+      console.error('Error withdrawing:', err);
+      setMessage(fundraiser.id, { type: 'error', text: describeWithdrawError(err, fundraiser) });
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>My Fundraisers - Helping Hand</title>
+        <meta content="Manage your fundraisers and withdraw donations" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8 max-w-4xl">
+        <h1 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-green-800 to-green-500 bg-clip-text text-transparent">
+          My Fundraisers
+        </h1>
+
+        {!isConnected && (
+          <Card className="p-6 flex flex-col items-center gap-4 text-center">
+            <p className="text-gray-600">Connect the wallet you created your fundraisers with.</p>
+            <ConnectButton />
+          </Card>
+        )}
+
+        {isConnected && loading && (
+          <div className="flex justify-center py-16">
+            <CircularProgress color="success" />
+          </div>
+        )}
+
+        {isConnected && error && (
+          <div className="p-3 mb-6 bg-red-100 border border-red-400 text-red-700 rounded-md">{error}</div>
+        )}
+
+        {isConnected && !loading && !error && owned.length === 0 && (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">You have not created any fundraisers with this wallet.</p>
+            <Button onClick={handleLendAHand}>Ask for Help</Button>
+          </Card>
+        )}
+
+        {isConnected &&
+          !loading &&
+          owned.map(entry => {
+            const { fundraiser, withdrawn } = entry;
+            const unlocked = withdrawalsOpen(fundraiser);
+            const claimable = available(entry);
+            const message = messages[fundraiser.id];
+            const { hidden, flagged } = verdict(fundraiser);
+
+            return (
+              <Card key={fundraiser.id} className="p-6 mb-6">
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                  <Link
+                    href={`/helprequest?helpRequestId=${fundraiser.id}`}
+                    className="text-xl font-semibold hover:underline"
+                  >
+                    {fundraiserTitle(fundraiser)}
+                  </Link>
+                  <span className="text-sm px-2 py-1 rounded bg-green-100 text-green-800">
+                    {FUNDRAISER_STATUS_LABELS[fundraiser.status]}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">Deadline: {fundraiser.endDate.toLocaleString()}</p>
+                {(hidden || flagged) && (
+                  <p className="text-sm text-amber-700 mb-4">
+                    {hidden
+                      ? `Hidden from other visitors by the moderators: ${hidden.reason}`
+                      : `Flagged by the moderators: ${flagged?.reason}`}
+                  </p>
+                )}
+
+                <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
+                  <div className="bg-green-500 h-3 rounded-full" style={{ width: `${progressPercent(fundraiser)}%` }} />
+                </div>
+                <p className="text-sm mb-4">
+                  {formatUsdc(fundraiser.amountRaised)} raised of {formatUsdc(fundraiser.goal)} (
+                  {progressPercent(fundraiser, { capped: false }).toFixed(0)}%)
+                </p>
+
+                <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                  <div>
+                    <div className="text-sm text-gray-500">Raised</div>
+                    <div className="font-semibold">{formatUsdc(fundraiser.amountRaised)}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-500">Withdrawn</div>
+                    <div className="font-semibold">{formatUsdc(withdrawn)}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-500">Available</div>
+                    <div className="font-semibold text-green-700">{formatUsdc(claimable)}</div>
+                  </div>
+                </div>
+
+                {!unlocked && <p className="text-sm text-amber-700 mb-4">{lockedReason(fundraiser)}</p>}
+
+                {unlocked && claimable > ZERO && (
+                  <div className="flex flex-wrap gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={amounts[fundraiser.id] || ''}
+                      onChange={e => setAmounts(prev => ({ ...prev, [fundraiser.id]: e.target.value }))}
+                      placeholder="Amount in USDC"
+                      className="flex-1 min-w-[160px] p-2 border rounded-md"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() =>
+                        setAmounts(prev => ({
+                          ...prev,
+                          // withdraw() only takes whole USDC
+                          [fundraiser.id]: (claimable / USDC_UNIT).toString(),
+                        }))
+                      }
+                    >
+                      Max
+                    </Button>
+                    <Button onClick={() => handleWithdraw(entry)} disabled={withdrawingId !== null}>
+                      {withdrawingId === fundraiser.id ? 'Withdrawing...' : 'Withdraw'}
+                    </Button>
+                  </div>
+                )}
+
+                {message && (
+                  <div
+                    className={`mt-4 p-3 rounded-md border ${
+                      message.type === 'error'
+                        ? 'bg-red-100 border-red-400 text-red-700'
+                        : 'bg-green-100 border-green-400 text-green-700'
+                    }`}
+                  >
+                    {message.text}
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { useEffect } from 'react';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { CircularProgress } from '@mui/material';
+import { Card } from "@/components/ui/card";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVerification } from '@/contexts/VerificationContext';
+
+// Only same-site paths, so ?next= cannot send anyone elsewhere
+const safeNext = (next: unknown) =>
+  typeof next === 'string' && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+
+export default function SignIn() {
+  const router = useRouter();
+  const { isVerified } = useVerification();
+  const { status } = useAuth();
+
+  useEffect(() => {
+    if (router.isReady && status === 'authenticated') {
+      router.replace(safeNext(router.query.next));
+    }
+  }, [router, status]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>Sign In - Helping Hand</title>
+        <meta content="Sign in to Helping Hand with your wallet" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8 max-w-xl">
+        <Card className="p-6 flex flex-col items-center gap-4 text-center">
+          <h1 className="text-2xl font-bold">Sign in with your wallet</h1>
+          <p className="text-gray-600">
+            Connect your wallet and sign the message it shows you. Signing is free and does not send a transaction.
+          </p>
+          {status === 'authenticated' ? <CircularProgress color="success" /> : <ConnectButton />}
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
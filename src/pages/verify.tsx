@@ -6,11 +6,16 @@ import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useState, useRef } from 'react';
-import { CheckCircle } from 'lucide-react';
+import { CheckCircle, XCircle } from 'lucide-react';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { useRouter } from 'next/router'; // Updated import for useRouter
 import { useVerification } from '@/contexts/VerificationContext';
+import { useAccount } from 'wagmi';
+import { useAuth } from '@/contexts/AuthContext';
+import { VerificationStatusResponse, verifyCredential } from '@/lib/fundraiserApi';
+import { askForHelpPath } from '@/lib/eligibility';
+import { CredentialReport, checkSubject, parseCredential, readCredentialFile } from '@/lib/credentials';
 
 // Add this at the top of the component to make external links more secure
 const externalLinkProps = {
@@ -18,13 +23,14 @@ const externalLinkProps = {
   rel: "noopener noreferrer"
 };
 
-const apiKey = process.env.NEXT_PUBLIC_API_KEY;
-
 const Verify: NextPage = () => {
-  const { setVerified } = useVerification();
+  const { isVerified, setVerification } = useVerification();
+  const { address, isConnected } = useAccount();
+  // /api/verify only accepts the wallet that signed in
+  const { status: authStatus } = useAuth();
   const [apiResponse, setApiResponse] = useState<string | null>(null);
+  const [report, setReport] = useState<CredentialReport | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isVerified, setIsVerified] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
@@ -34,6 +40,7 @@ const Verify: NextPage = () => {
     if (file) {
       setSelectedFile(file);
       setApiResponse(null); // Clear any previous response
+      setReport(null);
     }
   };
 
@@ -42,58 +49,56 @@ const Verify: NextPage = () => {
       setApiResponse('Please select a verifiable credentials file first');
       return;
     }
+    // The verification session is bound to the wallet that asks for it
+    if (!address) {
+      setApiResponse('Please connect your wallet first');
+      return;
+    }
 
     try {
       setIsLoading(true);
       
-      // Read the file content
+      // Read the file content: JSON, or a JWT-VC
       const fileContent = await selectedFile.text();
       let vcData;
       try {
-        vcData = JSON.parse(fileContent);
-      } catch (error) {
-        setApiResponse('Error: Invalid JSON file format');
+        vcData = readCredentialFile(fileContent);
+        // Catch unknown formats and the wrong wallet here; the server checks again
+        const subjectCheck = checkSubject(parseCredential(vcData).subjectAddress, address);
+        if (!subjectCheck.passed) {
+          setApiResponse(`Error: ${subjectCheck.detail}. Connect the wallet the credential was issued to.`);
+          setIsLoading(false);
+          return;
+        }
+      } catch (error: any) {
+        setApiResponse(`Error: ${error.message}`);
         setIsLoading(false);
         return;
       }
 
-      const response = await fetch(process.env.NEXT_PUBLIC_API_VERIFY_VC || '', {
-        method: 'POST',
-        headers: {
-          "X-API-Token": process.env.NEXT_PUBLIC_API_KEY || '',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(vcData),
-      });
-      
-      const data = await response.json();
-      console.log('API Response:', data);
+      // The server checks issuer, expiry and claims, and has the proof verified
+      const data = await verifyCredential({ address, credential: vcData });
       setApiResponse(data.message);
-      
-      if (data.isValid === true) {
+      setReport(data.report);
+
+      if (data.isValid && data.session) {
+        const verification = { session: data.session, eligibility: data.eligibility };
         setTimeout(() => {
-          handleVerificationSuccess();
+          handleVerificationSuccess(verification);
         }, 1500);
       }
-    } catch (error) {
-      setApiResponse('Error: Failed to verify credentials');
+    } catch (error: any) {
+      setApiResponse(`Error: ${error.message || 'Failed to verify credentials'}`);
       console.error('Verification failed:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleVerificationSuccess = () => {
-    setVerified(true);
-    router.push('/helpme');
-  };
-
-  const handleLendAHand = () => {
-    if (!isVerified) {
-      router.push('/verify');
-      return;
-    }
-    router.push('/helpme');
+  // A valid credential whose claims miss the eligibility rules lands on /eligibility
+  const handleVerificationSuccess = (verification: VerificationStatusResponse) => {
+    setVerification(verification);
+    router.push(askForHelpPath(verification.eligibility.status));
   };
 
   return (
@@ -107,7 +112,7 @@ const Verify: NextPage = () => {
         <link href="/favicon.ico" rel="icon" />
       </Head>
 
-      <Navigation isVerified={isVerified} onAskForHelp={handleLendAHand} />
+      <Navigation isVerified={isVerified} />
 
       <main className="container mx-auto p-8 max-w-4xl">
         <div className="text-center mb-16 py-12 px-4">
@@ -121,11 +126,21 @@ const Verify: NextPage = () => {
 
         <div className="text-center mb-16 py-12 px-4">
           <div className="flex flex-col items-center gap-4">
+            {authStatus !== 'authenticated' && (
+              <div className="flex flex-col items-center gap-2 mb-4">
+                <p className="text-sm text-muted-foreground">
+                  {isConnected
+                    ? 'Sign the message in your wallet to continue.'
+                    : 'Connect and sign in with the wallet you will fundraise with.'}
+                </p>
+                <ConnectButton />
+              </div>
+            )}
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileSelect}
-              accept=".json"
+              accept=".json,.jwt,application/json"
               className="hidden"
             />
             <Button 
@@ -145,7 +160,7 @@ const Verify: NextPage = () => {
             <Button 
               variant="destructive" 
               onClick={handleVerification}
-              disabled={isLoading || !selectedFile}
+              disabled={isLoading || !selectedFile || authStatus !== 'authenticated'}
             >
               {isLoading ? 'Processing...' : 'Verify'}
             </Button>
@@ -156,6 +171,24 @@ const Verify: NextPage = () => {
               <p className="text-foreground">{apiResponse}</p>
             </div>
           )}
+
+          {report && (
+            <ul className="mt-4 space-y-2 text-left max-w-xl mx-auto">
+              {report.checks.map((check, index) => (
+                <li key={`${check.id}-${index}`} className="flex items-start gap-2">
+                  {check.passed ? (
+                    <CheckCircle className="h-5 w-5 text-green-600 shrink-0" />
+                  ) : (
+                    <XCircle className="h-5 w-5 text-red-600 shrink-0" />
+                  )}
+                  <div>
+                    <p className="font-medium">{check.label}</p>
+                    <p className="text-sm text-muted-foreground break-all">{check.detail}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </main>
 
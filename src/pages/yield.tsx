@@ -0,0 +1,293 @@
+import Head from 'next/head';
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { isAddress } from 'ethers';
+import { CircularProgress } from '@mui/material';
+import { AlertTriangle } from 'lucide-react';
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { ConfirmActionDialog } from '@/components/ConfirmActionDialog';
+import { YieldChart } from '@/components/YieldChart';
+import { useVerification } from '@/contexts/VerificationContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { AdminAction, isSignedInOwner, sendAdminAction } from '@/lib/admin';
+import { YieldEventJson, YieldReportResponse, fetchYieldReport, fromYieldSnapshotJson } from '@/lib/fundraiserApi';
+import { decodeContractError } from '@/lib/contractErrors';
+import { transactionUrl } from '@/lib/receipt';
+import { requireDeployment } from '@/lib/deployments';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useWalletSigner } from '@/hooks/useWalletSigner';
+import { useContractOwner } from '@/hooks/useFundraiserContract';
+import { USDC_UNIT, formatUsdc, parseUsdc, toContractUsdc } from '@/lib/usdc';
+
+
+const EVENT_LABELS: Record<YieldEventJson['name'], string> = {
+  YieldDistributed: 'Yield distributed',
+  AaveWithdrawal: 'Withdrawn from Aave',
+  AaveWithdrawalFailed: 'Aave withdrawal failed',
+  EmergencyAaveWithdrawal: 'Emergency withdrawal from Aave',
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+export default function Yield() {
+  const { isVerified } = useVerification();
+  const { address } = useAccount();
+  const { session } = useAuth();
+  const { chainId } = useDeployment();
+  const getSigner = useWalletSigner();
+  const { data: owner } = useContractOwner();
+
+  const [report, setReport] = useState<YieldReportResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [pending, setPending] = useState<AdminAction | null>(null);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const isOwner = isSignedInOwner(owner, address, session?.address);
+
+  const load = useCallback(async () => {
+    setError('');
+    try {
+      setReport(await fetchYieldReport());
+    } catch (err: any) {
+      console.error('Error loading yield data:', err);
+      setError(err.message || 'Failed to load yield data');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const current = report?.current ? fromYieldSnapshotJson(report.current) : null;
+  const history = report ? report.history.map(fromYieldSnapshotJson) : [];
+  const failures = report ? report.events.filter(event => event.name === 'AaveWithdrawalFailed') : [];
+  const distributions = report ? report.events.filter(event => event.name === 'YieldDistributed') : [];
+
+  const requestDistribution = () => {
+    setMessage(null);
+    if (!isAddress(recipient)) {
+      setMessage({ type: 'error', text: 'Enter a valid recipient address.' });
+      return;
+    }
+    let baseUnits: bigint;
+    let wholeUsdc: bigint;
+    try {
+      baseUnits = parseUsdc(amount);
+      wholeUsdc = toContractUsdc(baseUnits);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+      return;
+    }
+    // distributeYield takes whole USDC, so only whole dollars of yield can go out
+    if (wholeUsdc === BigInt(0) || (current && baseUnits > current.availableYield)) {
+      setMessage({
+        type: 'error',
+        text: `Enter a whole USDC amount between 1 and the available yield (${formatUsdc(current?.availableYield ?? BigInt(0))}).`,
+      });
+      return;
+    }
+    setPending({
+      title: 'Distribute yield',
+      summary: `Send ${formatUsdc(baseUnits)} of Aave yield to ${recipient}.`,
+      send: writer => writer.distributeYield(recipient, wholeUsdc),
+    });
+  };
+
+  const handleConfirm = async (action: AdminAction) => {
+    setPending(null);
+    setSending(true);
+    try {
+      const hash = await sendAdminAction(action, await getSigner(), requireDeployment(chainId).fundraiser);
+      setMessage({ type: 'success', text: `${action.summary} Transaction ${hash}.` });
+      setAmount('');
+      await load();
+    } catch (err) {
+      console.error('Error distributing yield:', err);
+      setMessage({ type: 'error', text: decodeContractError(err, 'admin').message });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/20">
+      <Head>
+        <title>Yield - Helping Hand</title>
+        <meta content="Aave yield earned on Helping Hand deposits" name="description" />
+        <link href="/favicon.ico" rel="icon" />
+      </Head>
+
+      <Navigation isVerified={isVerified} />
+
+      <main className="container mx-auto py-8 max-w-4xl">
+        <h1 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-green-800 to-green-500 bg-clip-text text-transparent">
+          Yield
+        </h1>
+
+        {loading && (
+          <div className="flex justify-center py-16">
+            <CircularProgress color="success" />
+          </div>
+        )}
+
+        {error && <div className="p-3 mb-6 bg-red-100 border border-red-400 text-red-700 rounded-md">{error}</div>}
+
+        {failures.map(failure => (
+          <div
+            key={`${failure.transactionHash}-${failure.logIndex}`}
+            className="p-3 mb-4 bg-red-100 border border-red-400 text-red-700 rounded-md flex gap-2"
+          >
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            <div>
+              Aave refused to return {formatUsdc(BigInt(failure.amount))} on {formatDate(failure.timestamp)}
+              {failure.reason ? `: ${failure.reason}` : '.'}{' '}
+              <a href={transactionUrl(failure.transactionHash)} target="_blank" rel="noopener noreferrer" className="underline">
+                View transaction
+              </a>
+            </div>
+          </div>
+        ))}
+
+        {current && !current.isAccountingSafe && (
+          <div className="p-3 mb-4 bg-amber-100 border border-amber-400 text-amber-800 rounded-md flex gap-2">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            The aUSDC balance is below the recorded principal, so no yield can be distributed until it recovers.
+          </div>
+        )}
+
+        {!loading && report && (
+          <>
+            <Card className="p-6 mb-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                <div>
+                  <div className="text-sm text-gray-500">Principal in Aave</div>
+                  <div className="font-semibold">{current ? formatUsdc(current.principal) : '—'}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">aUSDC balance</div>
+                  <div className="font-semibold">{current ? formatUsdc(current.aTokenBalance) : '—'}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Available yield</div>
+                  <div className="font-semibold text-green-700">{current ? formatUsdc(current.availableYield) : '—'}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Distributed so far</div>
+                  <div className="font-semibold">{formatUsdc(BigInt(report.totalDistributed))}</div>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-4 text-center">
+                Rounded down to whole USDC, so yield under 1 USDC shows as 0.
+              </p>
+              {current && !current.isAaveEnabled && (
+                <p className="text-sm text-gray-500 mt-4 text-center">Aave is disabled, so no new yield is accruing.</p>
+              )}
+            </Card>
+
+            <Card className="p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">Principal vs aUSDC</h2>
+              <YieldChart
+                snapshots={history}
+                markers={distributions.map(event => ({
+                  timestamp: event.timestamp,
+                  label: `${formatUsdc(BigInt(event.amount))} to ${event.recipient}`,
+                }))}
+              />
+            </Card>
+
+            {isOwner && (
+              <Card className="p-6 mb-6">
+                <h2 className="text-xl font-semibold mb-4">Distribute yield</h2>
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    value={recipient}
+                    onChange={e => setRecipient(e.target.value)}
+                    placeholder="Recipient address"
+                    className="flex-1 min-w-[240px] p-2 border rounded-md"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                    placeholder="Whole USDC"
+                    className="w-36 p-2 border rounded-md"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => current && setAmount((current.availableYield / USDC_UNIT).toString())}
+                    disabled={!current}
+                  >
+                    Max
+                  </Button>
+                  <Button onClick={requestDistribution} disabled={sending}>
+                    {sending ? 'Distributing...' : 'Distribute'}
+                  </Button>
+                </div>
+                {message && (
+                  <div
+                    className={`mt-4 p-3 rounded-md border break-all ${
+                      message.type === 'error'
+                        ? 'bg-red-100 border-red-400 text-red-700'
+                        : 'bg-green-100 border-green-400 text-green-700'
+                    }`}
+                  >
+                    {message.text}
+                  </div>
+                )}
+              </Card>
+            )}
+
+            <Card className="p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">Aave activity</h2>
+              {report.events.length === 0 && <p className="text-sm text-gray-500">No yield or Aave withdrawals yet.</p>}
+              <ul className="divide-y">
+                {report.events.map(event => (
+                  <li key={`${event.transactionHash}-${event.logIndex}`} className="py-2 text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span className={`font-medium ${event.name === 'AaveWithdrawalFailed' ? 'text-red-600' : ''}`}>
+                        {EVENT_LABELS[event.name]}
+                      </span>
+                      <span className="text-gray-500">{formatDate(event.timestamp)}</span>
+                    </div>
+                    <div className="text-gray-600 break-all">
+                      {formatUsdc(BigInt(event.amount))}
+                      {event.recipient && ` to ${event.recipient}`}
+                      {event.reason && ` (${event.reason})`}
+                    </div>
+                    <a
+                      href={transactionUrl(event.transactionHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-green-700 hover:underline"
+                    >
+                      View transaction
+                    </a>
+                  </li>
+                ))}
+              </ul>
+              {report.indexedThroughBlock !== null && (
+                <p className="text-xs text-gray-500 mt-4">Includes activity up to block {report.indexedThroughBlock}.</p>
+              )}
+            </Card>
+          </>
+        )}
+      </main>
+
+      <ConfirmActionDialog action={pending} onCancel={() => setPending(null)} onConfirm={handleConfirm} />
+
+      <Footer />
+    </div>
+  );
+}
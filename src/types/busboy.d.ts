@@ -0,0 +1,44 @@
+// busboy ships without type definitions; this covers the parts /api/media uses
+declare module 'busboy' {
+  import type { IncomingHttpHeaders } from 'http';
+  import type { Readable, Writable } from 'stream';
+
+  namespace busboy {
+    interface Limits {
+      fieldNameSize?: number;
+      fieldSize?: number;
+      fields?: number;
+      fileSize?: number;
+      files?: number;
+      parts?: number;
+      headerPairs?: number;
+    }
+
+    interface BusboyConfig {
+      headers: IncomingHttpHeaders;
+      limits?: Limits;
+    }
+
+    interface FileInfo {
+      filename: string;
+      encoding: string;
+      mimeType: string;
+    }
+
+    interface FileStream extends Readable {
+      truncated: boolean;
+    }
+
+    interface Busboy extends Writable {
+      on(event: 'file', listener: (name: string, stream: FileStream, info: FileInfo) => void): this;
+      on(event: 'field', listener: (name: string, value: string) => void): this;
+      on(event: 'filesLimit' | 'partsLimit' | 'fieldsLimit' | 'close', listener: () => void): this;
+      on(event: 'error', listener: (err: Error) => void): this;
+      on(event: string, listener: (...args: any[]) => void): this;
+    }
+  }
+
+  function busboy(config: busboy.BusboyConfig): busboy.Busboy;
+
+  export = busboy;
+}
@@ -1,12 +1,6 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import {
-  arbitrum,
-  base,
-  mainnet,
-  optimism,
-  polygon,
-  sepolia,
-} from 'wagmi/chains';
+import { fallback, http, type Transport } from 'viem';
+import { DEPLOYMENTS, SUPPORTED_CHAINS } from './lib/deployments';
 
 // This configuration sets up the basic parameters for our Web3 interactions
 export const config = getDefaultConfig({
@@ -16,21 +10,16 @@ export const config = getDefaultConfig({
   // Your WalletConnect v2 project ID (get one from cloud.walletconnect.com)
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID',
 
-  // The blockchain networks we want to support
-  chains: [
-    // Mainnet networks
-    mainnet,    // Ethereum mainnet
-    polygon,    // Polygon network
-    optimism,   // Optimism network
-    arbitrum,   // Arbitrum network
-    base,       // Base network
-    sepolia,    // Sepolia testnet
+  // The networks FundraiserFactory is deployed on (see src/lib/deployments.ts), default first
+  chains: SUPPORTED_CHAINS,
 
-    // Test networks - only enabled if NEXT_PUBLIC_ENABLE_TESTNETS is true
-    // NEXT_PUBLIC_ENABLE_TESTNETS is not defined in .env.local
-    // This spread operator conditionally adds Sepolia testnet if the env var is set to 'true'
-    ...(process.env.NEXT_PUBLIC_ENABLE_TESTNETS === 'true' ? [sepolia] : []),
-  ],
+  // Reads go to each deployment's RPC endpoints, re-ranked by latency and stability every minute
+  transports: Object.fromEntries(
+    Object.values(DEPLOYMENTS).map(deployment => [
+      deployment.chainId,
+      fallback(deployment.rpcUrls.map(url => http(url)), { rank: { interval: 60_000 } }),
+    ])
+  ) as Record<number, Transport>,
 
   // Enable server-side rendering support
   ssr: true,
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeContent, encodeContent, normalizeContent, parseContent } from '@/lib/content';
+
+// The bytes behind on-chain detailsHash values; a change here breaks every registered fundraiser
+const V1_TEXT =
+  '{"version":1,"title":"Clean water","story":"A well for the village.",' +
+  '"images":["https://example.org/well.jpg"],"links":[{"label":"Plans","url":"https://example.org/plans"}]}';
+const V1_HASH = '0x2fc6fa01dd5965f879cd9f09545901f17c085ca5a9da9160078da5764ad52e13';
+
+const V1_TEXT_WITH_METADATA =
+  V1_TEXT.slice(0, -1) + ',"category":"community","tags":["water","clean-water"],"location":"Nairobi, Kenya"}';
+const V1_HASH_WITH_METADATA = '0xc98551bdd35606099ba54cd7995bac5977e38982637f2a74c2dfd37b6ba21af1';
+
+const content = normalizeContent({
+  title: ' Clean water ',
+  story: 'A well for the village.\n',
+  images: ['https://example.org/well.jpg'],
+  links: [{ label: 'Plans', url: 'https://example.org/plans' }],
+});
+
+describe('canonicalizeContent', () => {
+  it('leaves unset category, tags and location out of the JSON', () => {
+    expect(canonicalizeContent(content)).toBe(V1_TEXT);
+    expect(encodeContent(content)).toEqual({ text: V1_TEXT, hash: V1_HASH });
+  });
+
+  it('appends the optional fields after the original ones', () => {
+    const withMetadata = normalizeContent({
+      ...content,
+      category: 'community',
+      tags: ['Water', '#Clean Water!', 'water'],
+      location: ' Nairobi, Kenya ',
+    });
+    expect(encodeContent(withMetadata)).toEqual({ text: V1_TEXT_WITH_METADATA, hash: V1_HASH_WITH_METADATA });
+  });
+
+  it('round-trips through parseContent', () => {
+    expect(canonicalizeContent(parseContent(V1_TEXT)!)).toBe(V1_TEXT);
+    expect(canonicalizeContent(parseContent(V1_TEXT_WITH_METADATA)!)).toBe(V1_TEXT_WITH_METADATA);
+  });
+});
+
+describe('parseContent', () => {
+  it('drops images and links that are not https or app paths', () => {
+    const parsed = parseContent(
+      JSON.stringify({
+        version: 1,
+        title: 'Clean water',
+        story: 'A well for the village.',
+        images: ['javascript:alert(1)', 'http://example.org/a.jpg', '//evil.example/b.jpg', '/api/media/c.jpg'],
+        links: [
+          { label: 'Run me', url: 'javascript:alert(1)' },
+          { label: 'Data', url: 'data:text/html,<script>alert(1)</script>' },
+          { url: 'https://example.org/plans' },
+        ],
+      })
+    );
+    expect(parsed?.images).toEqual(['/api/media/c.jpg']);
+    expect(parsed?.links).toEqual([{ label: 'https://example.org/plans', url: 'https://example.org/plans' }]);
+  });
+
+  it('returns null for plain text and other versions', () => {
+    expect(parseContent('A well for the village.')).toBeNull();
+    expect(parseContent('{"version":2,"title":"t","story":"s"}')).toBeNull();
+    expect(parseContent('{not json')).toBeNull();
+  });
+});
+
+describe('normalizeContent', () => {
+  it('rejects unsafe URLs', () => {
+    expect(() => normalizeContent({ ...content, images: ['http://example.org/a.jpg'] })).toThrow(
+      'Image 1 must be an https:// link.'
+    );
+    expect(() => normalizeContent({ ...content, links: [{ label: '', url: 'javascript:alert(1)' }] })).toThrow(
+      'Link 1 must be an https:// link.'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { Interface } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { decodeContractError } from '@/lib/contractErrors';
+
+const SPENDER = '0x000000000000000000000000000000000000dEaD';
+const errors = new Interface([
+  'error InvalidInput(uint8 code)',
+  'error WithdrawalConditionsNotMet()',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+]);
+const invalidInput = (code: number) => errors.encodeErrorResult('InvalidInput', [code]);
+
+describe('InvalidInput messages', () => {
+  it('uses the wording of the call that reverted', () => {
+    const err = { code: 'CALL_EXCEPTION', data: invalidInput(5) };
+    expect(decodeContractError(err, 'withdraw').message).toBe('That is more than the unclaimed balance of this fundraiser.');
+    expect(decodeContractError(err, 'admin').message).toBe('Aave is disabled or holds no deposits.');
+  });
+
+  it('falls back to the default wording, then to the bare code', () => {
+    expect(decodeContractError({ data: invalidInput(2) }, 'donate')).toMatchObject({
+      kind: 'revert',
+      name: 'InvalidInput',
+      code: 2,
+      message: 'The amount must be greater than zero.',
+    });
+    expect(decodeContractError({ data: invalidInput(9) }).message).toBe('The contract rejected the input (code 9).');
+  });
+});
+
+describe('revert parsing', () => {
+  it('reads the revert ethers already decoded', () => {
+    const err = { code: 'CALL_EXCEPTION', data: invalidInput(1), revert: { name: 'InvalidInput', args: [BigInt(1)] } };
+    expect(decodeContractError(err, 'donate')).toMatchObject({
+      name: 'InvalidInput',
+      code: 1,
+      selector: invalidInput(1).slice(0, 10),
+      message: 'That fundraiser does not exist.',
+    });
+  });
+
+  it('finds the data a JSON-RPC provider nests under info.error', () => {
+    const err = {
+      code: 'CALL_EXCEPTION',
+      info: { error: { code: 3, data: errors.encodeErrorResult('WithdrawalConditionsNotMet', []) } },
+    };
+    expect(decodeContractError(err)).toMatchObject({ kind: 'revert', name: 'WithdrawalConditionsNotMet' });
+  });
+
+  it("decodes the raw data of viem's ContractFunctionRevertedError", () => {
+    const raw = errors.encodeErrorResult('ERC20InsufficientAllowance', [SPENDER, BigInt(1_000_000), BigInt(5_000_000)]);
+    const err = {
+      name: 'ContractFunctionExecutionError',
+      cause: { name: 'ContractFunctionRevertedError', raw },
+    };
+    const decoded = decodeContractError(err, 'donate');
+    expect(decoded).toMatchObject({
+      kind: 'revert',
+      name: 'ERC20InsufficientAllowance',
+      args: [SPENDER, BigInt(1_000_000), BigInt(5_000_000)],
+    });
+    expect(decoded.message).toMatch(/^The contract is approved to spend .* but needs .*\. Approve the amount and try again\.$/);
+  });
+
+  it('maps known require() strings', () => {
+    const data = new Interface(['function Error(string)']).encodeFunctionData('Error', ['Invalid fundraiser ID']);
+    expect(decodeContractError({ data })).toMatchObject({ name: 'Error', message: 'That fundraiser does not exist.' });
+  });
+
+  it('reports a revert without data as one the contract did not explain', () => {
+    const err = { name: 'ContractFunctionExecutionError', cause: { name: 'ContractFunctionRevertedError' } };
+    expect(decodeContractError(err)).toMatchObject({ kind: 'revert', name: null, code: null });
+  });
+});
+
+describe('wallet and network failures', () => {
+  it('recognizes a rejection nested inside the provider error', () => {
+    expect(decodeContractError({ code: 'UNKNOWN_ERROR', error: { code: 4001, message: 'User denied' } }).kind).toBe('rejected');
+  });
+
+  it("prefers viem's short message for unknown errors", () => {
+    const err = { shortMessage: 'Something broke.', message: 'Something broke.\n\nRequest body: {...}' };
+    expect(decodeContractError(err)).toMatchObject({ kind: 'unknown', message: 'Something broke.' });
+  });
+});
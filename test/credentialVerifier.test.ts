@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { BaseWallet, Wallet, getBytes, sha256, toUtf8Bytes } from 'ethers';
+import { credentialPolicy, verifyCredentialInput } from '@/lib/credentialVerifier';
+import { parseClaimRequirements } from '@/lib/credentials';
+
+const base64Url = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64url');
+const encodeJson = (value: unknown) => base64Url(toUtf8Bytes(JSON.stringify(value)));
+
+// An ES256K JWT-VC for `subject`, signed by `signer` as did:ethr:<signer>
+const signJwtVc = (signer: BaseWallet, subject: string) => {
+  const issuer = `did:ethr:${signer.address}`;
+  const now = Math.floor(Date.now() / 1000);
+  const header = encodeJson({ alg: 'ES256K', typ: 'JWT' });
+  const payload = encodeJson({
+    iss: issuer,
+    sub: `did:ethr:${subject}`,
+    nbf: now - 60,
+    exp: now + 3600,
+    vc: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiableCredential'],
+      credentialSubject: { kyc: 'passed', age: 30 },
+    },
+  });
+  const signature = signer.signingKey.sign(sha256(toUtf8Bytes(`${header}.${payload}`)));
+  return { issuer, jwt: `${header}.${payload}.${base64Url(getBytes(signature.serialized).slice(0, 64))}` };
+};
+
+const policy = (trustedIssuers: string[]) => ({
+  trustedIssuers,
+  requiredClaims: parseClaimRequirements('kyc=passed,age>=18'),
+});
+
+const proofCheck = (checks: Array<{ id: string; passed: boolean; detail: string }>) =>
+  checks.find(check => check.id === 'proof');
+
+describe('JWT-VC verification', () => {
+  it('rejects a self-issued credential when no issuer allowlist is configured', async () => {
+    const wallet = Wallet.createRandom();
+    const { jwt } = signJwtVc(wallet, wallet.address);
+
+    const report = await verifyCredentialInput(jwt, { subject: wallet.address, policy: policy([]) });
+    expect(report.isValid).toBe(false);
+    expect(proofCheck(report.checks)).toMatchObject({ passed: false, detail: expect.stringMatching(/CREDENTIAL_ISSUERS/) });
+  });
+
+  it('applies the same rule to the policy read from the environment', async () => {
+    const saved = process.env.CREDENTIAL_ISSUERS;
+    delete process.env.CREDENTIAL_ISSUERS;
+    try {
+      const wallet = Wallet.createRandom();
+      const { jwt } = signJwtVc(wallet, wallet.address);
+      expect(credentialPolicy().trustedIssuers).toEqual([]);
+      expect((await verifyCredentialInput(jwt, { subject: wallet.address })).isValid).toBe(false);
+    } finally {
+      if (saved !== undefined) process.env.CREDENTIAL_ISSUERS = saved;
+    }
+  });
+
+  it('accepts a credential signed by an allowlisted issuer', async () => {
+    const issuerWallet = Wallet.createRandom();
+    const holder = Wallet.createRandom().address;
+    const { issuer, jwt } = signJwtVc(issuerWallet, holder);
+
+    const report = await verifyCredentialInput(jwt, { subject: holder, policy: policy([issuer]) });
+    expect(proofCheck(report.checks)).toMatchObject({ passed: true });
+    expect(report.isValid).toBe(true);
+  });
+
+  it('rejects a JWT from an allowlisted issuer that someone else signed', async () => {
+    const holder = Wallet.createRandom().address;
+    const { issuer, jwt } = signJwtVc(Wallet.createRandom(), holder);
+    const forged = signJwtVc(Wallet.createRandom(), holder).jwt.split('.')[2];
+    const [header, payload] = jwt.split('.');
+
+    const report = await verifyCredentialInput(`${header}.${payload}.${forged}`, { subject: holder, policy: policy([issuer]) });
+    expect(proofCheck(report.checks)).toMatchObject({ passed: false, detail: 'The JWT was not signed by its issuer' });
+  });
+});
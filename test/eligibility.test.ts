@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MISCONFIGURED, UNVERIFIED } from '@/lib/eligibility';
+import { sessionEligibility } from '@/lib/verificationSession';
+import type { VerificationSessionJson } from '@/lib/fundraiserApi';
+
+const session = (claims: VerificationSessionJson['claims']): VerificationSessionJson => ({
+  address: '0x000000000000000000000000000000000000dEaD',
+  claims,
+  issuedAt: 0,
+  expiresAt: 1,
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('sessionEligibility', () => {
+  it('evaluates the configured rules', () => {
+    vi.stubEnv('ELIGIBILITY_RULES', 'kyc,region=US|CA');
+    expect(sessionEligibility(session({ kyc: 'passed', region: 'ca' })).status).toBe('eligible');
+    expect(sessionEligibility(session({ kyc: 'passed', region: 'FR' })).status).toBe('ineligible');
+    expect(sessionEligibility(null)).toBe(UNVERIFIED);
+  });
+
+  it('denies every session when the rules cannot be read', () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('ELIGIBILITY_RULES', 'kyc,minAge=eighteen');
+    expect(sessionEligibility(session({ kyc: 'passed', age: 30 }))).toBe(MISCONFIGURED);
+    expect(sessionEligibility(session({ kyc: 'passed', age: 30 }))).toBe(MISCONFIGURED);
+    expect(sessionEligibility(null)).toBe(UNVERIFIED);
+    // Parsed once per value, so the error is logged once
+    expect(logged).toHaveBeenCalledTimes(1);
+  });
+});
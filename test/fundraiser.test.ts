@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFundraiser, deriveStatus, progressPercent } from '@/lib/fundraiser';
+import type { FundraiserRecord } from '@/lib/fundraiserClient';
+
+const OWNER = '0x000000000000000000000000000000000000dEaD';
+const NOW = new Date('2025-06-01T00:00:00Z');
+const CHAIN_ID = 11155111;
+const seconds = (date: Date) => BigInt(Math.floor(date.getTime() / 1000));
+
+const record = (overrides: Partial<FundraiserRecord> = {}): FundraiserRecord => ({
+  owner: OWNER,
+  startDate: seconds(new Date('2025-05-01T00:00:00Z')),
+  endDate: seconds(new Date('2025-07-01T00:00:00Z')),
+  subject: 'Clean water',
+  details: 'A well for the village',
+  goal: BigInt(1000),
+  amountRaised: BigInt(250),
+  isCompleted: false,
+  goalReached: false,
+  ...overrides,
+});
+
+describe('decodeFundraiser', () => {
+  it('converts whole-USDC amounts and second timestamps', () => {
+    const fundraiser = decodeFundraiser(7, record(), CHAIN_ID, NOW);
+    expect(fundraiser).toMatchObject({
+      id: 7,
+      chainId: CHAIN_ID,
+      owner: OWNER,
+      goal: BigInt(1_000_000_000),
+      amountRaised: BigInt(250_000_000),
+      subject: 'Clean water',
+      status: 'active',
+    });
+    expect(fundraiser.endDate.toISOString()).toBe('2025-07-01T00:00:00.000Z');
+    expect(fundraiser.content).toMatchObject({ title: 'Clean water', story: 'A well for the village', legacy: true });
+  });
+
+  it('derives the status from the flags and the end date', () => {
+    expect(decodeFundraiser(1, record({ goalReached: true }), CHAIN_ID, NOW).status).toBe('goalReached');
+    expect(decodeFundraiser(1, record({ endDate: seconds(new Date('2025-05-31T00:00:00Z')) }), CHAIN_ID, NOW).status).toBe('ended');
+    expect(decodeFundraiser(1, record({ isCompleted: true, goalReached: true }), CHAIN_ID, NOW).status).toBe('completed');
+  });
+});
+
+describe('deriveStatus', () => {
+  it('treats "completed" after a missed deadline as merely ended', () => {
+    const endDate = new Date('2025-05-31T00:00:00Z');
+    expect(deriveStatus({ endDate, isCompleted: true, goalReached: false }, NOW)).toBe('ended');
+  });
+});
+
+describe('progressPercent', () => {
+  it('is the share of the goal raised, with two decimals', () => {
+    expect(progressPercent({ goal: BigInt(3_000_000), amountRaised: BigInt(1_000_000) })).toBe(33.33);
+    expect(progressPercent({ goal: BigInt(1_000_000), amountRaised: BigInt(1) })).toBe(0);
+  });
+
+  it('caps at 100 unless asked otherwise', () => {
+    const overfunded = { goal: BigInt(1_000_000), amountRaised: BigInt(1_500_000) };
+    expect(progressPercent(overfunded)).toBe(100);
+    expect(progressPercent(overfunded, { capped: false })).toBe(150);
+  });
+
+  it('is zero without a goal', () => {
+    expect(progressPercent({ goal: BigInt(0), amountRaised: BigInt(5_000_000) })).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+
+// ============================
+//   API routes without Next
+// ============================
+//
+// Just enough of NextApiRequest / NextApiResponse to run a JSON route handler: the body is
+// parsed JSON, cookies come in as an object, and the response records what was sent.
+
+export interface RouteRequest {
+  method?: string;
+  body?: unknown;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+}
+
+export interface RouteResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: any;
+}
+
+export const callApiRoute = async (handler: NextApiHandler, request: RouteRequest = {}): Promise<RouteResponse> => {
+  const result: RouteResponse = { status: 200, headers: {}, body: undefined };
+  const req = {
+    method: request.method ?? 'GET',
+    body: request.body,
+    query: request.query ?? {},
+    headers: request.headers ?? {},
+    cookies: request.cookies ?? {},
+  } as unknown as NextApiRequest;
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    setHeader(name: string, value: string | string[]) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return res;
+    },
+    end() {
+      return res;
+    },
+  } as unknown as NextApiResponse;
+  await handler(req, res);
+  return result;
+};
+
+export interface ApiRouteServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+// Serves one handler over real HTTP at `url`, whatever the request path
+export const serveApiRoute = async (handler: NextApiHandler): Promise<ApiRouteServer> => {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', async () => {
+      const headers = Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : value ?? ''])
+      );
+      const response = await callApiRoute(handler, {
+        method: req.method,
+        body: body ? JSON.parse(body) : undefined,
+        headers,
+      });
+      Object.entries(response.headers).forEach(([name, value]) => res.setHeader(name, value));
+      res.statusCode = response.status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
@@ -0,0 +1,63 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+
+// ============================
+//   Local JSON-RPC stub
+// ============================
+//
+// A real HTTP endpoint for the RPC pool to talk to. The handler answers one method call;
+// throwing from it sends a JSON-RPC error back. Batched requests are answered per entry.
+
+export type RpcHandler = (method: string, params: unknown[]) => unknown;
+
+export interface JsonRpcStub {
+  url: string;
+  // Every call received, in order
+  calls: Array<{ method: string; params: unknown[] }>;
+  setHandler: (handler: RpcHandler) => void;
+  close: () => Promise<void>;
+}
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+export const startJsonRpcStub = async (handler: RpcHandler): Promise<JsonRpcStub> => {
+  let current = handler;
+  const calls: JsonRpcStub['calls'] = [];
+
+  const answer = ({ id, method, params = [] }: RpcRequest) => {
+    calls.push({ method, params });
+    try {
+      return { jsonrpc: '2.0', id, result: current(method, params) };
+    } catch (err) {
+      return { jsonrpc: '2.0', id, error: { code: -32000, message: err instanceof Error ? err.message : String(err) } };
+    }
+  };
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const request = JSON.parse(body) as RpcRequest | RpcRequest[];
+      const response = Array.isArray(request) ? request.map(answer) : answer(request);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    setHandler: next => {
+      current = next;
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+export const toHex = (value: number | bigint) => `0x${value.toString(16)}`;
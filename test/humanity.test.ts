@@ -0,0 +1,161 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NextApiHandler } from 'next';
+import { Wallet } from 'ethers';
+import { authCookies } from '@/lib/auth';
+import { verifyWithHumanity } from '@/lib/humanity';
+import mockHumanity from '@/pages/api/mock/humanity/verify';
+import verifyRoute from '@/pages/api/verify';
+import { ApiRouteServer, callApiRoute, serveApiRoute } from './helpers/apiRoute';
+
+const WALLET = Wallet.createRandom().address;
+const DAY_MS = 24 * 60 * 60_000;
+
+const credential = (overrides: Record<string, unknown> = {}) => ({
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  type: ['VerifiableCredential'],
+  issuer: 'did:example:humanity',
+  validFrom: new Date(Date.now() - DAY_MS).toISOString(),
+  validUntil: new Date(Date.now() + DAY_MS).toISOString(),
+  credentialSubject: { id: `did:ethr:${WALLET}`, kyc: 'passed', age: 30 },
+  proof: { type: 'DataIntegrityProof', cryptosuite: 'bbs-2023' },
+  ...overrides,
+});
+
+const VALID = credential();
+const REVOKED = credential({ credentialStatus: { type: 'BitstringStatusListEntry', revoked: true } });
+const EXPIRED = credential({ validUntil: new Date(Date.now() - 60_000).toISOString() });
+
+const ENV_KEYS = ['HUMANITY_API_KEY', 'HUMANITY_VERIFY_URL', 'HUMANITY_MOCK', 'SESSION_SECRET', 'CREDENTIAL_ISSUERS'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+// The mock route, counting the requests that reach it
+let upstreamCalls = 0;
+const countedMock: NextApiHandler = (req, res) => {
+  upstreamCalls += 1;
+  return mockHumanity(req, res);
+};
+
+let mock: ApiRouteServer;
+const servers: ApiRouteServer[] = [];
+
+beforeAll(async () => {
+  mock = await serveApiRoute(countedMock);
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  upstreamCalls = 0;
+  process.env.HUMANITY_API_KEY = 'test-key';
+  process.env.HUMANITY_VERIFY_URL = mock.url;
+  process.env.HUMANITY_MOCK = '1';
+  process.env.SESSION_SECRET = 'test-secret';
+  delete process.env.CREDENTIAL_ISSUERS;
+});
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => server.close()));
+  ENV_KEYS.forEach(key => {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  });
+  vi.restoreAllMocks();
+});
+
+// Points the Humanity client at a server that always answers with `status`
+const failUpstream = async (status: number) => {
+  const server = await serveApiRoute((_req, res) => res.status(status).json({ error: 'upstream down' }));
+  servers.push(server);
+  process.env.HUMANITY_VERIFY_URL = server.url;
+};
+
+describe('verifyWithHumanity', () => {
+  it('accepts a valid credential', async () => {
+    await expect(verifyWithHumanity({ credential: VALID })).resolves.toMatchObject({
+      isValid: true,
+      message: 'Credential verified (mock)',
+    });
+  });
+
+  it('reports a revoked credential as invalid', async () => {
+    await expect(verifyWithHumanity({ credential: REVOKED })).resolves.toMatchObject({
+      isValid: false,
+      message: 'Credential has been revoked',
+    });
+  });
+
+  it('reports an expired credential as invalid', async () => {
+    await expect(verifyWithHumanity({ credential: EXPIRED })).resolves.toMatchObject({
+      isValid: false,
+      message: 'Credential has expired',
+    });
+  });
+
+  it('throws when the service answers with an error', async () => {
+    await failUpstream(500);
+    await expect(verifyWithHumanity({ credential: VALID })).rejects.toThrow(/status 500/);
+  });
+
+  it('throws when the service is not there', async () => {
+    delete process.env.HUMANITY_MOCK;
+    await expect(verifyWithHumanity({ credential: VALID })).rejects.toThrow(/status 404/);
+  });
+
+  it('throws without an API key', async () => {
+    delete process.env.HUMANITY_API_KEY;
+    await expect(verifyWithHumanity({ credential: VALID })).rejects.toThrow(/HUMANITY_API_KEY/);
+    expect(upstreamCalls).toBe(0);
+  });
+});
+
+describe('/api/verify', () => {
+  // The hh_session cookie of a wallet signed in with SIWE
+  const signedIn = (address = WALLET) => {
+    const now = Date.now();
+    const [cookie] = authCookies({ address, chainId: 11155111, issuedAt: now, expiresAt: now + DAY_MS });
+    const [name, value] = cookie.split(';')[0].split('=');
+    return { [name]: value };
+  };
+
+  const verify = (credentialBody: unknown, cookies = signedIn()) =>
+    callApiRoute(verifyRoute, { method: 'POST', body: { address: WALLET, credential: credentialBody }, cookies });
+
+  it('starts a verification session for a valid credential', async () => {
+    const response = await verify({ credential: VALID });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ isValid: true, session: { address: WALLET } });
+    expect(response.headers['set-cookie']).toMatch(/^hh_verification=/);
+    expect(upstreamCalls).toBe(1);
+  });
+
+  it('rejects a revoked credential without a session', async () => {
+    const response = await verify({ credential: REVOKED });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ isValid: false, session: null });
+    expect(response.body.message).toMatch(/revoked/);
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('rejects an expired credential before asking Humanity', async () => {
+    const response = await verify({ credential: EXPIRED });
+    expect(response.body).toMatchObject({ isValid: false, session: null });
+    expect(response.body.message).toMatch(/Expired on/);
+    expect(upstreamCalls).toBe(0);
+  });
+
+  it('answers 502 when Humanity fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await failUpstream(503);
+    const response = await verify({ credential: VALID });
+    expect(response.status).toBe(502);
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('needs the wallet to be signed in', async () => {
+    const response = await verify({ credential: VALID }, {});
+    expect(response.status).toBe(401);
+    expect(upstreamCalls).toBe(0);
+  });
+});
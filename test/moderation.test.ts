@@ -0,0 +1,152 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Wallet } from 'ethers';
+import { authCookies } from '@/lib/auth';
+import { decodeFundraiser } from '@/lib/fundraiser';
+import type { FundraiserRecord } from '@/lib/fundraiserClient';
+import { getModerationStore } from '@/lib/moderationStore';
+import listRoute from '@/pages/api/fundraisers/index';
+import fundraiserRoute from '@/pages/api/fundraisers/[id]/index';
+import donationsRoute from '@/pages/api/fundraisers/[id]/donations';
+import { callApiRoute } from './helpers/apiRoute';
+
+const OWNER = Wallet.createRandom().address;
+const MODERATOR = Wallet.createRandom().address;
+const DAY_MS = 24 * 60 * 60_000;
+
+const record = (owner: string): FundraiserRecord => ({
+  owner,
+  startDate: BigInt(Math.floor(Date.now() / 1000) - 86_400),
+  endDate: BigInt(Math.floor(Date.now() / 1000) + 86_400),
+  subject: 'Clean water',
+  details: 'A well for the village',
+  goal: BigInt(1000),
+  amountRaised: BigInt(0),
+  isCompleted: false,
+  goalReached: false,
+});
+
+// 3 is a legacy test fundraiser, 20 gets hidden in the tests, 21 stays visible
+const FUNDRAISERS = [3, 20, 21].map(id => decodeFundraiser(id, record(OWNER), 11155111));
+
+vi.mock('@/lib/fundraiserRepository', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/fundraiserRepository')>()),
+  getFundraisers: async () => FUNDRAISERS,
+  getFundraiser: async (id: number) => FUNDRAISERS.find(fundraiser => fundraiser.id === id) ?? null,
+  getFundraiserDonations: async (fundraiserId: number) => ({
+    fundraiserId,
+    donations: [],
+    totalDonated: '0',
+    donorCount: 0,
+    indexedThroughBlock: null,
+  }),
+  getContractOwner: async () => MODERATOR,
+}));
+
+const directory = mkdtempSync(path.join(tmpdir(), 'moderation-'));
+const savedEnv = { MODERATION_PATH: process.env.MODERATION_PATH, SESSION_SECRET: process.env.SESSION_SECRET };
+let run = 0;
+
+beforeEach(async () => {
+  // A fresh store file for every test
+  process.env.MODERATION_PATH = path.join(directory, `moderation-${run++}.json`);
+  process.env.SESSION_SECRET = 'test-secret';
+  delete (globalThis as { moderationStore?: unknown }).moderationStore;
+  await getModerationStore().addEntry({ fundraiserId: 20, action: 'hide', reason: 'Spam' }, MODERATOR);
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+  Object.entries(savedEnv).forEach(([key, value]) => {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  });
+});
+
+const signedInAs = (address: string) => {
+  const now = Date.now();
+  const [cookie] = authCookies({ address, chainId: 11155111, issuedAt: now, expiresAt: now + DAY_MS });
+  const [name, value] = cookie.split(';')[0].split('=');
+  return { [name]: value };
+};
+
+const listedIds = (body: { items: Array<{ id: number }> }) => body.items.map(item => item.id);
+
+describe('moderation store', () => {
+  it('starts with the legacy test fundraisers hidden', async () => {
+    const hidden = (await getModerationStore().getEntries()).filter(entry => entry.action === 'hide');
+    expect(hidden.map(entry => entry.fundraiserId).sort((a, b) => a! - b!)).toEqual([0, 1, 2, 3, 4, 5, 6, 16, 20]);
+  });
+
+  it('does not bring back a legacy entry a moderator lifted', async () => {
+    await getModerationStore().removeEntry('legacy-hidden-3');
+    delete (globalThis as { moderationStore?: unknown }).moderationStore;
+    const entries = await getModerationStore().getEntries();
+    expect(entries.some(entry => entry.fundraiserId === 3)).toBe(false);
+  });
+});
+
+describe('/api/fundraisers', () => {
+  it('leaves hidden fundraisers out of public listings', async () => {
+    const response = await callApiRoute(listRoute, { query: {} });
+    expect(listedIds(response.body)).toEqual([21]);
+  });
+
+  it('does not lift moderation for an anonymous owner filter', async () => {
+    const response = await callApiRoute(listRoute, { query: { owner: OWNER } });
+    expect(listedIds(response.body)).toEqual([21]);
+    // The owner would get a different answer for the same URL
+    expect(response.headers['cache-control']).toBe('private, no-store');
+  });
+
+  it('does not lift moderation when another wallet asks for the owner', async () => {
+    const response = await callApiRoute(listRoute, { query: { owner: OWNER }, cookies: signedInAs(MODERATOR) });
+    expect(listedIds(response.body)).toEqual([21]);
+  });
+
+  it('lists hidden fundraisers for their signed-in owner, privately', async () => {
+    const response = await callApiRoute(listRoute, { query: { owner: OWNER }, cookies: signedInAs(OWNER) });
+    expect(listedIds(response.body).sort((a, b) => a - b)).toEqual([3, 20, 21]);
+    expect(response.headers['cache-control']).toBe('private, no-store');
+  });
+});
+
+describe('/api/fundraisers/[id]', () => {
+  it('answers 410 for a hidden fundraiser', async () => {
+    expect((await callApiRoute(fundraiserRoute, { query: { id: '20' } })).status).toBe(410);
+    expect((await callApiRoute(fundraiserRoute, { query: { id: '3' } })).status).toBe(410);
+    expect((await callApiRoute(fundraiserRoute, { query: { id: '21' } })).status).toBe(200);
+  });
+
+  it('still answers the signed-in owner, privately', async () => {
+    const response = await callApiRoute(fundraiserRoute, { query: { id: '20' }, cookies: signedInAs(OWNER) });
+    expect(response.status).toBe(200);
+    expect(response.headers['cache-control']).toBe('private, no-store');
+  });
+
+  it('lets shared caches keep only answers that do not depend on the cookie', async () => {
+    const hidden = await callApiRoute(fundraiserRoute, { query: { id: '20' } });
+    expect(hidden.headers['cache-control']).toBe('private, no-store');
+    const visible = await callApiRoute(fundraiserRoute, { query: { id: '21' }, cookies: signedInAs(OWNER) });
+    expect(visible.headers['cache-control']).toMatch(/^public/);
+  });
+});
+
+describe('/api/fundraisers/[id]/donations', () => {
+  it('answers 410 for a hidden fundraiser', async () => {
+    expect((await callApiRoute(donationsRoute, { query: { id: '20' } })).status).toBe(410);
+    expect((await callApiRoute(donationsRoute, { query: { id: '21' } })).status).toBe(200);
+  });
+
+  it('still answers the signed-in owner', async () => {
+    const response = await callApiRoute(donationsRoute, { query: { id: '20' }, cookies: signedInAs(OWNER) });
+    expect(response.status).toBe(200);
+    expect(response.headers['cache-control']).toBe('private, no-store');
+  });
+
+  it('answers 404 for a fundraiser that does not exist', async () => {
+    expect((await callApiRoute(donationsRoute, { query: { id: '99' } })).status).toBe(404);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RpcCall, createRpcPool } from '@/lib/rpcPool';
+import { JsonRpcStub, RpcHandler, startJsonRpcStub, toHex } from './helpers/jsonRpcStub';
+
+const CONTRACT = '0x308A7629a5C39f9073D4617A4e95A205d4474E07';
+const HEAD = 100;
+
+const word = (value: number) => `0x${value.toString(16).padStart(64, '0')}`;
+
+// Answers the block number and every eth_call with `value`
+const healthy =
+  (value: number): RpcHandler =>
+  method => {
+    if (method === 'eth_blockNumber') return toHex(HEAD);
+    if (method === 'eth_call') return word(value);
+    throw new Error(`unexpected ${method}`);
+  };
+
+const failing: RpcHandler = () => {
+  throw new Error('upstream unavailable');
+};
+
+const stubs: JsonRpcStub[] = [];
+
+const start = async (...handlers: RpcHandler[]) => {
+  const started = await Promise.all(handlers.map(startJsonRpcStub));
+  stubs.push(...started);
+  return started;
+};
+
+const readCall: RpcCall<string> = (provider, blockTag) => provider.call({ to: CONTRACT, data: '0x', blockTag });
+
+afterEach(async () => {
+  await Promise.all(stubs.splice(0).map(stub => stub.close()));
+  vi.restoreAllMocks();
+});
+
+describe('createRpcPool', () => {
+  it('fails over to the next endpoint when the first one errors', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const [down, up] = await start(failing, healthy(7));
+    const pool = createRpcPool([down.url, up.url], { timeoutMs: 2000 });
+
+    await expect(pool.read(provider => provider.getBlockNumber())).resolves.toBe(HEAD);
+
+    const health = pool.getHealth();
+    expect(health.find(entry => entry.url === down.url)).toMatchObject({ failures: 1, successes: 0 });
+    expect(health.find(entry => entry.url === up.url)).toMatchObject({ failures: 0, successes: 1 });
+    // The endpoint that answered now ranks first
+    expect(health[0].url).toBe(up.url);
+  });
+
+  it('benches an endpoint after consecutive failures and stops asking it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    let time = 1_000_000;
+    const [down, up] = await start(failing, healthy(7));
+    const pool = createRpcPool([down.url, up.url], {
+      timeoutMs: 2000,
+      maxConsecutiveFailures: 2,
+      cooldownMs: 30_000,
+      now: () => time,
+    });
+
+    // Pings both, so each failure lands on the first endpoint
+    await pool.probe();
+    await pool.probe();
+    const benched = pool.getHealth().find(entry => entry.url === down.url)!;
+    expect(benched.consecutiveFailures).toBe(2);
+    expect(benched.cooldownUntil).toBe(time + 30_000);
+    expect(benched.lastError).toContain('upstream unavailable');
+
+    const asked = down.calls.length;
+    await pool.read(provider => provider.getBlockNumber());
+    expect(down.calls.length).toBe(asked);
+
+    // Back in rotation once the cooldown is over and it answers again
+    time += 30_001;
+    down.setHandler(healthy(7));
+    // ethers replays an identical request's result for 250ms, the failure included
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await pool.probe();
+    expect(pool.getHealth().find(entry => entry.url === down.url)).toMatchObject({
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    });
+  });
+
+  it('resolves a cross-checked read once two endpoints agree at the same block', async () => {
+    const endpoints = await start(healthy(42), healthy(42), healthy(42));
+    const pool = createRpcPool(
+      endpoints.map(stub => stub.url),
+      { timeoutMs: 2000 }
+    );
+
+    const value = await pool.quorumRead(readCall, { quorum: 2 });
+    expect(BigInt(value)).toBe(BigInt(42));
+
+    // Every endpoint that was asked read the same pinned block, not "latest"
+    const blockTags = endpoints.flatMap(stub =>
+      stub.calls.filter(call => call.method === 'eth_call').map(call => call.params[1])
+    );
+    expect(blockTags).toHaveLength(2);
+    expect(new Set(blockTags)).toEqual(new Set([toHex(HEAD - 1)]));
+  });
+
+  it('rejects a cross-checked read when the endpoints disagree', async () => {
+    const endpoints = await start(healthy(1), healthy(2), healthy(3));
+    const pool = createRpcPool(
+      endpoints.map(stub => stub.url),
+      { timeoutMs: 2000 }
+    );
+
+    await expect(pool.quorumRead(readCall, { quorum: 2 })).rejects.toThrow(/disagree/);
+  });
+
+  it('asks a further endpoint when the first two disagree', async () => {
+    const endpoints = await start(healthy(1), healthy(2), healthy(2));
+    const pool = createRpcPool(
+      endpoints.map(stub => stub.url),
+      { timeoutMs: 2000 }
+    );
+
+    const value = await pool.quorumRead(readCall, { quorum: 2 });
+    expect(BigInt(value)).toBe(BigInt(2));
+  });
+
+  it('warns once when there are fewer endpoints than the quorum', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const [only] = await start(healthy(5));
+    const pool = createRpcPool([only.url], { timeoutMs: 2000 });
+
+    await pool.quorumRead(readCall, { quorum: 2 });
+    await pool.quorumRead(readCall, { quorum: 2 });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/quorum of 2/);
+  });
+});
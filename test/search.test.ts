@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex, tokenize } from '@/lib/search';
+import { decodeFundraiser } from '@/lib/fundraiser';
+import type { FundraiserRecord } from '@/lib/fundraiserClient';
+import { queryFundraisers } from '@/lib/fundraiserRepository';
+
+const OWNER = '0x000000000000000000000000000000000000dEaD';
+const NOW = new Date('2025-06-01T00:00:00Z');
+const CHAIN_ID = 11155111;
+const seconds = (date: Date) => BigInt(Math.floor(date.getTime() / 1000));
+
+const record = (overrides: Partial<FundraiserRecord> = {}): FundraiserRecord => ({
+  owner: OWNER,
+  startDate: seconds(new Date('2025-05-01T00:00:00Z')),
+  endDate: seconds(new Date('2025-07-01T00:00:00Z')),
+  subject: 'Clean water',
+  details: 'A well for the village',
+  goal: BigInt(1000),
+  amountRaised: BigInt(0),
+  isCompleted: false,
+  goalReached: false,
+  ...overrides,
+});
+
+describe('tokenize', () => {
+  it('folds case and accents', () => {
+    expect(tokenize('Café CRÈME naïve')).toEqual(['cafe', 'creme', 'naive']);
+  });
+
+  it('splits on whitespace and punctuation but keeps letters of any script', () => {
+    expect(tokenize('clean-water, (now!) for   Zürich/Kraków')).toEqual([
+      'clean',
+      'water',
+      'now',
+      'for',
+      'zurich',
+      'krakow',
+    ]);
+    expect(tokenize('東京、大阪。 Ελλάδα')).toEqual(['東京', '大阪', 'ελλαδα']);
+  });
+});
+
+describe('createSearchIndex', () => {
+  const index = createSearchIndex([
+    { id: 1, fields: [{ text: 'Education fund', weight: 3 }, { text: 'Books for the school', weight: 1 }] },
+    { id: 2, fields: [{ text: 'School roof', weight: 3 }, { text: 'Educ is short for education', weight: 1 }] },
+    { id: 3, fields: [{ text: 'Medical bills', weight: 3 }, { text: 'Surgery after the flood', weight: 1 }] },
+  ]);
+
+  it('scores an exact word above a word it only begins', () => {
+    const scores = index.search('educ')!;
+    // 2 has "educ" itself in the story, 1 only "education" in the title
+    expect(scores.get(2)).toBe(1);
+    expect(scores.get(1)).toBe(1.5);
+    expect(index.search('education')!.get(1)).toBe(3);
+  });
+
+  it('weights matches by the field they are in', () => {
+    const scores = index.search('school')!;
+    expect(scores.get(2)).toBe(3);
+    expect(scores.get(1)).toBe(1);
+  });
+
+  it('needs every word of the query to match and adds up their scores', () => {
+    expect(Array.from(index.search('school books')!)).toEqual([[1, 2]]);
+    expect(index.search('medical school')!.size).toBe(0);
+    expect(index.search('SURGERY, médical')!.get(3)).toBe(4);
+  });
+
+  it('returns null for a query without words', () => {
+    expect(index.search(' ,.! ')).toBeNull();
+  });
+});
+
+describe('queryFundraisers', () => {
+  const fundraiser = (id: number, raised: number, subject = 'Clean water') =>
+    decodeFundraiser(id, record({ subject, amountRaised: BigInt(raised) }), CHAIN_ID, NOW);
+  const fundraisers = [fundraiser(0, 50), fundraiser(1, 300), fundraiser(2, 100), fundraiser(3, 200)];
+  const ids = (response: ReturnType<typeof queryFundraisers>) => response.items.map(item => item.id);
+
+  it('continues after the cursor even when fundraisers were added in between', () => {
+    const first = queryFundraisers(fundraisers, { sort: 'raised', pageSize: 2 }, { now: NOW });
+    expect(ids(first)).toEqual([1, 3]);
+    expect(first.nextCursor).toBe('3');
+
+    // 4 sorts onto the first page, which would push 3 onto the second one by offset
+    const grown = [...fundraisers, fundraiser(4, 250)];
+    const second = queryFundraisers(grown, { sort: 'raised', pageSize: 2, cursor: first.nextCursor! }, { now: NOW });
+    expect(ids(second)).toEqual([2, 0]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('returns nothing after a cursor that is not a fundraiser', () => {
+    const response = queryFundraisers(fundraisers, { sort: 'raised', cursor: '99' }, { now: NOW });
+    expect(response.items).toEqual([]);
+    expect(response.nextCursor).toBeNull();
+  });
+
+  it('ranks search matches by relevance unless a sort is given', () => {
+    const listed = [
+      fundraiser(0, 0, 'School books for the school'),
+      fundraiser(1, 0, 'School roof'),
+      fundraiser(2, 0, 'Medical bills'),
+    ];
+    expect(ids(queryFundraisers(listed, { q: 'school' }, { now: NOW }))).toEqual([0, 1]);
+    expect(ids(queryFundraisers(listed, { q: 'school', sort: 'newest' }, { now: NOW }))).toEqual([1, 0]);
+  });
+});
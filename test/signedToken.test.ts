@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Wallet } from 'ethers';
+import { AUTH_COOKIE, authCookies, getAuthSession } from '@/lib/auth';
+import { signToken } from '@/lib/signedToken';
+import { createSessionToken, readSessionToken } from '@/lib/verificationSession';
+
+const WALLET = Wallet.createRandom().address;
+const HOUR_MS = 60 * 60_000;
+
+const savedSecret = process.env.SESSION_SECRET;
+
+beforeEach(() => {
+  process.env.SESSION_SECRET = 'test-secret';
+});
+
+afterEach(() => {
+  if (savedSecret === undefined) delete process.env.SESSION_SECRET;
+  else process.env.SESSION_SECRET = savedSecret;
+});
+
+// The token in the hh_session Set-Cookie header
+const siweToken = () => {
+  const now = Date.now();
+  const [cookie] = authCookies({ address: WALLET, chainId: 1, issuedAt: now, expiresAt: now + HOUR_MS });
+  return cookie.split(';')[0].slice(`${AUTH_COOKIE}=`.length);
+};
+
+describe('signed session tokens', () => {
+  it('reads each token back with its own reader', () => {
+    expect(getAuthSession({ cookies: { [AUTH_COOKIE]: siweToken() } })).toMatchObject({ address: WALLET, chainId: 1 });
+    const { token } = createSessionToken(WALLET, { kyc: 'passed' });
+    expect(readSessionToken(token)).toMatchObject({ address: WALLET, claims: { kyc: 'passed' } });
+  });
+
+  it('does not accept a verification token as a sign-in session', () => {
+    const { token } = createSessionToken(WALLET, { kyc: 'passed' });
+    expect(getAuthSession({ cookies: { [AUTH_COOKIE]: token } })).toBeNull();
+  });
+
+  it('does not accept a sign-in session as a verification token', () => {
+    expect(readSessionToken(siweToken())).toBeNull();
+  });
+
+  it('rejects a verification token without claims', () => {
+    const now = Date.now();
+    const token = signToken('verification', { address: WALLET, issuedAt: now, expiresAt: now + HOUR_MS });
+    expect(readSessionToken(token)).toBeNull();
+  });
+});
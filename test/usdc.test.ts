@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { USDC_UNIT, formatUsdc, fromContractUsdc, parseUsdc, toContractUsdc } from '@/lib/usdc';
+
+describe('parseUsdc', () => {
+  it('parses whole and fractional amounts into base units', () => {
+    expect(parseUsdc('12')).toBe(BigInt(12_000_000));
+    expect(parseUsdc('12.5')).toBe(BigInt(12_500_000));
+    expect(parseUsdc('.25')).toBe(BigInt(250_000));
+    expect(parseUsdc('0.000001')).toBe(BigInt(1));
+    expect(parseUsdc(' 7. ')).toBe(BigInt(7_000_000));
+  });
+
+  it('rejects more than 6 decimal places', () => {
+    expect(() => parseUsdc('1.0000001')).toThrow(/at most 6 decimal places/);
+  });
+
+  it('rejects anything that is not a plain non-negative decimal', () => {
+    ['', '.', '-1', '1e6', '1,000', 'abc', '1.2.3'].forEach(input => {
+      expect(() => parseUsdc(input)).toThrow(/not a valid USDC amount/);
+    });
+  });
+});
+
+describe('contract amounts', () => {
+  it('scales whole USDC from the contract views to base units', () => {
+    expect(fromContractUsdc(BigInt(250))).toBe(BigInt(250) * USDC_UNIT);
+  });
+
+  it('converts whole amounts for contract writes', () => {
+    expect(toContractUsdc(parseUsdc('250'))).toBe(BigInt(250));
+    expect(toContractUsdc(BigInt(0))).toBe(BigInt(0));
+  });
+
+  it('rejects amounts with cents, which the contract cannot express', () => {
+    expect(() => toContractUsdc(parseUsdc('10.5'))).toThrow(/whole USDC/);
+    expect(() => toContractUsdc(BigInt(1))).toThrow(/whole USDC/);
+  });
+});
+
+describe('formatUsdc', () => {
+  it('formats with a symbol, grouping and two decimals by default', () => {
+    expect(formatUsdc(BigInt(1_234_500_000))).toBe('$1,234.50');
+    expect(formatUsdc(BigInt(0))).toBe('$0.00');
+  });
+
+  it('rounds half up at the last shown digit', () => {
+    expect(formatUsdc(BigInt(1_005_000))).toBe('$1.01');
+    expect(formatUsdc(BigInt(1_004_999))).toBe('$1.00');
+    expect(formatUsdc(BigInt(999_995_000))).toBe('$1,000.00');
+  });
+
+  it('shows at most 6 decimals, the precision of the base units', () => {
+    expect(formatUsdc(BigInt(1), { maximumFractionDigits: 6 })).toBe('$0.000001');
+    expect(formatUsdc(BigInt(1), { maximumFractionDigits: 10 })).toBe('$0.000001');
+    expect(formatUsdc(BigInt(1_500_001), { minimumFractionDigits: 0, maximumFractionDigits: 6 })).toBe('$1.500001');
+  });
+
+  it('trims trailing zeros down to the minimum digits', () => {
+    expect(formatUsdc(BigInt(1_500_000), { minimumFractionDigits: 0, symbol: false })).toBe('1.5');
+    expect(formatUsdc(BigInt(2_000_000), { minimumFractionDigits: 0, symbol: false })).toBe('2');
+  });
+
+  it('keeps the sign of negative amounts, but not of ones that round to zero', () => {
+    expect(formatUsdc(BigInt(-2_500_000))).toBe('-$2.50');
+    expect(formatUsdc(BigInt(-1))).toBe('$0.00');
+  });
+});